@@ -0,0 +1,15 @@
+import { DrawingCanvas } from "@/components/drawing-canvas";
+
+export default async function BoardPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-background">
+      <DrawingCanvas roomId={decodeURIComponent(id)} />
+    </div>
+  );
+}
@@ -11,7 +11,11 @@ import {
   ZoomOut,
   Maximize,
   RotateCcw,
+  History,
+  Film,
+  Layers,
 } from "lucide-react";
+import { toast } from "sonner";
 
 interface CanvasOperationsProps {
   onClearCanvas?: () => void;
@@ -29,8 +33,29 @@ export function CanvasOperations({ onClearCanvas }: CanvasOperationsProps) {
     resetZoom,
     zoomIn,
     zoomOut,
+    showHistoryPanel,
+    setShowHistoryPanel,
+    showLayersPanel,
+    setShowLayersPanel,
+    timelapseFrames,
+    startTimelapse,
+    stopTimelapse,
   } = useCanvasStore();
 
+  const handleToggleTimelapse = async () => {
+    if (timelapseFrames) {
+      stopTimelapse();
+      return;
+    }
+    try {
+      await startTimelapse();
+    } catch (error) {
+      toast.error("加载回放失败: " + (error as Error).message, {
+        closeButton: true,
+      });
+    }
+  };
+
   const handleClearCanvas = () => {
     if (onClearCanvas) {
       onClearCanvas();
@@ -64,6 +89,33 @@ export function CanvasOperations({ onClearCanvas }: CanvasOperationsProps) {
           >
             <Redo2 className="h-4 w-4" />
           </Button>
+          <Button
+            variant={showHistoryPanel ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setShowHistoryPanel(!showHistoryPanel)}
+            className="h-8 w-8 p-0"
+            title="历史记录"
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={showLayersPanel ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setShowLayersPanel(!showLayersPanel)}
+            className="h-8 w-8 p-0"
+            title="图层"
+          >
+            <Layers className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={timelapseFrames ? "default" : "ghost"}
+            size="sm"
+            onClick={handleToggleTimelapse}
+            className="h-8 w-8 p-0"
+            title="延时回放"
+          >
+            <Film className="h-4 w-4" />
+          </Button>
         </div>
 
         <Separator orientation="vertical" className="h-6" />
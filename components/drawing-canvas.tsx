@@ -1,70 +1,81 @@
 "use client";
 
 import type React from "react";
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { useCanvasStore } from "@/lib/canvas-store";
 import { useTheme } from "next-themes";
 import { DrawingToolbar } from "./drawing-toolbar";
 import { PropertiesPanel } from "./properties-panel";
+import { HistoryPanel } from "./history-panel";
+import { LayersPanel } from "./layers-panel";
+import { TimelapsePlayer } from "./timelapse-player";
 import { CanvasOperations } from "./canvas-operations";
 import { KeyboardShortcuts } from "./keyboard-shortcuts";
 import { ShortcutsHelp } from "./shortcuts-help";
 import { CustomDialog } from "./custom-dialog";
-import type { CanvasShape, CanvasPath } from "@/types/canvas";
+import type { CanvasShape, CanvasPath, Participant } from "@/types/canvas";
 import type { GuideLine } from "@/types/canvas";
-import { pointToLineDistance } from "@/lib/utils";
-
-// 画笔压感模拟
-function getStroke(points: number[][], options: any = {}) {
-  const { size = 8, thinning = 0.5, simulatePressure = true } = options;
-
-  const inputPoints = points.map((point, i) => {
-    const pressure = simulatePressure
-      ? Math.min(1, 1 - Math.abs(i - points.length / 2) / (points.length / 2))
-      : 0.5;
-    return [point[0], point[1], pressure];
-  });
-
-  const strokePoints: number[][] = [];
-
-  for (let i = 0; i < inputPoints.length; i++) {
-    const [x, y, pressure] = inputPoints[i];
-    const currentSize = size * (1 - thinning * (1 - pressure));
-
-    if (i === 0) {
-      strokePoints.push([x - currentSize / 2, y - currentSize / 2]);
-      strokePoints.push([x + currentSize / 2, y - currentSize / 2]);
-    } else {
-      const prevPoint = inputPoints[i - 1];
-      const angle = Math.atan2(y - prevPoint[1], x - prevPoint[0]);
-      const perpAngle = angle + Math.PI / 2;
-
-      strokePoints.push([
-        x + (Math.cos(perpAngle) * currentSize) / 2,
-        y + (Math.sin(perpAngle) * currentSize) / 2,
-      ]);
-    }
-  }
-
-  for (let i = inputPoints.length - 1; i >= 0; i--) {
-    const [x, y, pressure] = inputPoints[i];
-    const currentSize = size * (1 - thinning * (1 - pressure));
-    const angle =
-      i > 0
-        ? Math.atan2(y - inputPoints[i - 1][1], x - inputPoints[i - 1][0])
-        : 0;
-    const perpAngle = angle - Math.PI / 2;
-
-    strokePoints.push([
-      x + (Math.cos(perpAngle) * currentSize) / 2,
-      y + (Math.sin(perpAngle) * currentSize) / 2,
-    ]);
-  }
-
-  return strokePoints;
+import { getShareLink, pointToLineDistance } from "@/lib/utils";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Link2 } from "lucide-react";
+import type { ConnectionState } from "@/lib/collaboration-service";
+import {
+  beginShape,
+  drawGridLines,
+  drawPath,
+  drawShapeBody,
+  getPathBounds,
+  getSceneBounds,
+  getStroke,
+  pickContent,
+  translatePath,
+  translateShape,
+} from "@/lib/scene-renderer";
+import { resolveAsset } from "@/lib/assets";
+import { getCanvasObjects } from "@/lib/z-order";
+import {
+  getGroupElementIds,
+  getSelectionGroupId,
+  getSelectionUnit,
+} from "@/lib/groups";
+import { flattenLayers, isElementEditable } from "@/lib/layers";
+import { BINDING_DISTANCE, bindConnector } from "@/lib/bindings";
+
+// 各协作连接状态的显示文案与颜色
+const CONNECTION_STATE_DISPLAY: Record<
+  ConnectionState,
+  { label: string; text: string; dot: string }
+> = {
+  connecting: {
+    label: "正在连接协同服务器…",
+    text: "text-amber-500",
+    dot: "bg-amber-500",
+  },
+  online: {
+    label: "协同编辑已开启",
+    text: "text-green-500",
+    dot: "bg-green-500",
+  },
+  offline: {
+    label: "已离线，修改将在重连后同步",
+    text: "text-red-500",
+    dot: "bg-red-500",
+  },
+  resyncing: {
+    label: "正在同步离线修改…",
+    text: "text-blue-500",
+    dot: "bg-blue-500",
+  },
+};
+
+interface DrawingCanvasProps {
+  // 协作房间 ID（来自 /board/[id] 路由），提供时自动加入该房间
+  roomId?: string;
 }
 
-export function DrawingCanvas() {
+export function DrawingCanvas({ roomId }: DrawingCanvasProps = {}) {
+  const router = useRouter();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const textInputRef = useRef<HTMLInputElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
@@ -132,9 +143,11 @@ export function DrawingCanvas() {
     canvasId,
     isCollaborating,
     isCollabLoading,
-    collabError,
+    connectionState,
     initializeCollaboration,
+    joinCanvas,
     toggleCollaboration,
+    createShareRoom,
     collaborativeAddPath,
     collaborativeAddShape,
     collaborativeUpdatePath,
@@ -143,17 +156,59 @@ export function DrawingCanvas() {
     collaborativeClearCanvas,
     disconnectCollaboration,
     eraseSelected,
+    participants,
+    updateCursor,
+    getRemoteSelectionOwner,
+    isLockedByOthers,
+    beginTransaction,
+    commitTransaction,
+    timelapseFrames,
+    timelapseIndex,
+    exportFrames,
+    editingGroupId,
+    setEditingGroupId,
+    resizeSelected,
+    layers,
   } = useCanvasStore();
 
-  // 初始化协同服务（仅创建实例，不自动连接）
+  // 初始化协同服务：带房间 ID 时直接加入房间，否则仅创建实例，不自动连接
   useEffect(() => {
-    initializeCollaboration(canvasId); // 初始化服务实例（未连接状态）
+    if (roomId) {
+      joinCanvas(roomId);
+    } else {
+      initializeCollaboration(canvasId); // 初始化服务实例（未连接状态）
+    }
 
     return () => {
       // 组件卸载时强制清理
       disconnectCollaboration();
     };
-  }, [canvasId]);
+  }, [roomId]);
+
+  // 协同开关：首页没有房间时新建房间并进入房间地址，避免所有人都进入同一个画板
+  const handleToggleCollaboration = async () => {
+    if (roomId || isCollaborating || isCollabLoading) {
+      await toggleCollaboration();
+      return;
+    }
+    const newRoomId = await createShareRoom();
+    router.push(`/board/${encodeURIComponent(newRoomId)}`);
+  };
+
+  // 新建分享房间，复制链接并跳转到房间地址
+  const handleShareLink = async () => {
+    const newRoomId = await createShareRoom();
+    const link = getShareLink(newRoomId);
+
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success("分享链接已复制", { closeButton: true });
+    } catch (error) {
+      toast.error("复制失败，请手动复制链接: " + link, { closeButton: true });
+    }
+
+    router.push(`/board/${encodeURIComponent(newRoomId)}`);
+  };
 
   // 监听窗口尺寸变化，更新画布尺寸
   useEffect(() => {
@@ -184,12 +239,51 @@ export function DrawingCanvas() {
     [stagePos, stageScale]
   );
 
+  // 可以选中和编辑的元素：隐藏和锁定的图层中的元素不参与点击检测和选择
+  const editableContent = useMemo(
+    () => ({
+      paths: paths.filter((path) => isElementEditable(path, layers)),
+      shapes: shapes.filter((shape) => isElementEditable(shape, layers)),
+    }),
+    [paths, shapes, layers]
+  );
+
+  // 按层叠顺序（从下到上）排列的可编辑元素
+  const canvasObjects = useMemo(
+    () => getCanvasObjects({ ...editableContent, layers }),
+    [editableContent, layers]
+  );
+
+  // 选中多个元素（包括组）时的整体包围框，用于整体调整大小
+  const selectionBounds = useMemo(
+    () =>
+      selectedIds.length > 1
+        ? getSceneBounds(pickContent({ paths, shapes }, selectedIds))
+        : null,
+    [paths, shapes, selectedIds]
+  );
+
+  // 进入的组的包围框
+  const editingGroupBounds = useMemo(
+    () =>
+      editingGroupId
+        ? getSceneBounds(
+            pickContent(
+              { paths, shapes },
+              getGroupElementIds({ paths, shapes }, editingGroupId)
+            )
+          )
+        : null,
+    [paths, shapes, editingGroupId]
+  );
+
   // 查找当前鼠标位置的形状，实现形状碰撞检测
   const findShapeAtPosition = useCallback(
     (x: number, y: number): CanvasShape | null => {
-      // 这样可以确保最上层的形状被选中
-      for (let i = shapes.length - 1; i >= 0; i--) {
-        const shape = shapes[i];
+      // 按层叠顺序从上往下查找，确保最上层的形状被选中
+      for (let i = canvasObjects.length - 1; i >= 0; i--) {
+        if (canvasObjects[i].type !== "shape") continue;
+        const shape = canvasObjects[i].data as CanvasShape;
         if (
           x >= shape.x &&
           x <= shape.x + (shape.width || 0) &&
@@ -201,15 +295,16 @@ export function DrawingCanvas() {
       }
       return null;
     },
-    [shapes]
+    [canvasObjects]
   );
 
   // 新增：查找当前鼠标位置的路径
   const findPathAtPosition = useCallback(
     (x: number, y: number): CanvasPath | null => {
-      // 从后往前遍历，确保最上层的路径被选中
-      for (let i = paths.length - 1; i >= 0; i--) {
-        const path = paths[i];
+      // 按层叠顺序从上往下查找，确保最上层的路径被选中
+      for (let i = canvasObjects.length - 1; i >= 0; i--) {
+        if (canvasObjects[i].type !== "path") continue;
+        const path = canvasObjects[i].data as CanvasPath;
         const points = path.points;
 
         // 检查路径的每个线段
@@ -231,12 +326,30 @@ export function DrawingCanvas() {
       }
       return null;
     },
-    [paths, stageScale]
+    [canvasObjects, stageScale]
+  );
+
+  // 查找当前鼠标位置最上层的元素（路径和图形一起按层叠顺序比较）
+  const findElementAtPosition = useCallback(
+    (x: number, y: number): CanvasShape | CanvasPath | null => {
+      const shape = findShapeAtPosition(x, y);
+      const path = findPathAtPosition(x, y);
+      if (!shape || !path) return shape || path;
+      // 按层叠顺序中的位置比较：先比较图层，zIndex 只在同一图层内有意义
+      const indexOf = (id: string) =>
+        canvasObjects.findIndex((object) => object.id === id);
+      return indexOf(path.id) > indexOf(shape.id) ? path : shape;
+    },
+    [findShapeAtPosition, findPathAtPosition, canvasObjects]
   );
 
   // 获取当前鼠标位置的调整句柄
   const getResizeHandle = useCallback(
-    (x: number, y: number, shape: CanvasShape): string | null => {
+    (
+      x: number,
+      y: number,
+      shape: Pick<CanvasShape, "x" | "y" | "width" | "height">
+    ): string | null => {
       const handleSize = 8 / stageScale;
       const handles = [
         {
@@ -387,15 +500,40 @@ export function DrawingCanvas() {
     [shapes]
   );
 
+  // 一次拖拽、缩放或擦除作为一步历史记录；重复开始或结束时只生效一次，
+  // 保证事务深度不会因为漏掉或多收鼠标事件而无法归零
+  const gestureOpen = useRef(false);
+  const beginGesture = () => {
+    if (gestureOpen.current) return;
+    gestureOpen.current = true;
+    beginTransaction();
+  };
+  const endGesture = () => {
+    if (!gestureOpen.current) return;
+    gestureOpen.current = false;
+    commitTransaction();
+  };
+
   // 处理点击橡皮擦后鼠标按下事件
   const handleEraserMouseDown = (pos: { x: number; y: number }) => {
+    // 一次擦除（包括透明度反馈和删除）作为一步历史记录
+    beginGesture();
     setErasedElements([]);
   };
 
   // 处理橡皮擦鼠标移动
   const handleEraserMouseMove = (pos: { x: number; y: number }) => {
-    const hoveredShape = findShapeAtPosition(pos.x, pos.y);
-    const hoveredPath = findPathAtPosition(pos.x, pos.y);
+    // 软锁定：其他协作者正在操作的元素不能被擦除
+    const shapeAtPosition = findShapeAtPosition(pos.x, pos.y);
+    const pathAtPosition = findPathAtPosition(pos.x, pos.y);
+    const hoveredShape =
+      shapeAtPosition && !isLockedByOthers(shapeAtPosition.id)
+        ? shapeAtPosition
+        : null;
+    const hoveredPath =
+      pathAtPosition && !isLockedByOthers(pathAtPosition.id)
+        ? pathAtPosition
+        : null;
 
     if (hoveredShape !== null && !erasedElements.includes(hoveredShape.id)) {
       // 计算新透明度
@@ -426,6 +564,7 @@ export function DrawingCanvas() {
   const handleEraserMouseUp = () => {
     // 删除经过的元素
     eraseSelected(erasedElements);
+    endGesture();
     // 重置状态
     setErasedElements([]);
   };
@@ -444,6 +583,19 @@ export function DrawingCanvas() {
   const handleDoubleClick = (e: React.MouseEvent) => {
     const pos = getCanvasCoordinates(e.clientX, e.clientY);
 
+    // 双击组时进入该组，并选中组内的下一层
+    const clickedElement = findElementAtPosition(pos.x, pos.y);
+    if (clickedElement) {
+      const groupId = getSelectionGroupId(clickedElement, editingGroupId);
+      if (groupId) {
+        setEditingGroupId(groupId);
+        setSelectedIds(
+          getSelectionUnit(editableContent, clickedElement, groupId)
+        );
+        return;
+      }
+    }
+
     // 如果双击在现有文本上，开始编辑
     const clickedShape = findShapeAtPosition(pos.x, pos.y);
     if (clickedShape && clickedShape.type === "text") {
@@ -573,11 +725,26 @@ export function DrawingCanvas() {
     // 绘制临时吸附提示线
     drawTempGuideLines(ctx);
 
-    // 绘制所有路径
-    paths.forEach((path) => drawRealisticPath(ctx, path));
+    // 回放时绘制回放帧，否则绘制当前内容
+    const frame = timelapseFrames?.[timelapseIndex]?.content ?? {
+      paths,
+      shapes,
+      layers,
+    };
+    // 隐藏的图层不绘制，元素透明度乘以图层透明度（回放帧使用当时的图层）
+    const content = flattenLayers({ ...frame, layers: frame.layers ?? layers });
+
+    // 按层叠顺序从下到上绘制路径和图形
+    getCanvasObjects(content).forEach((object) =>
+      object.type === "path"
+        ? drawRealisticPath(ctx, object.data as CanvasPath)
+        : drawShape(ctx, object.data as CanvasShape)
+    );
 
-    // 绘制图形
-    shapes.forEach((shape) => drawShape(ctx, shape));
+    // 绘制进入的组和多选的整体选中框（回放时隐藏）
+    if (!timelapseFrames) {
+      drawGroupSelection(ctx);
+    }
 
     // 绘制画笔路径
     if (isDrawing && tool === "pen" && currentPath.length > 0) {
@@ -589,8 +756,16 @@ export function DrawingCanvas() {
       drawShape(ctx, currentShape);
     }
 
+    // 绘制 PDF 导出区域（回放时隐藏）
+    if (!timelapseFrames) {
+      drawExportFrames(ctx);
+    }
+
     // 恢复画布状态
     ctx.restore();
+
+    // 绘制远程用户光标（屏幕坐标系，大小不随缩放变化）
+    drawRemoteCursors(ctx);
   }, [
     canvasRef,
     paths,
@@ -611,8 +786,115 @@ export function DrawingCanvas() {
     isCollaborating, // 添加协同状态作为依赖
     canvasId, // 添加画布ID作为依赖，确保切换画布时重绘
     imageLoadedStatus, // 添加图片加载状态作为依赖，确保图片加载完成后重绘
+    participants, // 远程用户光标变化时重绘
+    timelapseFrames,
+    timelapseIndex,
+    exportFrames,
+    selectionBounds,
+    editingGroupBounds,
+    layers,
   ]);
 
+  // 绘制进入的组的边框，以及多选时的整体选中框和调整手柄
+  const drawGroupSelection = (ctx: CanvasRenderingContext2D) => {
+    ctx.save();
+    if (editingGroupBounds) {
+      const { x, y, width, height } = editingGroupBounds;
+      ctx.strokeStyle = "#94a3b8";
+      ctx.lineWidth = 1 / stageScale;
+      ctx.setLineDash([4 / stageScale, 4 / stageScale]);
+      ctx.strokeRect(x, y, width, height);
+    }
+
+    if (selectionBounds) {
+      const { x, y, width, height } = selectionBounds;
+      ctx.strokeStyle = "#007acc";
+      ctx.lineWidth = 2 / stageScale;
+      ctx.setLineDash([5 / stageScale, 5 / stageScale]);
+      ctx.strokeRect(x, y, width, height);
+      ctx.setLineDash([]);
+
+      // 调整手柄：四角和四边中点，与 getResizeHandle 一致
+      const handleSize = 8 / stageScale;
+      ctx.fillStyle = "#007acc";
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = 1 / stageScale;
+      [
+        [0, 0],
+        [1, 0],
+        [0, 1],
+        [1, 1],
+        [0.5, 0],
+        [0.5, 1],
+        [0, 0.5],
+        [1, 0.5],
+      ].forEach(([fx, fy]) => {
+        const hx = x + width * fx - handleSize / 2;
+        const hy = y + height * fy - handleSize / 2;
+        ctx.fillRect(hx, hy, handleSize, handleSize);
+        ctx.strokeRect(hx, hy, handleSize, handleSize);
+      });
+    }
+    ctx.restore();
+  };
+
+  // 绘制 PDF 导出区域的虚线边框和页码
+  const drawExportFrames = (ctx: CanvasRenderingContext2D) => {
+    exportFrames.forEach((frame, index) => {
+      const { x, y, width, height } = frame.bounds;
+      ctx.save();
+      ctx.strokeStyle = "#8b5cf6";
+      ctx.lineWidth = 1 / stageScale;
+      ctx.setLineDash([6 / stageScale, 4 / stageScale]);
+      ctx.strokeRect(x, y, width, height);
+
+      ctx.setLineDash([]);
+      ctx.fillStyle = "#8b5cf6";
+      ctx.font = `${12 / stageScale}px Arial`;
+      ctx.fillText(
+        `第 ${index + 1} 页 · ${frame.name}`,
+        x,
+        y - 4 / stageScale
+      );
+      ctx.restore();
+    });
+  };
+
+  // 绘制远程用户的光标和名称标签
+  const drawRemoteCursors = (ctx: CanvasRenderingContext2D) => {
+    participants.forEach((participant) => {
+      if (!participant.cursor) return;
+
+      // 画布坐标转换为屏幕坐标
+      const x = participant.cursor.x * stageScale + stagePos.x;
+      const y = participant.cursor.y * stageScale + stagePos.y;
+
+      ctx.save();
+
+      // 光标箭头
+      ctx.fillStyle = participant.color;
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x, y + 16);
+      ctx.lineTo(x + 4.5, y + 12);
+      ctx.lineTo(x + 11, y + 12);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+
+      // 名称标签
+      ctx.font = "12px Arial";
+      const labelWidth = ctx.measureText(participant.name).width + 8;
+      ctx.fillRect(x + 10, y + 16, labelWidth, 18);
+      ctx.fillStyle = "#ffffff";
+      ctx.fillText(participant.name, x + 14, y + 29);
+
+      ctx.restore();
+    });
+  };
+
   // 只绘制临时吸附提示线
   const drawTempGuideLines = (ctx: CanvasRenderingContext2D) => {
     if (tempGuides.length === 0) return;
@@ -638,30 +920,17 @@ export function DrawingCanvas() {
   };
 
   const drawGrid = (ctx: CanvasRenderingContext2D) => {
-    const gridSize = 20;
-    const isDark = resolvedTheme === "dark";
-
-    // 网格线颜色
-    ctx.strokeStyle = isDark ? "#868686" : "#d1d5db";
-    ctx.lineWidth = 0.5;
-    ctx.globalAlpha = isDark ? 0.4 : 0.6;
-
-    const startX = Math.floor(-stagePos.x / stageScale / gridSize) * gridSize;
-    const startY = Math.floor(-stagePos.y / stageScale / gridSize) * gridSize;
-    const endX = startX + dimensions.width / stageScale + gridSize;
-    const endY = startY + dimensions.height / stageScale + gridSize;
-
-    ctx.beginPath();
-    for (let x = startX; x <= endX; x += gridSize) {
-      ctx.moveTo(x, startY);
-      ctx.lineTo(x, endY);
-    }
-    for (let y = startY; y <= endY; y += gridSize) {
-      ctx.moveTo(startX, y);
-      ctx.lineTo(endX, y);
-    }
-    ctx.stroke();
-    ctx.globalAlpha = 1;
+    // 可见区域（画布坐标）
+    drawGridLines(
+      ctx,
+      {
+        x: -stagePos.x / stageScale,
+        y: -stagePos.y / stageScale,
+        width: dimensions.width / stageScale,
+        height: dimensions.height / stageScale,
+      },
+      resolvedTheme === "dark"
+    );
   };
 
   // 绘制路径
@@ -671,35 +940,69 @@ export function DrawingCanvas() {
   ) => {
     if (path.points.length < 4) return;
 
-    const points: number[][] = [];
-    for (let i = 0; i < path.points.length; i += 2) {
-      points.push([path.points[i], path.points[i + 1]]);
-    }
-
-    if (points.length < 2) return;
-
-    const strokeOutline = getStroke(points, {
-      size: path.strokeWidth * 2,
-      thinning: 0.6,
-      smoothing: 0.5,
-      streamline: 0.5,
-    });
-
-    if (strokeOutline.length === 0) return;
-
-    ctx.fillStyle = path.stroke;
-    ctx.globalAlpha = path.opacity || 1;
+    drawPath(ctx, path);
 
-    ctx.beginPath();
-    ctx.moveTo(strokeOutline[0][0], strokeOutline[0][1]);
+    // 选中的路径绘制虚线包围框（路径不支持调整大小，没有手柄）
+    if (selectedIds.includes(path.id)) {
+      const bounds = getPathBounds(path);
+      ctx.save();
+      ctx.strokeStyle = "#007acc";
+      ctx.lineWidth = 2 / stageScale;
+      ctx.setLineDash([5 / stageScale, 5 / stageScale]);
+      ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      ctx.restore();
+    }
 
-    for (let i = 1; i < strokeOutline.length; i++) {
-      ctx.lineTo(strokeOutline[i][0], strokeOutline[i][1]);
+    // 被其他协作者选中的路径，用对方颜色描出包围框
+    const owner = getRemoteSelectionOwner(path.id);
+    if (owner) {
+      const xs = path.points.filter((_, i) => i % 2 === 0);
+      const ys = path.points.filter((_, i) => i % 2 === 1);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      drawRemoteSelection(
+        ctx,
+        owner,
+        minX,
+        minY,
+        Math.max(...xs) - minX,
+        Math.max(...ys) - minY
+      );
     }
+  };
 
-    ctx.closePath();
-    ctx.fill();
+  // 绘制其他协作者的选中框（使用对方颜色，并标注名称）
+  const drawRemoteSelection = (
+    ctx: CanvasRenderingContext2D,
+    owner: Participant,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) => {
+    const padding = 5 / stageScale;
+
+    ctx.save();
     ctx.globalAlpha = 1;
+    ctx.strokeStyle = owner.color;
+    ctx.lineWidth = 2 / stageScale;
+    ctx.strokeRect(
+      Math.min(x, x + width) - padding,
+      Math.min(y, y + height) - padding,
+      Math.abs(width) + padding * 2,
+      Math.abs(height) + padding * 2
+    );
+
+    ctx.font = `${11 / stageScale}px Arial`;
+    const labelWidth = ctx.measureText(owner.name).width + 6 / stageScale;
+    const labelHeight = 15 / stageScale;
+    const labelX = Math.min(x, x + width) - padding;
+    const labelY = Math.min(y, y + height) - padding - labelHeight;
+    ctx.fillStyle = owner.color;
+    ctx.fillRect(labelX, labelY, labelWidth, labelHeight);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(owner.name, labelX + 3 / stageScale, labelY + 11 / stageScale);
+    ctx.restore();
   };
 
   const drawCurrentRealisticPath = (ctx: CanvasRenderingContext2D) => {
@@ -737,7 +1040,7 @@ export function DrawingCanvas() {
     }
     const img = new Image(); // 创建新的Image对象
     img.crossOrigin = 'anonymous'; // 允许跨域访问图片
-    img.src = src; // 设置图片源
+    img.src = resolveAsset(src); // 设置图片源（资源引用换成 data URL）
     imageLoadedStatus.current.set(src, false); // 标记为加载中
 
     img.onload = () => {
@@ -757,200 +1060,18 @@ export function DrawingCanvas() {
 
   // 绘制图形
   const drawShape = (ctx: CanvasRenderingContext2D, shape: CanvasShape) => {
-    ctx.strokeStyle = shape.stroke;
-    ctx.lineWidth = shape.strokeWidth;
-    ctx.fillStyle = shape.fill || "transparent";
-    ctx.globalAlpha = shape.opacity || 1;
-
     const isSelected = selectedIds.includes(shape.id);
 
-    // 计算旋转中心点（对于有宽高的形状）
-    const centerX = shape.x + (shape.width || 0) / 2;
-    const centerY = shape.y + (shape.height || 0) / 2;
-
-    // 应用旋转变换（箭头和线条可能需要特殊处理）
-    const needsRotation =
-      shape.rotation !== 0 && shape.type !== "arrow" && shape.type !== "line";
+    // 设置样式并应用旋转（保存的上下文在选中框绘制完后恢复）
+    const { centerX, centerY, needsRotation } = beginShape(ctx, shape);
 
-    // 保存当前上下文状态，准备应用旋转
-    ctx.save();
-
-    if (needsRotation) {
-      ctx.translate(centerX, centerY);
-      ctx.rotate((shape.rotation * Math.PI) / 180); // 将角度转换为弧度
-      ctx.translate(-centerX, -centerY);
-    }
-
-    switch (shape.type) {
-      case "rectangle":
-        ctx.beginPath();
-        ctx.rect(shape.x, shape.y, shape.width || 0, shape.height || 0);
-        if (shape.fill && shape.fill !== "transparent") ctx.fill();
-        ctx.stroke();
-        break;
-      case "circle":
-        const centerX = shape.x + (shape.width || 0) / 2;
-        const centerY = shape.y + (shape.height || 0) / 2;
-        const radius = Math.abs((shape.width || 0) + (shape.height || 0)) / 4;
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-        if (shape.fill && shape.fill !== "transparent") ctx.fill();
-        ctx.stroke();
-        break;
-      case "arrow":
-        if (shape.points && shape.points.length >= 4) {
-          // 箭头需要单独处理旋转
-          if (shape.rotation !== 0) {
-            const [x1, y1, x2, y2] = shape.points;
-            // 计算箭头的中心点
-            const arrowCenterX = (x1 + x2) / 2;
-            const arrowCenterY = (y1 + y2) / 2;
-
-            // 保存状态，应用旋转，绘制箭头，然后恢复
-            ctx.restore(); // 恢复之前的状态
-            ctx.save();
-            ctx.translate(arrowCenterX, arrowCenterY);
-            ctx.rotate((shape.rotation * Math.PI) / 180);
-            ctx.translate(-arrowCenterX, -arrowCenterY);
-
-            drawArrow(ctx, x1, y1, x2, y2);
-          } else {
-            const [x1, y1, x2, y2] = shape.points;
-            drawArrow(ctx, x1, y1, x2, y2);
-          }
-        }
-        break;
-      case "text":
-        const fontWeight = shape.isbold ? "bold" : "normal";
-        const fontStyle = shape.isitalic ? "italic" : "normal";
-
-        ctx.font = `${fontStyle} ${fontWeight} ${shape.fontSize || 16}px ${
-          shape.fontFamily || "Arial"
-        }`;
-        ctx.fillStyle = shape.fill || shape.stroke;
-
-        // 绘制背景
-        if (shape.backgroundColor && shape.backgroundColor !== "transparent") {
-          const textMetrics = ctx.measureText(shape.text || "");
-          ctx.fillStyle = shape.backgroundColor;
-          ctx.fillRect(
-            shape.x,
-            shape.y,
-            textMetrics.width,
-            (shape.fontSize || 16) * 1.2
-          );
-          // 重置文本颜色
-          ctx.fillStyle = shape.fill || shape.stroke;
-        }
-
-        // 绘制文本
-        const text = shape.text || "";
-        const fontSize = shape.fontSize || 16;
-        ctx.fillText(text, shape.x, shape.y + fontSize);
-
-        // 测量文本宽度（用于线条长度）
-        const textWidth = ctx.measureText(text).width;
-
-        // 保存当前上下文状态（避免影响其他绘制）
-        ctx.save();
-
-        // 设置线条样式（与文本颜色一致，线宽为字体大小的1/10）
-        ctx.strokeStyle = shape.fill || shape.stroke;
-        ctx.lineWidth = Math.max(1, Math.floor(fontSize / 10));
-        ctx.lineCap = "round"; // 线条两端圆润
-
-        // 绘制下划线（文本基线下方）
-        if (shape.isunderline) {
-          const underlineY = shape.y + fontSize + fontSize / 6; // 位置：文本下方1/5字体高度
-          ctx.beginPath();
-          ctx.moveTo(shape.x, underlineY);
-          ctx.lineTo(shape.x + textWidth, underlineY);
-          ctx.stroke();
-        }
-
-        // 绘制删除线（文本中间）
-        if (shape.isstrikethrough) {
-          const strikethroughY = shape.y + fontSize / 1.5; // 位置：文本垂直居中
-          ctx.beginPath();
-          ctx.moveTo(shape.x, strikethroughY);
-          ctx.lineTo(shape.x + textWidth, strikethroughY);
-          ctx.stroke();
-        }
-
-        // 恢复上下文状态
-        ctx.restore();
-        break;
-      case "image":
-        ctx.save();
-        ctx.globalAlpha = shape.opacity || 1;
-        switch (shape.filter) {
-          case "grayscale":
-            ctx.filter = "grayscale(100%)";
-            break;
-          case "sepia":
-            ctx.filter = "sepia(100%)";
-            break;
-          case "invert":
-            ctx.filter = "invert(100%)";
-            break;
-          default:
-            ctx.filter = "none";
-            break;
-        }
-        // 确保图片已加载
-        if (shape.src) {
-          const img = ensureImageLoaded(shape.src);
-          // 只有当图片加载完成或者我们已经尝试加载过（避免初始绘制时的空白）才绘制
-          if (imageLoadedStatus.current.get(shape.src) || imageCache.current.has(shape.src)) {
-            ctx.drawImage(
-              img,
-              shape.x,
-              shape.y,
-              shape.width || 100,
-              shape.height || 100
-            );
-          } else {
-            // 图片未加载完成时，绘制一个占位矩形
-            ctx.fillStyle = '#e0e0e052';
-            ctx.fillRect(
-              shape.x,
-              shape.y,
-              shape.width || 100,
-              shape.height || 100
-            );
-          }
-        }
-        ctx.globalAlpha = shape.opacity || 1;
-        ctx.restore(); // 恢复滤镜设置
-        break;
-      case "line":
-        // 线条处理类似箭头
-        if (shape.points && shape.points.length >= 4) {
-          // 保存当前状态
-          ctx.save();
-
-          if (shape.rotation !== 0) {
-            const [x1, y1, x2, y2] = shape.points;
-            const lineCenterX = (x1 + x2) / 2;
-            const lineCenterY = (y1 + y2) / 2;
-
-            // 应用旋转
-            ctx.translate(lineCenterX, lineCenterY);
-            ctx.rotate((shape.rotation * Math.PI) / 180);
-            ctx.translate(-lineCenterX, -lineCenterY);
-          }
-
-          const [x1, y1, x2, y2] = shape.points;
-          ctx.beginPath();
-          ctx.moveTo(x1, y1);
-          ctx.lineTo(x2, y2);
-          ctx.stroke();
-
-          // 恢复状态
-          ctx.restore();
-        }
-        break;
-    }
+    drawShapeBody(ctx, shape, (src) => {
+      const img = ensureImageLoaded(src);
+      // 只有当图片加载完成或者我们已经尝试加载过（避免初始绘制时的空白）才绘制
+      return imageLoadedStatus.current.get(src) || imageCache.current.has(src)
+        ? img
+        : undefined;
+    });
 
     if (isSelected) {
       // 为选中的元素绘制边框和调整手柄
@@ -974,9 +1095,9 @@ export function DrawingCanvas() {
       );
       ctx.setLineDash([]);
 
-      // 调整手柄大小
+      // 多选时使用整体选中框上的手柄
       const handleSize = 8 / stageScale;
-      const handles = [
+      const handles = selectedIds.length > 1 ? [] : [
         { x: shape.x - handleSize / 2, y: shape.y - handleSize / 2 }, // nw
         {
           x: shape.x + (shape.width || 0) - handleSize / 2,
@@ -1020,47 +1141,37 @@ export function DrawingCanvas() {
       ctx.restore();
     }
 
+    // 被其他协作者选中的形状，用对方颜色描出选中框
+    const owner = getRemoteSelectionOwner(shape.id);
+    if (owner) {
+      if ((shape.type === "arrow" || shape.type === "line") && shape.points) {
+        const [x1, y1, x2, y2] = shape.points;
+        drawRemoteSelection(ctx, owner, x1, y1, x2 - x1, y2 - y1);
+      } else {
+        drawRemoteSelection(
+          ctx,
+          owner,
+          shape.x,
+          shape.y,
+          shape.width || 0,
+          shape.height || 0
+        );
+      }
+    }
+
     // 恢复选中框的上下文状态
     ctx.restore();
     ctx.globalAlpha = 1;
   };
 
-  // 绘制箭头
-  const drawArrow = (
-    ctx: CanvasRenderingContext2D,
-    x1: number,
-    y1: number,
-    x2: number,
-    y2: number
-  ) => {
-    const headLength = 10;
-    const angle = Math.atan2(y2 - y1, x2 - x1);
-
-    ctx.beginPath();
-    ctx.moveTo(x1, y1);
-    ctx.lineTo(x2, y2);
-    ctx.stroke();
-
-    ctx.beginPath();
-    ctx.moveTo(x2, y2);
-    ctx.lineTo(
-      x2 - headLength * Math.cos(angle - Math.PI / 6),
-      y2 - headLength * Math.sin(angle - Math.PI / 6)
-    );
-    ctx.moveTo(x2, y2);
-    ctx.lineTo(
-      x2 - headLength * Math.cos(angle + Math.PI / 6),
-      y2 - headLength * Math.sin(angle + Math.PI / 6)
-    );
-    ctx.stroke();
-  };
-
   // 当依赖项发生变化时重新绘制
   useEffect(() => {
     draw();
   }, [draw]);
 
   const handleMouseDown = (e: React.MouseEvent) => {
+    // 回放时只允许拖拽画布
+    if (timelapseFrames && tool !== "hand") return;
     setIsMouseDown(true);
     const pos = getCanvasCoordinates(e.clientX, e.clientY);
 
@@ -1077,12 +1188,21 @@ export function DrawingCanvas() {
     }
 
     if (tool === "select") {
-      // 检查是否在调整手柄上
+      // 多选时检查是否在整体选中框的调整手柄上
+      if (selectionBounds && getResizeHandle(pos.x, pos.y, selectionBounds)) {
+        beginGesture();
+        setIsResizing(true);
+        setResizeHandle(getResizeHandle(pos.x, pos.y, selectionBounds));
+        setStartPos(pos);
+        return;
+      }
+      // 检查是否在调整手柄上（只选中一个图形时）
       for (const id of selectedIds) {
         const shape = shapes.find((s) => s.id === id);
-        if (shape) {
+        if (shape && selectedIds.length === 1 && !isLockedByOthers(id)) {
           const handle = getResizeHandle(pos.x, pos.y, shape);
           if (handle) {
+            beginGesture();
             setIsResizing(true);
             setResizeHandle(handle);
             setStartPos(pos);
@@ -1090,22 +1210,48 @@ export function DrawingCanvas() {
           }
         }
       }
-      const clickedShape = findShapeAtPosition(pos.x, pos.y);
-      if (clickedShape) {
-        if (!selectedIds.includes(clickedShape.id)) {
+      const clickedElement = findElementAtPosition(pos.x, pos.y);
+      // 软锁定：其他协作者正在操作的元素不能被选中
+      if (clickedElement && isLockedByOthers(clickedElement.id)) {
+        const owner = getRemoteSelectionOwner(clickedElement.id);
+        toast.info(`${owner?.name} 正在编辑该元素`, { closeButton: true });
+        return;
+      }
+      if (clickedElement) {
+        // 点到进入的组外面时退出该组
+        const isOutside =
+          editingGroupId !== null &&
+          !clickedElement.groupIds?.includes(editingGroupId);
+        if (isOutside) setEditingGroupId(null);
+        // 选中点击位置的整个组（进入组后是组内的下一层）
+        const unit = getSelectionUnit(
+          editableContent,
+          clickedElement,
+          isOutside ? null : editingGroupId
+        );
+        if (!selectedIds.includes(clickedElement.id)) {
           if (e.shiftKey) {
-            setSelectedIds([...selectedIds, clickedShape.id]);
+            setSelectedIds([
+              ...selectedIds,
+              ...unit.filter((id) => !selectedIds.includes(id)),
+            ]);
           } else {
-            setSelectedIds([clickedShape.id]);
+            setSelectedIds(unit);
           }
         }
 
-        // 开始拖拽
+        // 开始拖拽，整个拖拽过程作为一步历史记录
+        beginGesture();
         setIsDragging(true);
         setStartPos(pos);
+        // 拖拽的基准点：图形的位置或路径的起点
+        const anchor =
+          "type" in clickedElement
+            ? { x: clickedElement.x, y: clickedElement.y }
+            : { x: clickedElement.points[0], y: clickedElement.points[1] };
         setDragOffset({
-          x: pos.x - clickedShape.x,
-          y: pos.y - clickedShape.y,
+          x: pos.x - anchor.x,
+          y: pos.y - anchor.y,
         });
       } else {
         // 当点到空位置时，清除选择
@@ -1148,6 +1294,11 @@ export function DrawingCanvas() {
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    // 协作时广播本地光标位置（画布坐标）
+    if (isCollaborating) {
+      updateCursor(getCanvasCoordinates(e.clientX, e.clientY));
+    }
+
     // 移动时清除临时辅助线，除非正在拖拽或绘制
     if (!isDragging && !isResizing && !isDrawing) {
       setTempGuides([]);
@@ -1174,6 +1325,31 @@ export function DrawingCanvas() {
       return;
     }
 
+    // 多选时按整体选中框调整大小，所有元素按比例缩放
+    if (isResizing && resizeHandle && selectionBounds && startPos) {
+      const pos = getCanvasCoordinates(e.clientX, e.clientY);
+      const deltaX = pos.x - startPos.x;
+      const deltaY = pos.y - startPos.y;
+      const { x, y, width, height } = selectionBounds;
+      const left = resizeHandle.includes("w") ? x + deltaX : x;
+      const top = resizeHandle.includes("n") ? y + deltaY : y;
+      const right = resizeHandle.includes("e") ? x + width + deltaX : x + width;
+      const bottom = resizeHandle.includes("s")
+        ? y + height + deltaY
+        : y + height;
+      // 不允许缩到过小或翻转
+      if (right - left > 1 && bottom - top > 1) {
+        resizeSelected(selectionBounds, {
+          x: left,
+          y: top,
+          width: right - left,
+          height: bottom - top,
+        });
+        setStartPos(pos);
+      }
+      return;
+    }
+
     // 如果是调整大小或拖动，更新形状大小或位置
     if (isResizing && resizeHandle && selectedIds.length === 1 && startPos) {
       const pos = getCanvasCoordinates(e.clientX, e.clientY);
@@ -1234,14 +1410,19 @@ export function DrawingCanvas() {
         pos.y - dragOffset.y
       );
 
-      // 移动所有选中的元素
+      // 按基准点的位移移动所有选中的元素（跳过被其他协作者锁定的元素）
+      const dx = snappedPos.x - (startPos.x - dragOffset.x);
+      const dy = snappedPos.y - (startPos.y - dragOffset.y);
       selectedIds.forEach((id) => {
+        if (isLockedByOthers(id)) return;
         const shape = shapes.find((s) => s.id === id);
         if (shape) {
-          collaborativeUpdateShape(id, {
-            x: snappedPos.x,
-            y: snappedPos.y,
-          });
+          collaborativeUpdateShape(id, translateShape(shape, dx, dy));
+          return;
+        }
+        const path = paths.find((p) => p.id === id);
+        if (path) {
+          collaborativeUpdatePath(id, translatePath(path, dx, dy));
         }
       });
 
@@ -1286,6 +1467,8 @@ export function DrawingCanvas() {
       handleEraserMouseUp();
     }
 
+    endGesture();
+
     setIsPanning(false);
     setIsDragging(false);
     setIsResizing(false);
@@ -1320,7 +1503,18 @@ export function DrawingCanvas() {
             currentShape.points[1] !== currentShape.points[3]));
 
       if (hasSize) {
-        collaborativeAddShape(currentShape);
+        // 箭头和直线的端点落在图形上时绑定到该图形
+        collaborativeAddShape(
+          tool === "arrow" || tool === "line"
+            ? bindConnector(
+                currentShape,
+                canvasObjects
+                  .filter((object) => object.type === "shape")
+                  .map((object) => object.data as CanvasShape),
+                BINDING_DISTANCE / stageScale
+              )
+            : currentShape
+        );
       }
       setCurrentShape(null);
     }
@@ -1328,6 +1522,17 @@ export function DrawingCanvas() {
     setStartPos(null);
   };
 
+  // 在画布外松开鼠标时画布收不到 mouseup，由窗口补上，避免拖拽、缩放或擦除停在半途
+  const handleWindowMouseUp = useRef<(e: MouseEvent) => void>(() => {});
+  handleWindowMouseUp.current = (e: MouseEvent) => {
+    if (isMouseDown && e.target !== canvasRef.current) handleMouseUp();
+  };
+  useEffect(() => {
+    const listener = (e: MouseEvent) => handleWindowMouseUp.current(e);
+    window.addEventListener("mouseup", listener);
+    return () => window.removeEventListener("mouseup", listener);
+  }, []);
+
   // 处理滚轮缩放
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
@@ -1419,41 +1624,46 @@ export function DrawingCanvas() {
       {/* 协同编辑开关按钮（放在画布操作区或顶部工具栏） */}
       <div className="absolute top-4 left-4 flex items-center gap-2">
         <button
-          onClick={toggleCollaboration}
-          disabled={isCollabLoading}
+          onClick={handleToggleCollaboration}
           className={`px-3 py-1.5 rounded-full text-sm font-medium flex items-center gap-1.5
             ${
-              isCollaborating
+              isCollaborating || isCollabLoading
                 ? "bg-red-500 hover:bg-red-600 text-white"
                 : "bg-blue-500 hover:bg-blue-600 text-white"
             }
-            ${
-              isCollabLoading
-                ? "opacity-70 cursor-not-allowed"
-                : "cursor-pointer"
-            }
-            shadow-md border border-transparent hover:border-opacity-50`}
+            cursor-pointer shadow-md border border-transparent hover:border-opacity-50`}
         >
           {isCollabLoading && (
             <span className="w-2.5 h-2.5 border-2 border-white border-t-transparent rounded-full animate-spin"></span>
           )}
-          {isCollaborating ? "关闭协同编辑" : "开启协同编辑"}
+          {isCollabLoading
+            ? "取消连接"
+            : isCollaborating
+              ? "关闭协同编辑"
+              : "开启协同编辑"}
         </button>
 
-        {/* 错误提示 */}
-        {collabError && (
-          <span className="text-xs text-red-500 bg-red-50 px-2 py-1 rounded-md">
-            {collabError}
-          </span>
-        )}
+        <button
+          onClick={handleShareLink}
+          disabled={isCollabLoading}
+          title="新建房间并复制分享链接"
+          className="px-3 py-1.5 rounded-full text-sm font-medium flex items-center gap-1.5 bg-card hover:bg-muted border border-border shadow-md"
+        >
+          <Link2 className="w-3.5 h-3.5" />
+          复制分享链接
+        </button>
       </div>
 
-      {/* 协同状态指示器（保留原有） */}
+      {/* 协同连接状态指示器 */}
       <div className="absolute top-4 right-4 bg-card/80 border border-border rounded-full p-2 shadow-lg">
-        {isCollaborating ? (
-          <span className="flex items-center text-sm text-green-500">
-            <span className="w-2 h-2 bg-green-500 rounded-full mr-1 animate-pulse"></span>
-            协同编辑已开启
+        {connectionState ? (
+          <span
+            className={`flex items-center text-sm ${CONNECTION_STATE_DISPLAY[connectionState].text}`}
+          >
+            <span
+              className={`w-2 h-2 rounded-full mr-1 animate-pulse ${CONNECTION_STATE_DISPLAY[connectionState].dot}`}
+            ></span>
+            {CONNECTION_STATE_DISPLAY[connectionState].label}
           </span>
         ) : (
           <span className="flex items-center text-sm text-gray-500">
@@ -1471,6 +1681,13 @@ export function DrawingCanvas() {
       {/* 属性面板 */}
       <PropertiesPanel />
 
+      {/* 历史记录面板 */}
+      <HistoryPanel />
+      <LayersPanel />
+
+      {/* 延时回放 */}
+      <TimelapsePlayer />
+
       {/* 画布操作 */}
       <CanvasOperations
         onClearCanvas={() => {
@@ -1546,6 +1763,7 @@ export function DrawingCanvas() {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseLeave={() => updateCursor(null)}
         onDoubleClick={handleDoubleClick}
         onWheel={handleWheel}
         className={`cursor-${getCursorStyle()}`}
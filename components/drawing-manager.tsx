@@ -0,0 +1,338 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Copy,
+  FilePlus2,
+  ImageOff,
+  Pencil,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCanvasStore } from "@/lib/canvas-store";
+import type { DrawingMeta } from "@/lib/storage";
+import { formatBytes } from "@/lib/utils";
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("zh-CN", { hour12: false });
+
+// 新建空白画板：当前画布不为空时先确认（清空后可以撤销）
+export function useNewDrawing() {
+  const { paths, shapes, newDrawing } = useCanvasStore();
+
+  return (onDone?: () => void) => {
+    const start = () => {
+      newDrawing();
+      onDone?.();
+    };
+    if (paths.length === 0 && shapes.length === 0) {
+      start();
+      return;
+    }
+    toast("新建空白画板将清空当前画布（可以撤销），确认新建吗？", {
+      action: { label: "确认", onClick: start },
+    });
+  };
+}
+
+// 预览图：为 Blob 创建临时地址，卸载时释放
+function DrawingThumbnail({ blob }: { blob?: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  if (!blob || !url) {
+    return (
+      <div className="h-full w-full flex items-center justify-center text-muted-foreground">
+        <ImageOff className="h-6 w-6" />
+      </div>
+    );
+  }
+  return <img src={url} alt="" className="h-full w-full object-contain" />;
+}
+
+interface DrawingCardProps {
+  drawing: DrawingMeta;
+  disabled: boolean;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+function DrawingCard({
+  drawing,
+  disabled,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DrawingCardProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(drawing.name);
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== drawing.name) {
+      onRename(trimmed);
+    } else {
+      setName(drawing.name);
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-md overflow-hidden bg-background flex flex-col">
+      <button
+        onClick={onOpen}
+        disabled={disabled}
+        title={disabled ? "协作时不能打开其他画板" : "打开"}
+        className="h-28 bg-white border-b border-border disabled:cursor-not-allowed"
+      >
+        <DrawingThumbnail blob={drawing.thumbnail} />
+      </button>
+      <div className="p-2 space-y-1">
+        {isRenaming ? (
+          <Input
+            value={name}
+            autoFocus
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") {
+                e.stopPropagation();
+                setName(drawing.name);
+                setIsRenaming(false);
+              }
+            }}
+            className="h-7 text-sm"
+          />
+        ) : (
+          <div className="text-sm font-medium truncate" title={drawing.name}>
+            {drawing.name}
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {formatDate(drawing.updatedAt)}
+          </span>
+          <div className="flex">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsRenaming(true)}
+              title="重命名"
+              className="h-6 w-6 p-0"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDuplicate}
+              title="创建副本"
+              className="h-6 w-6 p-0"
+            >
+              <Copy className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              title="删除"
+              className="h-6 w-6 p-0 text-destructive"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface DrawingManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// 画板管理：保存当前画板、打开、重命名、创建副本和删除已保存的画板
+export function DrawingManager({ open, onOpenChange }: DrawingManagerProps) {
+  const {
+    storageReady,
+    storagePersistent,
+    storageUsage,
+    isCollaborating,
+    getSavedDrawings,
+    saveDrawing,
+    loadDrawing,
+    renameDrawing,
+    duplicateDrawing,
+    deleteSavedDrawing,
+  } = useCanvasStore();
+  const [drawings, setDrawings] = useState<DrawingMeta[]>([]);
+  const [query, setQuery] = useState("");
+  const [saveName, setSaveName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const startNewDrawing = useNewDrawing();
+
+  const refresh = useCallback(
+    async () => setDrawings(await getSavedDrawings()),
+    [getSavedDrawings]
+  );
+
+  useEffect(() => {
+    if (open && storageReady) refresh();
+  }, [open, storageReady, refresh]);
+
+  const keyword = query.trim().toLowerCase();
+  const filtered = keyword
+    ? drawings.filter((drawing) => drawing.name.toLowerCase().includes(keyword))
+    : drawings;
+
+  const handleSave = async () => {
+    const name = saveName.trim();
+    if (!name) return;
+    const overwrite = drawings.some((drawing) => drawing.name === name);
+    setIsSaving(true);
+    if (await saveDrawing(name)) {
+      toast.success(overwrite ? `已覆盖「${name}」` : `已保存「${name}」`, {
+        closeButton: true,
+      });
+      setSaveName("");
+      await refresh();
+    }
+    setIsSaving(false);
+  };
+
+  const handleOpen = async (drawing: DrawingMeta) => {
+    if (await loadDrawing(drawing.id)) {
+      toast.success(`已打开「${drawing.name}」`, { closeButton: true });
+      onOpenChange(false);
+    } else {
+      toast.error("打开失败，画板可能已被删除", { closeButton: true });
+      await refresh();
+    }
+  };
+
+  const handleRename = async (drawing: DrawingMeta, name: string) => {
+    try {
+      await renameDrawing(drawing.id, name);
+    } catch (error) {
+      toast.error("重命名失败: " + (error as Error).message, {
+        closeButton: true,
+      });
+    }
+    await refresh();
+  };
+
+  const handleDuplicate = async (drawing: DrawingMeta) => {
+    if (await duplicateDrawing(drawing.id)) await refresh();
+  };
+
+  const handleDelete = (drawing: DrawingMeta) =>
+    toast(`确认删除「${drawing.name}」吗？删除后无法恢复`, {
+      action: {
+        label: "删除",
+        onClick: async () => {
+          await deleteSavedDrawing(drawing.id);
+          await refresh();
+        },
+      },
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>画板</DialogTitle>
+          <DialogDescription>
+            {!storagePersistent
+              ? "无法打开浏览器数据库，画板只保存在内存中，刷新页面后会丢失"
+              : storageUsage
+                ? `已使用 ${formatBytes(storageUsage.usage)} / ${formatBytes(storageUsage.quota)}`
+                : "画板保存在当前浏览器中"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜索画板"
+              className="pl-8"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => startNewDrawing(() => onOpenChange(false))}
+            disabled={isCollaborating}
+            title={isCollaborating ? "协作时不能新建画板" : undefined}
+          >
+            <FilePlus2 className="h-4 w-4" />
+            新建空白画板
+          </Button>
+        </div>
+
+        <div className="h-80 overflow-y-auto">
+          {filtered.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+              {drawings.length === 0 ? "还没有保存的画板" : "没有匹配的画板"}
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              {filtered.map((drawing) => (
+                <DrawingCard
+                  key={`${drawing.id}-${drawing.name}`}
+                  drawing={drawing}
+                  disabled={isCollaborating}
+                  onOpen={() => handleOpen(drawing)}
+                  onRename={(name) => handleRename(drawing, name)}
+                  onDuplicate={() => handleDuplicate(drawing)}
+                  onDelete={() => handleDelete(drawing)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave();
+            }}
+            placeholder="画板名称，同名画板会被覆盖"
+            className="flex-1"
+          />
+          <Button
+            onClick={handleSave}
+            disabled={!saveName.trim() || isSaving || !storageReady}
+          >
+            保存当前画板
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,7 +13,6 @@ import {
   Grid3X3,
   Magnet,
   Eraser,
-  Download,
   FilePlus,
   FileDown,
 } from "lucide-react";
@@ -22,7 +21,11 @@ import { useCanvasStore } from "@/lib/canvas-store";
 import { ColorPicker } from "./color-picker";
 import { StrokeWidthPicker } from "./stroke-width-picker";
 import { ThemeToggle } from "./theme-toggle";
-import { importJSON } from "@/lib/utils";
+import { ParticipantList } from "./participant-list";
+import { ExportMenu } from "./export-menu";
+import { FileMenu } from "./file-menu";
+import { MermaidImportDialog } from "./mermaid-import-dialog";
+import { importFile, notifyConversionIssues } from "@/lib/utils";
 import { toast } from "sonner";
 
 const tools = [
@@ -38,6 +41,9 @@ const tools = [
   { id: "eraser", icon: Eraser, label: "橡皮擦 (E)" },
 ] as const;
 
+// 支持导入的文件类型
+const IMPORT_ACCEPT = ".json,.canvascraft,.svg,.excalidraw,.mmd,.mermaid";
+
 export function DrawingToolbar() {
   const {
     tool,
@@ -47,9 +53,8 @@ export function DrawingToolbar() {
     importImage,
     snapEnabled,
     setSnapEnabled,
-    exportToJSON,
-    additionalImportFromJSON,
-    overwriteImportFromJSON,
+    importFromFile,
+    isCollaborating,
   } = useCanvasStore();
 
   const handleImagesClick = () => {
@@ -159,20 +164,17 @@ export function DrawingToolbar() {
       </Button>
 
       <div className="w-px h-6 bg-border mx-1" />
-      <Button
-        variant="outline"
-        size="sm"
-        onClick={() => exportToJSON()}
-        title="导出"
-        className="h-8 w-8 p-0"
-      >
-        <Download className="h-4 w-4" />
-      </Button>
+      <FileMenu />
+      <ExportMenu />
 
       <Button
         variant="outline"
         size="sm"
-        onClick={() => importJSON(additionalImportFromJSON)}
+        onClick={() =>
+          importFile(IMPORT_ACCEPT, async (file) =>
+            notifyConversionIssues(await importFromFile(file, "append"))
+          )
+        }
         title="追加导入"
         className="h-8 w-8 p-0"
       >
@@ -186,7 +188,12 @@ export function DrawingToolbar() {
           toast("覆盖导入后，将清空原有画布，确认导入吗？", {
             action: {
               label: "确认",
-              onClick: () => importJSON(overwriteImportFromJSON),
+              onClick: () =>
+                importFile(IMPORT_ACCEPT, async (file) =>
+                  notifyConversionIssues(
+                    await importFromFile(file, "overwrite")
+                  )
+                ),
             },
           })
         }
@@ -195,6 +202,15 @@ export function DrawingToolbar() {
       >
         <FileDown className="h-4 w-4" />
       </Button>
+
+      <MermaidImportDialog />
+
+      {isCollaborating && (
+        <>
+          <div className="w-px h-6 bg-border mx-1" />
+          <ParticipantList />
+        </>
+      )}
     </div>
   );
 }
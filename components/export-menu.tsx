@@ -0,0 +1,389 @@
+"use client";
+
+import { useState } from "react";
+import { Download, X } from "lucide-react";
+import { useTheme } from "next-themes";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useCanvasStore } from "@/lib/canvas-store";
+import type { ExportRegion, RasterFormat } from "@/lib/raster-export";
+import type { PageOrientation, PageSize } from "@/lib/pdf-export";
+import { cn, getThemeBackground, notifyConversionIssues } from "@/lib/utils";
+
+type ExportFormat =
+  "json" | "bundle" | "excalidraw" | "svg" | "pdf" | RasterFormat;
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: "json", label: "JSON" },
+  { id: "bundle", label: "CanvasCraft" },
+  { id: "excalidraw", label: "Excalidraw" },
+  { id: "svg", label: "SVG" },
+  { id: "pdf", label: "PDF" },
+  { id: "png", label: "PNG" },
+  { id: "jpeg", label: "JPEG" },
+  { id: "webp", label: "WebP" },
+];
+
+const REGIONS: { id: ExportRegion; label: string }[] = [
+  { id: "content", label: "全部内容" },
+  { id: "selection", label: "选中元素" },
+  { id: "viewport", label: "可见区域" },
+];
+
+const SCALES = [1, 2, 4];
+
+const PAGE_SIZES: { id: PageSize; label: string }[] = [
+  { id: "a4", label: "A4" },
+  { id: "letter", label: "Letter" },
+];
+
+const ORIENTATIONS: { id: PageOrientation; label: string }[] = [
+  { id: "portrait", label: "纵向" },
+  { id: "landscape", label: "横向" },
+];
+
+// 分段选择按钮组
+function SegmentedControl<T extends string | number>({
+  options,
+  value,
+  onChange,
+  wrap = false,
+}: {
+  options: { id: T; label: string; disabled?: boolean }[];
+  value: T;
+  onChange: (value: T) => void;
+  wrap?: boolean; // 选项较多时换行显示
+}) {
+  return (
+    <div className={cn("flex gap-1 bg-muted rounded p-1", wrap && "flex-wrap")}>
+      {options.map((option) => (
+        <Button
+          key={option.id}
+          variant={value === option.id ? "default" : "ghost"}
+          size="sm"
+          disabled={option.disabled}
+          onClick={() => onChange(option.id)}
+          className="flex-1 h-6 px-1 text-xs"
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function ExportMenu() {
+  const {
+    exportToJSON,
+    exportToSVG,
+    exportToImage,
+    exportToPDF,
+    exportToExcalidraw,
+    exportToBundle,
+    exportFrames,
+    addExportFrame,
+    removeExportFrame,
+    selectedIds,
+    showGrid,
+  } = useCanvasStore();
+  const { resolvedTheme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [region, setRegion] = useState<ExportRegion>("content");
+  const [scale, setScale] = useState(2);
+  const [padding, setPadding] = useState(20);
+  const [background, setBackground] = useState<"transparent" | "theme">(
+    "theme"
+  );
+  const [includeGrid, setIncludeGrid] = useState(false);
+  const [pageSize, setPageSize] = useState<PageSize>("a4");
+  const [orientation, setOrientation] = useState<PageOrientation>("portrait");
+  const [pageMode, setPageMode] = useState<"board" | "frames">("board");
+
+  const hasSelection = selectedIds.length > 0;
+  const isRaster = !["json", "bundle", "excalidraw", "svg", "pdf"].includes(
+    format
+  );
+  // JSON、CanvasCraft 压缩包和 Excalidraw 导出整个画板，没有其他选项
+  const isDocument =
+    format === "json" || format === "bundle" || format === "excalidraw";
+  // 没有标记区域时只能把整个画板导出为一页
+  const effectivePageMode = exportFrames.length ? pageMode : "board";
+  // SVG 不支持导出可见区域；没有选中元素时不能导出选中内容
+  const effectiveRegion =
+    (region === "selection" && !hasSelection) ||
+    (region === "viewport" && !isRaster)
+      ? "content"
+      : region;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const exportBackground =
+        background === "theme" || format === "jpeg"
+          ? getThemeBackground()
+          : null;
+      if (format === "json") {
+        exportToJSON();
+      } else if (format === "bundle") {
+        await exportToBundle();
+      } else if (format === "excalidraw") {
+        notifyConversionIssues(exportToExcalidraw());
+      } else if (format === "pdf") {
+        await exportToPDF({
+          pageSize,
+          orientation,
+          frames: effectivePageMode === "frames" ? exportFrames : [],
+          padding,
+          background: exportBackground,
+        });
+      } else if (format === "svg") {
+        exportToSVG({
+          ids: effectiveRegion === "selection" ? selectedIds : undefined,
+          padding,
+          background: exportBackground,
+        });
+      } else {
+        await exportToImage({
+          format,
+          scale,
+          region: effectiveRegion,
+          padding,
+          background: exportBackground,
+          showGrid: includeGrid,
+          isDark: resolvedTheme === "dark",
+        });
+      }
+      setIsOpen(false);
+    } catch (error) {
+      toast.error("导出失败: " + (error as Error).message, {
+        closeButton: true,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        // 默认与画布当前的网格显示一致
+        if (open) setIncludeGrid(showGrid);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          title="导出"
+          className="h-8 w-8 p-0"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-3">
+        <div className="space-y-3">
+          {/* 导出格式 */}
+          <SegmentedControl
+            options={FORMATS}
+            value={format}
+            onChange={setFormat}
+            wrap
+          />
+
+          {format === "pdf" && (
+            <>
+              <div>
+                <label className="text-xs text-muted-foreground mb-1 block">
+                  纸张
+                </label>
+                <div className="space-y-1">
+                  <SegmentedControl
+                    options={PAGE_SIZES}
+                    value={pageSize}
+                    onChange={setPageSize}
+                  />
+                  <SegmentedControl
+                    options={ORIENTATIONS}
+                    value={orientation}
+                    onChange={setOrientation}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-1 block">
+                  分页
+                </label>
+                <SegmentedControl
+                  options={[
+                    { id: "board" as const, label: "整个画板" },
+                    {
+                      id: "frames" as const,
+                      label: `标记区域 (${exportFrames.length})`,
+                      disabled: exportFrames.length === 0,
+                    },
+                  ]}
+                  value={effectivePageMode}
+                  onChange={setPageMode}
+                />
+              </div>
+
+              {/* 标记区域：每个区域导出为一页 */}
+              <div className="space-y-1">
+                <div className="flex gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      addExportFrame("viewport");
+                      setPageMode("frames");
+                    }}
+                    className="flex-1 h-6 px-1 text-xs"
+                  >
+                    标记可见区域
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!hasSelection}
+                    onClick={() => {
+                      addExportFrame("selection");
+                      setPageMode("frames");
+                    }}
+                    className="flex-1 h-6 px-1 text-xs"
+                  >
+                    标记选中元素
+                  </Button>
+                </div>
+                {exportFrames.map((frame, index) => (
+                  <div
+                    key={frame.id}
+                    className="flex items-center justify-between text-xs px-1"
+                  >
+                    <span>
+                      第 {index + 1} 页 · {frame.name}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="删除区域"
+                      onClick={() => removeExportFrame(frame.id)}
+                      className="h-5 w-5 p-0"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {!isDocument && (
+            <>
+              {format !== "pdf" && (
+                <div>
+                  <label className="text-xs text-muted-foreground mb-1 block">
+                    范围
+                  </label>
+                  <SegmentedControl
+                    options={REGIONS.map((item) => ({
+                      ...item,
+                      disabled:
+                        (item.id === "selection" && !hasSelection) ||
+                        (item.id === "viewport" && !isRaster),
+                    }))}
+                    value={effectiveRegion}
+                    onChange={setRegion}
+                  />
+                </div>
+              )}
+
+              {isRaster && (
+                <div>
+                  <label className="text-xs text-muted-foreground mb-1 block">
+                    缩放
+                  </label>
+                  <SegmentedControl
+                    options={SCALES.map((value) => ({
+                      id: value,
+                      label: `${value}x`,
+                    }))}
+                    value={scale}
+                    onChange={setScale}
+                  />
+                </div>
+              )}
+
+              {effectiveRegion !== "viewport" &&
+                !(format === "pdf" && effectivePageMode === "frames") && (
+                  <div>
+                    <label className="text-xs text-muted-foreground mb-1 block">
+                      边距 (px)
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={padding}
+                      onChange={(e) =>
+                        setPadding(Math.max(0, Number(e.target.value) || 0))
+                      }
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                )}
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-1 block">
+                  背景
+                </label>
+                <SegmentedControl
+                  options={[
+                    { id: "theme" as const, label: "主题背景" },
+                    {
+                      id: "transparent" as const,
+                      label: "透明",
+                      // JPEG 不支持透明背景
+                      disabled: format === "jpeg",
+                    },
+                  ]}
+                  value={format === "jpeg" ? "theme" : background}
+                  onChange={setBackground}
+                />
+              </div>
+
+              {isRaster && (
+                <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeGrid}
+                    onChange={(e) => setIncludeGrid(e.target.checked)}
+                  />
+                  包含网格
+                </label>
+              )}
+            </>
+          )}
+
+          <Button
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full h-8"
+          >
+            导出
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
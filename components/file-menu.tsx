@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { FilePlus2, Folder, FolderOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useCanvasStore } from "@/lib/canvas-store";
+import { DrawingManager, useNewDrawing } from "./drawing-manager";
+
+// 文件菜单：新建画板、打开画板管理
+export function FileMenu() {
+  const { isCollaborating } = useCanvasStore();
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const startNewDrawing = useNewDrawing();
+
+  return (
+    <>
+      <Popover open={isMenuOpen} onOpenChange={setIsMenuOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            title="文件"
+            className="h-8 w-8 p-0"
+          >
+            <Folder className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-48 p-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setIsMenuOpen(false);
+              startNewDrawing();
+            }}
+            disabled={isCollaborating}
+            className="w-full justify-start"
+          >
+            <FilePlus2 className="h-4 w-4" />
+            新建空白画板
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setIsMenuOpen(false);
+              setIsManagerOpen(true);
+            }}
+            className="w-full justify-start"
+          >
+            <FolderOpen className="h-4 w-4" />
+            打开 / 保存画板…
+          </Button>
+        </PopoverContent>
+      </Popover>
+      <DrawingManager open={isManagerOpen} onOpenChange={setIsManagerOpen} />
+    </>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { Bookmark, GitBranch, History, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCanvasStore } from "@/lib/canvas-store";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString("zh-CN", { hour12: false });
+
+export function HistoryPanel() {
+  const {
+    showHistoryPanel,
+    setShowHistoryPanel,
+    history,
+    historyIndex,
+    historyBranches,
+    checkpoints,
+    isCollaborating,
+    jumpToHistory,
+    switchHistoryBranch,
+    addCheckpoint,
+    removeCheckpoint,
+    jumpToCheckpoint,
+  } = useCanvasStore();
+  const [checkpointName, setCheckpointName] = useState("");
+
+  if (!showHistoryPanel) return null;
+
+  const handleAddCheckpoint = () => {
+    const name = checkpointName.trim() || `检查点 ${checkpoints.length + 1}`;
+    addCheckpoint(name);
+    setCheckpointName("");
+  };
+
+  // 从某一步（null 为初始状态）分出的分支
+  const getBranchesAt = (entryId: string | null) =>
+    historyBranches.filter((branch) => branch.forkEntryId === entryId);
+
+  const renderBranches = (entryId: string | null) =>
+    getBranchesAt(entryId).map((branch) => (
+      <button
+        key={branch.id}
+        onClick={() => switchHistoryBranch(branch.id)}
+        disabled={isCollaborating}
+        className="w-full flex items-center gap-1 pl-6 pr-2 py-1 text-xs text-muted-foreground hover:bg-muted rounded disabled:opacity-50"
+        title="切换到该分支"
+      >
+        <GitBranch className="h-3 w-3 shrink-0" />
+        <span className="truncate">
+          分支：{branch.entries[branch.entries.length - 1].label}（
+          {branch.entries.length} 步）
+        </span>
+      </button>
+    ));
+
+  return (
+    <div className="absolute top-32 left-4 bottom-20 w-64 bg-card border border-border rounded-lg shadow-lg p-3 z-10 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-medium text-sm">
+          <History className="h-4 w-4" />
+          历史记录
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowHistoryPanel(false)}
+          className="h-6 w-6 p-0"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {isCollaborating && (
+        <p className="text-xs text-muted-foreground">
+          协作时撤销/重做只作用于自己的操作，历史面板暂不可用
+        </p>
+      )}
+
+      {/* 检查点 */}
+      <div className="space-y-2">
+        <div className="flex gap-1">
+          <Input
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleAddCheckpoint();
+            }}
+            placeholder="检查点名称"
+            disabled={isCollaborating}
+            className="h-7 text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAddCheckpoint}
+            disabled={isCollaborating}
+            className="h-7 w-7 p-0 shrink-0"
+            title="在当前位置添加检查点"
+          >
+            <Bookmark className="h-3 w-3" />
+          </Button>
+        </div>
+        {checkpoints.map((checkpoint) => (
+          <div key={checkpoint.id} className="flex items-center gap-1 text-xs">
+            <button
+              onClick={() => jumpToCheckpoint(checkpoint.id)}
+              disabled={isCollaborating}
+              className="flex-1 flex items-center gap-1 px-2 py-1 rounded hover:bg-muted text-left disabled:opacity-50"
+              title={formatTime(checkpoint.timestamp)}
+            >
+              <Bookmark className="h-3 w-3 shrink-0 fill-current" />
+              <span className="truncate">{checkpoint.name}</span>
+            </button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeCheckpoint(checkpoint.id)}
+              className="h-6 w-6 p-0"
+              title="删除检查点"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-px bg-border" />
+
+      {/* 历史步骤，灰色部分为可重做的步骤 */}
+      <div className="flex-1 overflow-y-auto space-y-0.5">
+        <button
+          onClick={() => jumpToHistory(-1)}
+          disabled={isCollaborating}
+          className={`w-full px-2 py-1 rounded text-left text-xs disabled:opacity-50 ${
+            historyIndex === -1
+              ? "bg-primary text-primary-foreground"
+              : "hover:bg-muted"
+          }`}
+        >
+          初始状态
+        </button>
+        {renderBranches(null)}
+        {history.map((entry, index) => (
+          <Fragment key={entry.id}>
+            <button
+              onClick={() => jumpToHistory(index)}
+              disabled={isCollaborating}
+              className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-xs disabled:opacity-50 ${
+                index === historyIndex
+                  ? "bg-primary text-primary-foreground"
+                  : index > historyIndex
+                    ? "text-muted-foreground hover:bg-muted"
+                    : "hover:bg-muted"
+              }`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="shrink-0 opacity-70 font-mono">
+                {formatTime(entry.timestamp)}
+              </span>
+            </button>
+            {renderBranches(entry.id)}
+          </Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
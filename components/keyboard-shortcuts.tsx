@@ -2,6 +2,7 @@
 
 import { useEffect } from "react";
 import { useCanvasStore } from "@/lib/canvas-store";
+import { isElementEditable } from "@/lib/layers";
 
 export function KeyboardShortcuts() {
   const {
@@ -19,8 +20,17 @@ export function KeyboardShortcuts() {
     snapEnabled,
     setSnapEnabled,
     importImage,
+    paths,
     shapes,
     setSelectedIds,
+    isLockedByOthers,
+    bringForward,
+    sendBackward,
+    bringToFront,
+    sendToBack,
+    groupSelected,
+    ungroupSelected,
+    layers,
   } = useCanvasStore();
 
   const handleImagesClick = () => {
@@ -156,10 +166,44 @@ export function KeyboardShortcuts() {
         return;
       }
 
-      // 全选（Ctrl+A）
+      // 全选（Ctrl+A）：跳过隐藏和锁定的图层
       if (isCtrl && e.key === "a") {
         e.preventDefault();
-        setSelectedIds(shapes.map((shape) => shape.id));
+        setSelectedIds(
+          [...paths, ...shapes]
+            .filter((element) => isElementEditable(element, layers))
+            .map((element) => element.id)
+            .filter((id) => !isLockedByOthers(id))
+        );
+        return;
+      }
+
+      // 组合（Ctrl+G）/ 取消组合（Ctrl+Shift+G）
+      if (isCtrl && e.key.toLowerCase() === "g") {
+        e.preventDefault();
+        if (isShift) {
+          ungroupSelected();
+        } else {
+          groupSelected();
+        }
+        return;
+      }
+
+      // 层叠顺序：Ctrl+] 上移一层，Ctrl+[ 下移一层，加 Shift 移到最上层/最下层
+      // 按物理按键判断，Shift 会改变 e.key（"]" 变成 "}"）
+      if (isCtrl && (e.code === "BracketRight" || e.code === "BracketLeft")) {
+        e.preventDefault();
+        if (e.code === "BracketRight") {
+          if (isShift) {
+            bringToFront();
+          } else {
+            bringForward();
+          }
+        } else if (isShift) {
+          sendToBack();
+        } else {
+          sendBackward();
+        }
         return;
       }
 
@@ -229,6 +273,17 @@ export function KeyboardShortcuts() {
     stageScale,
     setStageScale,
     setStagePos,
+    paths,
+    shapes,
+    setSelectedIds,
+    isLockedByOthers,
+    bringForward,
+    sendBackward,
+    bringToFront,
+    sendToBack,
+    groupSelected,
+    ungroupSelected,
+    layers,
   ]);
 
   return null; // 不需要渲染任何内容，只用于监听键盘事件
@@ -0,0 +1,773 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { DragEvent, MouseEvent, ReactNode } from "react";
+import {
+  ArrowRight,
+  ChevronDown,
+  ChevronRight,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  ChevronUp,
+  Circle,
+  Eye,
+  EyeOff,
+  Group,
+  Image as ImageIcon,
+  Layers,
+  Lock,
+  LogIn,
+  Minus,
+  Pencil,
+  Plus,
+  Square,
+  Trash2,
+  Type,
+  Unlock,
+  X,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { useCanvasStore } from "@/lib/canvas-store";
+import { getElementLayer, isElementEditable } from "@/lib/layers";
+import { buildOutline, getElementName, getElementType } from "@/lib/outline";
+import type { OutlineElementType, OutlineNode } from "@/lib/outline";
+import type { CanvasLayer, CanvasPath, CanvasShape } from "@/types/canvas";
+
+type CanvasElement = CanvasPath | CanvasShape;
+
+const TYPE_ICONS: Record<OutlineElementType, LucideIcon> = {
+  path: Pencil,
+  rectangle: Square,
+  circle: Circle,
+  arrow: ArrowRight,
+  line: Minus,
+  text: Type,
+  image: ImageIcon,
+};
+
+// 拖拽中的内容：图层，或者元素（组拖拽时是组内的所有元素）
+type DragItem =
+  { kind: "layer"; id: string } | { kind: "elements"; ids: string[] };
+type DropPosition = "above" | "below";
+
+// 按鼠标在行内的上半部分还是下半部分决定放在目标的上方还是下方
+const getDropPosition = (e: DragEvent<HTMLElement>): DropPosition => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return e.clientY < rect.top + rect.height / 2 ? "above" : "below";
+};
+
+const getDropClass = (position: DropPosition | null) =>
+  position === "above"
+    ? "shadow-[inset_0_2px_0_0_hsl(var(--primary))]"
+    : position === "below"
+      ? "shadow-[inset_0_-2px_0_0_hsl(var(--primary))]"
+      : "";
+
+// 可以拖拽和放置的行
+interface DragRowProps {
+  dropPosition: DropPosition | null;
+  onDragStart: () => void;
+  onDragOver: (position: DropPosition) => boolean; // 返回 false 表示不能放在这里
+  onDrop: (position: DropPosition) => void;
+  onDragEnd: () => void;
+}
+
+const getDragHandlers = ({
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}: DragRowProps) => ({
+  draggable: true,
+  onDragStart: (e: DragEvent<HTMLElement>) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = "move";
+    // Firefox 需要设置数据才会开始拖拽
+    e.dataTransfer.setData("text/plain", "");
+    onDragStart();
+  },
+  onDragOver: (e: DragEvent<HTMLElement>) => {
+    if (onDragOver(getDropPosition(e))) e.preventDefault();
+  },
+  onDrop: (e: DragEvent<HTMLElement>) => {
+    e.preventDefault();
+    onDrop(getDropPosition(e));
+  },
+  onDragEnd,
+});
+
+// 显示/隐藏、锁定/解锁按钮：开启时一直显示，否则悬停时显示
+function ToggleButtons({
+  hidden,
+  locked,
+  onToggleHidden,
+  onToggleLocked,
+}: {
+  hidden: boolean;
+  locked: boolean;
+  onToggleHidden: () => void;
+  onToggleLocked: () => void;
+}) {
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleHidden();
+        }}
+        title={hidden ? "显示" : "隐藏"}
+        className={`h-6 w-6 p-0 shrink-0 ${
+          hidden ? "" : "opacity-0 group-hover:opacity-100"
+        }`}
+      >
+        {hidden ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleLocked();
+        }}
+        title={locked ? "解锁" : "锁定"}
+        className={`h-6 w-6 p-0 shrink-0 ${
+          locked ? "" : "opacity-0 group-hover:opacity-100"
+        }`}
+      >
+        {locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+      </Button>
+    </>
+  );
+}
+
+// 名称：双击重命名，提交空名称时恢复为自动生成的名称（canRename 为 false 时不能重命名）
+function EditableName({
+  name,
+  dimmed,
+  canRename,
+  onRename,
+  children,
+}: {
+  name: string;
+  dimmed: boolean;
+  canRename: boolean;
+  onRename: (name: string) => void;
+  children?: ReactNode;
+}) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [value, setValue] = useState(name);
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    const trimmed = value.trim();
+    if (trimmed !== name) onRename(trimmed);
+    setValue(trimmed || name);
+  };
+
+  if (isRenaming) {
+    return (
+      <Input
+        value={value}
+        autoFocus
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commitRename}
+        onKeyDown={(e) => {
+          // 输入时不触发画布快捷键
+          e.stopPropagation();
+          if (e.key === "Enter") commitRename();
+          if (e.key === "Escape") {
+            setValue(name);
+            setIsRenaming(false);
+          }
+        }}
+        className="h-6 text-sm flex-1 min-w-0"
+      />
+    );
+  }
+  return (
+    <span
+      onDoubleClick={() => {
+        if (!canRename) return;
+        setValue(name);
+        setIsRenaming(true);
+      }}
+      className={`flex-1 min-w-0 truncate ${
+        dimmed ? "text-muted-foreground" : ""
+      }`}
+      title={canRename ? `${name}（双击重命名）` : name}
+    >
+      {name}
+      {children}
+    </span>
+  );
+}
+
+interface LayerRowProps extends DragRowProps {
+  layer: CanvasLayer;
+  count: number;
+  active: boolean;
+  expanded: boolean;
+  isTop: boolean;
+  isBottom: boolean;
+  canRemove: boolean;
+  onToggleExpanded: () => void;
+  onActivate: () => void;
+  onUpdate: (updates: Partial<Omit<CanvasLayer, "id">>) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+function LayerRow({
+  layer,
+  count,
+  active,
+  expanded,
+  isTop,
+  isBottom,
+  canRemove,
+  onToggleExpanded,
+  onActivate,
+  onUpdate,
+  onMove,
+  onRemove,
+  ...drag
+}: LayerRowProps) {
+  return (
+    <div
+      {...getDragHandlers(drag)}
+      onClick={onActivate}
+      className={`group flex items-center gap-1 px-1 py-1 rounded text-sm font-medium cursor-pointer ${
+        active ? "bg-muted" : "hover:bg-muted/50"
+      } ${getDropClass(drag.dropPosition)}`}
+      title="点击设为当前图层"
+    >
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleExpanded();
+        }}
+        className="h-4 w-4 shrink-0 text-muted-foreground"
+      >
+        {expanded ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+      </button>
+      <Layers className="h-3 w-3 shrink-0 text-muted-foreground" />
+      <EditableName
+        name={layer.name}
+        dimmed={!layer.visible}
+        canRename
+        onRename={(name) => name && onUpdate({ name })}
+      >
+        <span className="ml-1 text-xs font-normal text-muted-foreground">
+          {count}
+        </span>
+      </EditableName>
+
+      <div className="flex opacity-0 group-hover:opacity-100">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            onMove(1);
+          }}
+          disabled={isTop}
+          title="上移图层"
+          className="h-6 w-6 p-0"
+        >
+          <ChevronUp className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            onMove(-1);
+          }}
+          disabled={isBottom}
+          title="下移图层"
+          className="h-6 w-6 p-0"
+        >
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          disabled={!canRemove}
+          title="删除图层"
+          className="h-6 w-6 p-0 text-destructive"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      <ToggleButtons
+        hidden={!layer.visible}
+        locked={layer.locked}
+        onToggleHidden={() => onUpdate({ visible: !layer.visible })}
+        onToggleLocked={() => onUpdate({ locked: !layer.locked })}
+      />
+    </div>
+  );
+}
+
+interface OutlineRowProps extends DragRowProps {
+  node: OutlineNode;
+  depth: number;
+  name: string;
+  icon: LucideIcon;
+  selected: boolean;
+  editable: boolean;
+  hidden: boolean;
+  locked: boolean;
+  expanded: boolean | null; // 组是否展开，元素为 null
+  onToggleExpanded: () => void;
+  onSelect: (e: MouseEvent) => void;
+  onRename: ((name: string) => void) | null; // 组不能重命名
+  onToggleHidden: () => void;
+  onToggleLocked: () => void;
+}
+
+function OutlineRow({
+  node,
+  depth,
+  name,
+  icon: Icon,
+  selected,
+  editable,
+  hidden,
+  locked,
+  expanded,
+  onToggleExpanded,
+  onSelect,
+  onRename,
+  onToggleHidden,
+  onToggleLocked,
+  ...drag
+}: OutlineRowProps) {
+  return (
+    <div
+      {...getDragHandlers(drag)}
+      data-selected={selected}
+      onClick={onSelect}
+      style={{ paddingLeft: 4 + depth * 12 }}
+      className={`group flex items-center gap-1 pr-1 py-0.5 rounded text-sm ${
+        editable ? "cursor-pointer" : "cursor-default"
+      } ${selected ? "bg-primary/10" : "hover:bg-muted/50"} ${getDropClass(
+        drag.dropPosition
+      )}`}
+      title={editable ? undefined : "已隐藏或锁定，不能选中"}
+    >
+      {expanded === null ? (
+        <span className="h-4 w-4 shrink-0" />
+      ) : (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleExpanded();
+          }}
+          className="h-4 w-4 shrink-0 text-muted-foreground"
+        >
+          {expanded ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronRight className="h-4 w-4" />
+          )}
+        </button>
+      )}
+      <Icon className="h-3 w-3 shrink-0 text-muted-foreground" />
+      <EditableName
+        name={name}
+        dimmed={!editable}
+        canRename={onRename !== null}
+        onRename={(value) => onRename?.(value)}
+      />
+      <ToggleButtons
+        hidden={hidden}
+        locked={locked}
+        onToggleHidden={onToggleHidden}
+        onToggleLocked={onToggleLocked}
+      />
+    </div>
+  );
+}
+
+/**
+ * 图层与大纲面板
+ * - 按层叠顺序列出所有图层、组和元素，可以选中、重命名、拖拽排序、隐藏和锁定
+ * - 在面板中选中时同步到画布，并把画布移到选中的元素；在画布中选中时展开并滚动到对应的行
+ */
+export function LayersPanel() {
+  const {
+    showLayersPanel,
+    setShowLayersPanel,
+    paths,
+    shapes,
+    layers,
+    activeLayerId,
+    selectedIds,
+    setSelectedIds,
+    setEditingGroupId,
+    setActiveLayer,
+    addLayer,
+    updateLayer,
+    moveLayer,
+    removeLayer,
+    moveSelectedToLayer,
+    updateElements,
+    moveElements,
+    scrollToElements,
+  } = useCanvasStore();
+  const [collapsed, setCollapsed] = useState(false);
+  // 图层默认展开，组默认收起
+  const [collapsedLayers, setCollapsedLayers] = useState<Set<string>>(
+    new Set()
+  );
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    key: string;
+    position: DropPosition;
+  } | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const outline = useMemo(
+    () => buildOutline({ paths, shapes, layers }),
+    [paths, shapes, layers]
+  );
+  const elements = useMemo(
+    () =>
+      new Map<string, CanvasElement>(
+        [...paths, ...shapes].map((element) => [element.id, element])
+      ),
+    [paths, shapes]
+  );
+
+  // 画布中选中的元素：展开所在的图层和组，并滚动到第一个选中的行
+  useEffect(() => {
+    if (!showLayersPanel || selectedIds.length === 0) return;
+    const layerIds = new Set<string>();
+    const groupKeys = new Set<string>();
+    selectedIds.forEach((id) => {
+      const element = elements.get(id);
+      const layer = element && getElementLayer(element, layers);
+      if (!element || !layer) return;
+      layerIds.add(layer.id);
+      element.groupIds?.forEach((groupId) =>
+        groupKeys.add(`${layer.id}/${groupId}`)
+      );
+    });
+    setCollapsedLayers((current) =>
+      [...layerIds].some((id) => current.has(id))
+        ? new Set([...current].filter((id) => !layerIds.has(id)))
+        : current
+    );
+    setExpandedGroups((current) =>
+      [...groupKeys].every((key) => current.has(key))
+        ? current
+        : new Set([...current, ...groupKeys])
+    );
+  }, [showLayersPanel, selectedIds, elements, layers]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector('[data-selected="true"]')
+      ?.scrollIntoView({ block: "nearest" });
+  }, [selectedIds, collapsedLayers, expandedGroups]);
+
+  if (!showLayersPanel) return null;
+
+  const activeLayer = layers.find((layer) => layer.id === activeLayerId);
+  const getMembers = (node: OutlineNode) =>
+    node.elementIds.flatMap((id) => elements.get(id) ?? []);
+  const isEditable = (element: CanvasElement) =>
+    isElementEditable(element, layers);
+
+  const toggleSet = (set: Set<string>, key: string) => {
+    const next = new Set(set);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    return next;
+  };
+
+  const handleRemove = (layer: CanvasLayer, count: number) => {
+    if (count === 0) {
+      removeLayer(layer.id);
+      return;
+    }
+    toast(`确认删除「${layer.name}」吗？图层中的 ${count} 个元素也会被删除`, {
+      action: { label: "删除", onClick: () => removeLayer(layer.id) },
+    });
+  };
+
+  // 选中节点：按住 Shift/Ctrl 时加入或移出选择，否则只选中该节点
+  const handleSelect = (node: OutlineNode, e: MouseEvent) => {
+    const ids = getMembers(node)
+      .filter(isEditable)
+      .map((element) => element.id);
+    if (ids.length === 0) return;
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      const isSelected = ids.every((id) => selectedIds.includes(id));
+      setSelectedIds(
+        isSelected
+          ? selectedIds.filter((id) => !ids.includes(id))
+          : [...selectedIds, ...ids.filter((id) => !selectedIds.includes(id))]
+      );
+    } else {
+      // 选中组内的元素时进入所在的组，之后在画布中点击同样选中组内的下一层
+      setEditingGroupId(node.parentGroupId);
+      setSelectedIds(ids);
+    }
+    scrollToElements(ids);
+  };
+
+  const endDrag = () => {
+    setDragItem(null);
+    setDropTarget(null);
+  };
+
+  // 放到图层上：图层按位置排序，元素移到该图层的最上面
+  const dropOnLayer = (layer: CanvasLayer, position: DropPosition) => {
+    if (dragItem?.kind === "layer") {
+      const rest = layers.filter((item) => item.id !== dragItem.id);
+      const index = rest.findIndex((item) => item.id === layer.id);
+      // 列表中上面的图层在数组中靠后
+      moveLayer(dragItem.id, position === "above" ? index + 1 : index);
+    } else if (dragItem?.kind === "elements") {
+      moveElements(dragItem.ids, { layerId: layer.id });
+    }
+    endDrag();
+  };
+
+  // 放到元素或组上：移到它的上方或下方（组按最上面或最下面的成员计算）
+  const dropOnNode = (
+    layer: CanvasLayer,
+    node: OutlineNode,
+    position: DropPosition
+  ) => {
+    if (dragItem?.kind === "elements") {
+      const targetId =
+        position === "above"
+          ? node.elementIds[0]
+          : node.elementIds[node.elementIds.length - 1];
+      moveElements(dragItem.ids, { layerId: layer.id, targetId, position });
+    }
+    endDrag();
+  };
+
+  const getDropPositionFor = (key: string) =>
+    dropTarget?.key === key ? dropTarget.position : null;
+
+  const renderNodes = (
+    layer: CanvasLayer,
+    nodes: OutlineNode[],
+    depth: number
+  ): ReactNode =>
+    nodes.map((node) => {
+      const key = `${layer.id}/${node.id}`;
+      const members = getMembers(node);
+      const isGroup = node.kind === "group";
+      const expanded = isGroup ? expandedGroups.has(key) : null;
+      const hidden = members.every((element) => element.hidden);
+      const locked = members.every((element) => element.locked);
+      return (
+        <div key={key}>
+          <OutlineRow
+            node={node}
+            depth={depth}
+            name={
+              node.element
+                ? getElementName(node.element)
+                : `组合（${members.length}）`
+            }
+            icon={
+              node.element ? TYPE_ICONS[getElementType(node.element)] : Group
+            }
+            selected={node.elementIds.every((id) => selectedIds.includes(id))}
+            editable={members.some(isEditable)}
+            hidden={hidden}
+            locked={locked}
+            expanded={expanded}
+            onToggleExpanded={() =>
+              setExpandedGroups((current) => toggleSet(current, key))
+            }
+            onSelect={(e) => handleSelect(node, e)}
+            onRename={
+              node.element
+                ? (name) => updateElements([node.id], { name })
+                : null
+            }
+            onToggleHidden={() =>
+              updateElements(node.elementIds, { hidden: !hidden })
+            }
+            onToggleLocked={() =>
+              updateElements(node.elementIds, { locked: !locked })
+            }
+            dropPosition={getDropPositionFor(key)}
+            onDragStart={() =>
+              setDragItem({ kind: "elements", ids: node.elementIds })
+            }
+            onDragOver={(position) => {
+              if (dragItem?.kind !== "elements") return false;
+              setDropTarget({ key, position });
+              return true;
+            }}
+            onDrop={(position) => dropOnNode(layer, node, position)}
+            onDragEnd={endDrag}
+          />
+          {expanded && renderNodes(layer, node.children, depth + 1)}
+        </div>
+      );
+    });
+
+  return (
+    <div
+      className={`absolute top-32 left-4 w-64 bg-card border border-border rounded-lg shadow-lg p-3 z-10 flex flex-col gap-3 ${
+        collapsed ? "" : "bottom-20"
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-medium text-sm">
+          <Layers className="h-4 w-4" />
+          图层
+        </h3>
+        <div className="flex">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={addLayer}
+            title="新建图层"
+            className="h-6 w-6 p-0"
+          >
+            <Plus className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setCollapsed(!collapsed)}
+            title={collapsed ? "展开" : "收起"}
+            className="h-6 w-6 p-0"
+          >
+            {collapsed ? (
+              <ChevronsUpDown className="h-3 w-3" />
+            ) : (
+              <ChevronsDownUp className="h-3 w-3" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowLayersPanel(false)}
+            className="h-6 w-6 p-0"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <>
+          {/* 最上面的图层排在最前 */}
+          <div
+            ref={listRef}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                setDropTarget(null);
+              }
+            }}
+            className="flex-1 overflow-y-auto space-y-0.5"
+          >
+            {outline.map(({ layer, elementIds, nodes }) => {
+              const index = layers.indexOf(layer);
+              const expanded = !collapsedLayers.has(layer.id);
+              return (
+                <div key={layer.id}>
+                  <LayerRow
+                    layer={layer}
+                    count={elementIds.length}
+                    active={layer.id === activeLayerId}
+                    expanded={expanded}
+                    isTop={index === layers.length - 1}
+                    isBottom={index === 0}
+                    canRemove={layers.length > 1}
+                    onToggleExpanded={() =>
+                      setCollapsedLayers((current) =>
+                        toggleSet(current, layer.id)
+                      )
+                    }
+                    onActivate={() => setActiveLayer(layer.id)}
+                    onUpdate={(updates) => updateLayer(layer.id, updates)}
+                    onMove={(offset) => moveLayer(layer.id, index + offset)}
+                    onRemove={() => handleRemove(layer, elementIds.length)}
+                    dropPosition={getDropPositionFor(layer.id)}
+                    onDragStart={() =>
+                      setDragItem({ kind: "layer", id: layer.id })
+                    }
+                    onDragOver={(position) => {
+                      if (!dragItem) return false;
+                      setDropTarget({ key: layer.id, position });
+                      return true;
+                    }}
+                    onDrop={(position) => dropOnLayer(layer, position)}
+                    onDragEnd={endDrag}
+                  />
+                  {expanded && renderNodes(layer, nodes, 1)}
+                </div>
+              );
+            })}
+          </div>
+
+          {activeLayer && (
+            <div className="border-t border-border pt-3 space-y-3">
+              <div>
+                <label className="text-xs font-medium text-muted-foreground mb-2 block">
+                  图层透明度: {Math.round(activeLayer.opacity * 100)}%
+                </label>
+                <Slider
+                  value={[activeLayer.opacity * 100]}
+                  onValueChange={(value) =>
+                    updateLayer(activeLayer.id, { opacity: value[0] / 100 })
+                  }
+                  max={100}
+                  min={0}
+                  step={5}
+                  className="w-full"
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => moveSelectedToLayer(activeLayer.id)}
+                disabled={
+                  selectedIds.length === 0 ||
+                  !activeLayer.visible ||
+                  activeLayer.locked
+                }
+                className="w-full"
+              >
+                <LogIn className="h-4 w-4" />
+                选中内容移到「{activeLayer.name}」
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Workflow } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useCanvasStore } from "@/lib/canvas-store";
+
+const PLACEHOLDER = `flowchart TD
+  A[开始] --> B{是否通过?}
+  B -->|是| C((完成))
+  B -->|否| D[修改] --> B`;
+
+export function MermaidImportDialog() {
+  const { importFromMermaid } = useCanvasStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState("");
+
+  const handleImport = () => {
+    try {
+      importFromMermaid(source);
+      toast.success("导入成功", { closeButton: true });
+      setIsOpen(false);
+      setSource("");
+    } catch (error) {
+      toast.error("导入失败: " + (error as Error).message, {
+        closeButton: true,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          title="导入 Mermaid 流程图"
+          className="h-8 w-8 p-0"
+        >
+          <Workflow className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>导入 Mermaid 流程图</DialogTitle>
+          <DialogDescription>
+            支持 flowchart/graph 语法，节点和连线会转换为可编辑的图形
+          </DialogDescription>
+        </DialogHeader>
+        <textarea
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder={PLACEHOLDER}
+          spellCheck={false}
+          className="w-full h-56 p-2 text-sm font-mono bg-background border border-input rounded-md outline-none focus-visible:ring-1 focus-visible:ring-ring resize-none"
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            取消
+          </Button>
+          <Button onClick={handleImport} disabled={!source.trim()}>
+            导入
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useCanvasStore } from "@/lib/canvas-store";
+
+// 头像上显示的名称首字
+const getInitial = (name: string) => name.trim().charAt(0).toUpperCase() || "?";
+
+export function ParticipantList() {
+  const {
+    isCollaborating,
+    participants,
+    localUser,
+    setUserName,
+    softLockEnabled,
+    setSoftLockEnabled,
+  } = useCanvasStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [nameDraft, setNameDraft] = useState(localUser.name);
+
+  if (!isCollaborating) return null;
+
+  const everyone = [
+    { id: "local", name: localUser.name, color: localUser.color },
+    ...participants,
+  ];
+
+  const commitName = () => {
+    const name = nameDraft.trim();
+    if (name && name !== localUser.name) {
+      setUserName(name);
+    } else {
+      setNameDraft(localUser.name);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-1 gap-1"
+          title={`在线成员 (${everyone.length})`}
+        >
+          <div className="flex -space-x-2">
+            {everyone.slice(0, 4).map((user) => (
+              <div
+                key={user.id}
+                className="w-6 h-6 rounded-full border-2 border-card text-[10px] font-medium text-white flex items-center justify-center"
+                style={{ backgroundColor: user.color }}
+              >
+                {getInitial(user.name)}
+              </div>
+            ))}
+          </div>
+          {everyone.length > 4 && (
+            <span className="text-xs text-muted-foreground">
+              +{everyone.length - 4}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-3">
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Users className="h-4 w-4" />
+            在线成员 ({everyone.length})
+          </div>
+
+          {/* 本地用户名称编辑 */}
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">
+              我的名称
+            </label>
+            <Input
+              value={nameDraft}
+              onChange={(e) => setNameDraft(e.target.value)}
+              onBlur={commitName}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitName();
+              }}
+              className="h-7 text-xs"
+            />
+          </div>
+
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {everyone.map((user) => (
+              <div key={user.id} className="flex items-center gap-2 text-sm">
+                <span
+                  className="w-2.5 h-2.5 rounded-full"
+                  style={{ backgroundColor: user.color }}
+                />
+                <span className="truncate">
+                  {user.name}
+                  {user.id === "local" && (
+                    <span className="text-muted-foreground"> (我)</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* 软锁定开关 */}
+          <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={softLockEnabled}
+              onChange={(e) => setSoftLockEnabled(e.target.checked)}
+            />
+            锁定其他成员选中的元素
+          </label>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
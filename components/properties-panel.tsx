@@ -3,7 +3,20 @@
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { useCanvasStore } from "@/lib/canvas-store";
-import { X, Trash2, Copy } from "lucide-react";
+import { duplicateElements, hasSelectedGroup } from "@/lib/groups";
+import { getCanvasObjects } from "@/lib/z-order";
+import type { CanvasPath, CanvasShape } from "@/types/canvas";
+import {
+  X,
+  Trash2,
+  Copy,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpToLine,
+  ArrowDownToLine,
+  Group,
+  Ungroup,
+} from "lucide-react";
 import {
   Popover,
   PopoverContent,
@@ -202,15 +215,27 @@ export function StrokeWidthPickerForProperties({
 export function PropertiesPanel() {
   const {
     selectedIds,
+    paths,
     shapes,
     opacity,
     rotation,
     setOpacity,
     setRotation,
+    setSelectedIds,
     clearSelection,
+    beginTransaction,
+    commitTransaction,
+    collaborativeAddPath,
     collaborativeAddShape,
     collaborativeUpdateShape,
     collaborativeDeleteSelected,
+    bringForward,
+    sendBackward,
+    bringToFront,
+    sendToBack,
+    groupSelected,
+    ungroupSelected,
+    rotateSelected,
   } = useCanvasStore();
 
   if (selectedIds.length === 0) return null;
@@ -219,6 +244,8 @@ export function PropertiesPanel() {
     selectedIds.includes(shape.id)
   );
   const isMultiSelect = selectedIds.length > 1;
+  // 选中内容中包含组时，旋转等操作作用于整体
+  const hasGroup = hasSelectedGroup({ paths, shapes }, selectedIds);
   const isTextSelection = !isMultiSelect && selectedShapes[0]?.type === "text";
   const isImageSelection =
     !isMultiSelect && selectedShapes[0]?.type === "image";
@@ -294,23 +321,38 @@ export function PropertiesPanel() {
     const newRotation = value[0];
     setRotation(newRotation);
 
+    // 组绕整体中心旋转，旋转量为滑块的变化量
+    if (hasGroup) {
+      rotateSelected(newRotation - rotation);
+      return;
+    }
+
     // 更新选中元素的旋转角度
     selectedIds.forEach((id) => {
       collaborativeUpdateShape(id, { rotation: newRotation });
     });
   };
 
-  // 复制选中元素
+  // 复制选中元素（包括路径），组复制后仍是组，并选中副本
   const duplicateSelected = () => {
-    selectedShapes.forEach((shape) => {
-      const newShape = {
-        ...shape,
-        id: Date.now().toString() + Math.random(),
-        x: shape.x + 20,
-        y: shape.y + 20,
-      };
-      collaborativeAddShape(newShape);
+    const copies = duplicateElements({ paths, shapes }, selectedIds, {
+      x: 20,
+      y: 20,
     });
+    // 按原来的层叠顺序依次添加，副本之间保持先后
+    beginTransaction();
+    getCanvasObjects(copies).forEach((object) => {
+      if (object.type === "path") {
+        collaborativeAddPath(object.data as CanvasPath);
+      } else {
+        collaborativeAddShape(object.data as CanvasShape);
+      }
+    });
+    commitTransaction();
+    setSelectedIds([
+      ...copies.paths.map((path) => path.id),
+      ...copies.shapes.map((shape) => shape.id),
+    ]);
   };
 
   const handleTypeToLabel = (type: string) => {
@@ -373,6 +415,66 @@ export function PropertiesPanel() {
         </Button>
       </div>
 
+      {/* 组合 */}
+      {(isMultiSelect || hasGroup) && (
+        <div className="flex gap-1 mb-4">
+          {isMultiSelect && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={groupSelected}
+              title="组合（Ctrl + G）"
+              className="flex-1 h-8 text-xs gap-1 bg-transparent"
+            >
+              <Group className="h-3 w-3" />
+              组合
+            </Button>
+          )}
+          {hasGroup && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={ungroupSelected}
+              title="取消组合（Ctrl + Shift + G）"
+              className="flex-1 h-8 text-xs gap-1 bg-transparent"
+            >
+              <Ungroup className="h-3 w-3" />
+              取消组合
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* 层叠顺序 */}
+      <div className="mb-4">
+        <label className="text-xs font-medium text-muted-foreground mb-2 block">
+          层叠顺序
+        </label>
+        <div className="flex gap-1">
+          {[
+            { icon: ArrowUpToLine, label: "移到最上层", onClick: bringToFront },
+            { icon: ArrowUp, label: "上移一层", onClick: bringForward },
+            { icon: ArrowDown, label: "下移一层", onClick: sendBackward },
+            {
+              icon: ArrowDownToLine,
+              label: "移到最下层",
+              onClick: sendToBack,
+            },
+          ].map(({ icon: Icon, label, onClick }) => (
+            <Button
+              key={label}
+              variant="outline"
+              size="sm"
+              onClick={onClick}
+              title={label}
+              className="flex-1 h-8 p-0 bg-transparent"
+            >
+              <Icon className="h-3 w-3" />
+            </Button>
+          ))}
+        </div>
+      </div>
+
       {/* 元素属性控制 */}
       <div className="space-y-4">
         {/* 文本特定属性控制 */}
@@ -49,6 +49,18 @@ export function ShortcutsHelp() {
         { key: "Escape", action: "退出选中元素" },
         { key: "Shift + Click", action: "多选" },
         { key: "Ctrl + A", action: "全选" },
+        { key: "Ctrl + G", action: "组合" },
+        { key: "Ctrl + Shift + G", action: "取消组合" },
+        { key: "双击组", action: "进入组，选择组内元素" },
+      ],
+    },
+    {
+      category: "层叠顺序",
+      items: [
+        { key: "Ctrl + ]", action: "上移一层" },
+        { key: "Ctrl + [", action: "下移一层" },
+        { key: "Ctrl + Shift + ]", action: "移到最上层" },
+        { key: "Ctrl + Shift + [", action: "移到最下层" },
       ],
     },
   ];
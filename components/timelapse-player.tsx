@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, Pause, Play, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useCanvasStore } from "@/lib/canvas-store";
+import { exportTimelapseAPNG } from "@/lib/timelapse";
+import { downloadBlob, getThemeBackground } from "@/lib/utils";
+
+// 1 倍速时每帧停留的时间（毫秒）
+const BASE_FRAME_DURATION = 500;
+const SPEEDS = [0.5, 1, 2, 4];
+
+export function TimelapsePlayer() {
+  const { timelapseFrames, timelapseIndex, setTimelapseIndex, stopTimelapse } =
+    useCanvasStore();
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const frameCount = timelapseFrames?.length ?? 0;
+
+  // 每次开始回放时自动播放
+  useEffect(() => {
+    if (timelapseFrames) setIsPlaying(true);
+  }, [timelapseFrames]);
+
+  // 播放时按速度推进帧，播放到最后一帧自动暂停
+  useEffect(() => {
+    if (!isPlaying || frameCount === 0) return;
+    if (timelapseIndex >= frameCount - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(
+      () => setTimelapseIndex(timelapseIndex + 1),
+      BASE_FRAME_DURATION / speed
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, speed, timelapseIndex, frameCount, setTimelapseIndex]);
+
+  if (!timelapseFrames) return null;
+
+  const frame = timelapseFrames[timelapseIndex];
+
+  const togglePlay = () => {
+    // 在最后一帧点击播放时从头开始
+    if (!isPlaying && timelapseIndex >= frameCount - 1) {
+      setTimelapseIndex(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportTimelapseAPNG(timelapseFrames, {
+        fps: (1000 / BASE_FRAME_DURATION) * speed,
+        background: getThemeBackground(),
+      });
+      downloadBlob(blob, `canvas-timelapse-${new Date().getTime()}.png`);
+      toast.success("回放动画已导出", { closeButton: true });
+    } catch (error) {
+      toast.error("导出失败: " + (error as Error).message, {
+        closeButton: true,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 z-10 w-[min(36rem,90vw)] bg-card border border-border rounded-lg shadow-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="default"
+          size="sm"
+          onClick={togglePlay}
+          className="h-8 w-8 p-0"
+          title={isPlaying ? "暂停" : "播放"}
+        >
+          {isPlaying ? (
+            <Pause className="h-4 w-4" />
+          ) : (
+            <Play className="h-4 w-4" />
+          )}
+        </Button>
+
+        <Slider
+          value={[timelapseIndex]}
+          onValueChange={(value) => {
+            setIsPlaying(false);
+            setTimelapseIndex(value[0]);
+          }}
+          min={0}
+          max={Math.max(0, frameCount - 1)}
+          step={1}
+          className="flex-1"
+        />
+
+        <span className="text-xs font-mono text-muted-foreground min-w-[4rem] text-right">
+          {timelapseIndex + 1} / {frameCount}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex gap-1 bg-muted rounded p-1">
+          {SPEEDS.map((value) => (
+            <Button
+              key={value}
+              variant={speed === value ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setSpeed(value)}
+              className="h-6 px-2 text-xs"
+            >
+              {value}x
+            </Button>
+          ))}
+        </div>
+
+        <span className="flex-1 truncate text-xs text-muted-foreground">
+          {frame?.label}
+          {frame &&
+            ` · ${new Date(frame.timestamp).toLocaleTimeString("zh-CN", {
+              hour12: false,
+            })}`}
+        </span>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={isExporting}
+          className="h-7 w-7 p-0"
+          title="导出为 APNG 动画"
+        >
+          <Download className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={stopTimelapse}
+          className="h-7 w-7 p-0"
+          title="退出回放"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { crc32 } from "@/lib/utils";
+
+// 把多张同尺寸的 PNG 合成为一个 APNG 动画（浏览器原生支持，无需额外依赖）
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readChunks = (png: Uint8Array): PngChunk[] => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += length + 12; // 长度 + 类型 + 数据 + CRC
+  }
+  return chunks;
+};
+
+const writeChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+};
+
+const uint32 = (...values: number[]) => {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+};
+
+/**
+ * 合成 APNG
+ * @param frames 每一帧的 PNG 文件内容，尺寸必须一致
+ * @param delay 每帧显示时长（毫秒）
+ * @param loops 循环次数，0 表示无限循环
+ */
+export const encodeAPNG = (
+  frames: Uint8Array[],
+  delay: number,
+  loops = 0
+): Blob => {
+  if (frames.length === 0) {
+    throw new Error("At least one frame is required");
+  }
+
+  const first = readChunks(frames[0]);
+  const ihdr = first.find((chunk) => chunk.type === "IHDR");
+  if (!ihdr) throw new Error("Invalid PNG frame");
+  const ihdrView = new DataView(ihdr.data.buffer, ihdr.data.byteOffset);
+  const width = ihdrView.getUint32(0);
+  const height = ihdrView.getUint32(4);
+
+  const parts: BlobPart[] = [
+    PNG_SIGNATURE,
+    writeChunk("IHDR", ihdr.data),
+    writeChunk("acTL", uint32(frames.length, loops)),
+  ];
+
+  let sequence = 0;
+  const frameDelay = Math.min(65535, Math.max(1, Math.round(delay)));
+  frames.forEach((png, index) => {
+    // fcTL：序号、宽高、偏移、延迟（分子/分母）、处理方式
+    const fcTL = new Uint8Array(26);
+    fcTL.set(uint32(sequence++, width, height, 0, 0), 0);
+    const view = new DataView(fcTL.buffer);
+    view.setUint16(20, frameDelay);
+    view.setUint16(22, 1000);
+    fcTL[24] = 0; // dispose_op: APNG_DISPOSE_OP_NONE
+    fcTL[25] = 0; // blend_op: APNG_BLEND_OP_SOURCE
+    parts.push(writeChunk("fcTL", fcTL));
+
+    const idats = readChunks(png).filter((chunk) => chunk.type === "IDAT");
+    idats.forEach((idat) => {
+      if (index === 0) {
+        // 第一帧同时作为不支持动画时显示的默认图像
+        parts.push(writeChunk("IDAT", idat.data));
+      } else {
+        const fdAT = new Uint8Array(idat.data.length + 4);
+        fdAT.set(uint32(sequence++), 0);
+        fdAT.set(idat.data, 4);
+        parts.push(writeChunk("fdAT", fdAT));
+      }
+    });
+  });
+
+  parts.push(writeChunk("IEND", new Uint8Array(0)));
+  return new Blob(parts, { type: "image/png" });
+};
@@ -0,0 +1,186 @@
+import type { CanvasShape } from "@/types/canvas";
+
+// 资源表：图片等二进制内容按内容哈希（SHA-256）只存一份
+// - 图片图形的 src 写成 "asset:<哈希>"，同一张图片粘贴多次只占一份存储
+// - 本地存储、历史记录和协作文档中只保存引用，资源数据保存在文档的 assets 表里
+// - 运行时的资源注册在内存中，绘制和导出时通过 resolveAsset 取回 data URL
+
+export const ASSET_PREFIX = "asset:";
+
+// 资源 ID → data URL
+export type AssetTable = Record<string, string>;
+
+const registry = new Map<string, string>();
+
+export const isAssetRef = (src: string | undefined): src is string =>
+  typeof src === "string" && src.startsWith(ASSET_PREFIX);
+
+export const getAssetId = (ref: string) => ref.slice(ASSET_PREFIX.length);
+
+export const createAssetRef = (id: string) => `${ASSET_PREFIX}${id}`;
+
+// 常见图片类型对应的扩展名（打包导出时作为资源文件名）
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "image/bmp": "bmp",
+  "image/avif": "avif",
+};
+
+export const getAssetExtension = (mimeType: string) =>
+  EXTENSIONS[mimeType] || "bin";
+
+export const getMimeTypeFromName = (name: string) => {
+  const extension = name.split(".").pop()?.toLowerCase();
+  const entry = Object.entries(EXTENSIONS).find(
+    ([, value]) => value === extension
+  );
+  return entry?.[0] || (extension === "jpeg" ? "image/jpeg" : "");
+};
+
+// 解析 data URL，得到类型和原始字节
+export const decodeDataURL = (dataURL: string) => {
+  const comma = dataURL.indexOf(",");
+  if (!dataURL.startsWith("data:") || comma === -1) {
+    throw new Error("Invalid data URL");
+  }
+  const header = dataURL.slice(5, comma);
+  const payload = dataURL.slice(comma + 1);
+  const mimeType = header.split(";")[0] || "text/plain";
+
+  if (/;base64$/i.test(header)) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { mimeType, bytes };
+  }
+  return {
+    mimeType,
+    bytes: new TextEncoder().encode(decodeURIComponent(payload)),
+  };
+};
+
+export const encodeDataURL = (bytes: Uint8Array, mimeType: string) => {
+  let binary = "";
+  // 分块转换，避免参数过多导致栈溢出
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// SHA-256（同步实现，粘贴图片时需要立即得到资源 ID）
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+export const sha256 = (data: Uint8Array) => {
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  // 补位：0x80 + 若干 0 + 64 位长度，总长度为 64 字节的整数倍
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(length - 4, (data.length << 3) >>> 0);
+
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = hash[i] + value;
+    });
+  }
+
+  return Array.from(hash, (value) => value.toString(16).padStart(8, "0")).join(
+    ""
+  );
+};
+
+// 资源 ID：原始字节的哈希，与 data URL 的编码方式无关
+export const getDataURLAssetId = (dataURL: string) =>
+  sha256(decodeDataURL(dataURL).bytes);
+
+// 注册资源，返回引用（"asset:<哈希>"）；不是 data URL 的地址原样返回
+export const registerAsset = (src: string) => {
+  if (!src.startsWith("data:")) return src;
+  const id = getDataURLAssetId(src);
+  if (!registry.has(id)) registry.set(id, src);
+  return createAssetRef(id);
+};
+
+// 注册文档或协作数据中的资源表
+export const registerAssets = (assets: AssetTable | undefined) => {
+  Object.entries(assets || {}).forEach(([id, dataURL]) => {
+    if (!registry.has(id)) registry.set(id, dataURL);
+  });
+};
+
+export const getAsset = (id: string) => registry.get(id);
+
+// 取回图片地址：资源引用换成 data URL，其他地址原样返回
+export const resolveAsset = (src: string) =>
+  isAssetRef(src) ? registry.get(getAssetId(src)) || src : src;
+
+// 把内嵌的 data URL 换成资源引用（导入 SVG/Excalidraw 等外部内容时使用）
+export const internAssets = <T extends { shapes: CanvasShape[] }>(
+  content: T
+): T => ({
+  ...content,
+  shapes: content.shapes.map((shape) =>
+    shape.type === "image" && shape.src?.startsWith("data:")
+      ? { ...shape, src: registerAsset(shape.src) }
+      : shape
+  ),
+});
+
+// 收集图形引用到的资源，保存或导出文档时写入 assets 表
+export const collectAssets = (shapes: CanvasShape[]): AssetTable => {
+  const assets: AssetTable = {};
+  shapes.forEach((shape) => {
+    if (shape.type !== "image" || !isAssetRef(shape.src)) return;
+    const id = getAssetId(shape.src);
+    const dataURL = registry.get(id);
+    if (dataURL) assets[id] = dataURL;
+  });
+  return assets;
+};
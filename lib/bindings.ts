@@ -0,0 +1,437 @@
+import type { CanvasShape, ShapeBinding } from "@/types/canvas";
+
+// 连接线绑定：箭头和直线的起点、终点可以绑定到矩形、圆形、文本或图片上
+// - 绑定到中心时，端点落在从目标中心指向连接线另一侧的射线与目标轮廓的交点上
+// - 绑定到固定位置时，端点始终在目标轮廓上的同一位置（随目标缩放和旋转）
+// - 端点仍以绝对坐标保存在 points 中，绘制和导出不需要了解绑定；
+//   目标移动、缩放或旋转后由画布状态重新计算端点，目标被删除时解除绑定
+// - 连接线本身被移动时不重新对齐，离开目标的端点解除绑定
+
+type Point = { x: number; y: number };
+type BindingKey = "startBinding" | "endBinding";
+
+// 端点与目标轮廓的距离在该范围内（屏幕像素）时绑定到轮廓上的固定位置
+export const BINDING_DISTANCE = 10;
+
+// 端点坐标的变化小于该值时视为没有变化，避免重复提交
+const EPSILON = 1e-6;
+
+// 图形未旋转时的范围、旋转中心和角度
+interface ShapeFrame {
+  box: { x: number; y: number; width: number; height: number };
+  pivot: Point; // 与 beginShape 使用相同的旋转中心
+  angle: number;
+  ellipse: boolean;
+}
+
+export const isConnector = (shape: CanvasShape) =>
+  (shape.type === "arrow" || shape.type === "line") &&
+  !!shape.points &&
+  shape.points.length >= 4;
+
+const isBindable = (shape: CanvasShape) =>
+  shape.type === "rectangle" ||
+  shape.type === "circle" ||
+  shape.type === "text" ||
+  shape.type === "image";
+
+const getFrame = (shape: CanvasShape): ShapeFrame => {
+  const pivot = {
+    x: shape.x + (shape.width || 0) / 2,
+    y: shape.y + (shape.height || 0) / 2,
+  };
+  const angle = (shape.rotation * Math.PI) / 180;
+  if (shape.type === "circle") {
+    // 与绘制时相同的半径
+    const radius = Math.abs((shape.width || 0) + (shape.height || 0)) / 4;
+    return {
+      box: {
+        x: pivot.x - radius,
+        y: pivot.y - radius,
+        width: radius * 2,
+        height: radius * 2,
+      },
+      pivot,
+      angle,
+      ellipse: true,
+    };
+  }
+  const width =
+    shape.type === "image" ? shape.width || 100 : (shape.width ?? 0);
+  const height =
+    shape.type === "image"
+      ? shape.height || 100
+      : shape.type === "text"
+        ? (shape.fontSize || 16) * 1.2
+        : (shape.height ?? 0);
+  return {
+    box: {
+      x: Math.min(shape.x, shape.x + width),
+      y: Math.min(shape.y, shape.y + height),
+      width: Math.abs(width),
+      height: Math.abs(height),
+    },
+    pivot,
+    angle,
+    ellipse: false,
+  };
+};
+
+const rotatePoint = (point: Point, pivot: Point, angle: number): Point => {
+  if (!angle) return point;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: pivot.x + (point.x - pivot.x) * cos - (point.y - pivot.y) * sin,
+    y: pivot.y + (point.x - pivot.x) * sin + (point.y - pivot.y) * cos,
+  };
+};
+
+const getCenter = ({ box }: ShapeFrame): Point => ({
+  x: box.x + box.width / 2,
+  y: box.y + box.height / 2,
+});
+
+// 把画布坐标换算到图形未旋转时的坐标，以及反过来
+const toLocal = (frame: ShapeFrame, point: Point) =>
+  rotatePoint(point, frame.pivot, -frame.angle);
+const toWorld = (frame: ShapeFrame, point: Point) =>
+  rotatePoint(point, frame.pivot, frame.angle);
+
+const getAnchorPoint = (frame: ShapeFrame, [u, v]: [number, number]) =>
+  toWorld(frame, {
+    x: frame.box.x + u * frame.box.width,
+    y: frame.box.y + v * frame.box.height,
+  });
+
+// 从中心指向 toward 的射线与轮廓的交点；toward 在图形内部时取中心
+const getOutlinePoint = (frame: ShapeFrame, toward: Point) => {
+  const center = getCenter(frame);
+  const local = toLocal(frame, toward);
+  const dx = local.x - center.x;
+  const dy = local.y - center.y;
+  const halfWidth = frame.box.width / 2;
+  const halfHeight = frame.box.height / 2;
+  const scale = frame.ellipse
+    ? halfWidth / Math.hypot(dx, dy)
+    : Math.min(
+        dx ? halfWidth / Math.abs(dx) : Infinity,
+        dy ? halfHeight / Math.abs(dy) : Infinity
+      );
+  const ratio = Number.isFinite(scale) && scale < 1 ? scale : 0;
+  return toWorld(frame, {
+    x: center.x + dx * ratio,
+    y: center.y + dy * ratio,
+  });
+};
+
+// 绑定的端点位置；reference 是连接线另一侧的参考点，绑定到中心时用来确定方向
+const getBindingPoint = (
+  binding: ShapeBinding,
+  target: CanvasShape,
+  reference: Point
+) => {
+  const frame = getFrame(target);
+  return binding.anchor
+    ? getAnchorPoint(frame, binding.anchor)
+    : getOutlinePoint(frame, reference);
+};
+
+// 绑定的端点作为另一端的参考点时的位置：固定位置取该点，绑定到中心时取中心
+const getReferencePoint = (binding: ShapeBinding, target: CanvasShape) => {
+  const frame = getFrame(target);
+  return binding.anchor
+    ? getAnchorPoint(frame, binding.anchor)
+    : toWorld(frame, getCenter(frame));
+};
+
+/**
+ * 端点 point 可以绑定到图形 shape 的方式
+ * - 靠近轮廓（距离不超过 tolerance）时绑定到轮廓上最近的位置
+ * - 在图形内部时绑定到中心
+ * @returns 不能绑定时返回 null
+ */
+export const getBindingAt = (
+  shape: CanvasShape,
+  point: Point,
+  tolerance: number
+): ShapeBinding | null => {
+  if (!isBindable(shape)) return null;
+  const frame = getFrame(shape);
+  const { box } = frame;
+  if (!box.width || !box.height) return null;
+
+  const center = getCenter(frame);
+  const local = toLocal(frame, point);
+  const dx = local.x - center.x;
+  const dy = local.y - center.y;
+  const halfWidth = box.width / 2;
+  const halfHeight = box.height / 2;
+
+  let outline: Point;
+  let inside: boolean;
+  let distance: number;
+  if (frame.ellipse) {
+    const length = Math.hypot(dx, dy);
+    inside = length <= halfWidth;
+    distance = Math.abs(length - halfWidth);
+    outline = length
+      ? {
+          x: center.x + (dx / length) * halfWidth,
+          y: center.y + (dy / length) * halfWidth,
+        }
+      : { x: center.x + halfWidth, y: center.y };
+  } else {
+    const overX = Math.abs(dx) - halfWidth;
+    const overY = Math.abs(dy) - halfHeight;
+    inside = overX <= 0 && overY <= 0;
+    if (inside) {
+      // 在内部时吸附到最近的边
+      distance = Math.min(-overX, -overY);
+      outline =
+        -overX < -overY
+          ? { x: center.x + (dx < 0 ? -halfWidth : halfWidth), y: local.y }
+          : { x: local.x, y: center.y + (dy < 0 ? -halfHeight : halfHeight) };
+    } else {
+      distance = Math.hypot(Math.max(overX, 0), Math.max(overY, 0));
+      outline = {
+        x: Math.max(box.x, Math.min(local.x, box.x + box.width)),
+        y: Math.max(box.y, Math.min(local.y, box.y + box.height)),
+      };
+    }
+  }
+
+  if (distance <= tolerance) {
+    return {
+      shapeId: shape.id,
+      anchor: [
+        (outline.x - box.x) / box.width,
+        (outline.y - box.y) / box.height,
+      ],
+    };
+  }
+  return inside ? { shapeId: shape.id, anchor: null } : null;
+};
+
+// 按层叠顺序从上往下查找端点可以绑定的图形，shapes 从下到上排列
+const findBinding = (
+  shapes: CanvasShape[],
+  point: Point,
+  tolerance: number,
+  excludeId?: string
+) => {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    if (shapes[i].id === excludeId) continue;
+    const binding = getBindingAt(shapes[i], point, tolerance);
+    if (binding) return binding;
+  }
+  return null;
+};
+
+/**
+ * 按绑定重新计算连接线的端点
+ * - 只有两个点时以另一端为参考确定方向，折线以相邻的点为参考
+ * - 目标已不存在的绑定被解除，端点留在原处
+ * @returns 需要修改的字段；没有变化时返回 null
+ */
+const getConnectorUpdate = (
+  connector: CanvasShape,
+  shapes: Map<string, CanvasShape>
+): Partial<CanvasShape> | null => {
+  const points = connector.points as number[];
+  const last = points.length - 2;
+  const updates: Partial<CanvasShape> = {};
+
+  const resolve = (key: BindingKey) => {
+    const binding = connector[key];
+    if (!binding) return null;
+    const target = shapes.get(binding.shapeId);
+    if (target && isBindable(target)) return { binding, target };
+    updates[key] = undefined;
+    return null;
+  };
+  const start = resolve("startBinding");
+  const end = resolve("endBinding");
+  const pointAt = (i: number) => ({ x: points[i], y: points[i + 1] });
+
+  const next = [...points];
+  if (start) {
+    const reference =
+      last > 2
+        ? pointAt(2)
+        : end
+          ? getReferencePoint(end.binding, end.target)
+          : pointAt(last);
+    const { x, y } = getBindingPoint(start.binding, start.target, reference);
+    next[0] = x;
+    next[1] = y;
+  }
+  if (end) {
+    const reference =
+      last > 2
+        ? pointAt(last - 2)
+        : start
+          ? getReferencePoint(start.binding, start.target)
+          : pointAt(0);
+    const { x, y } = getBindingPoint(end.binding, end.target, reference);
+    next[last] = x;
+    next[last + 1] = y;
+  }
+
+  if (next.some((value, i) => Math.abs(value - points[i]) > EPSILON)) {
+    updates.points = next;
+    // 箭头和直线的位置跟随起点
+    updates.x = connector.x + next[0] - points[0];
+    updates.y = connector.y + next[1] - points[1];
+  }
+  return Object.keys(updates).length > 0 ? updates : null;
+};
+
+const isBoundTo = (connector: CanvasShape, ids: Set<string>) =>
+  [connector.startBinding, connector.endBinding].some(
+    (binding) => binding !== undefined && ids.has(binding.shapeId)
+  );
+
+/**
+ * 图形修改后需要跟随的连接线：绑定到这些图形的连接线
+ * @returns 连接线 ID → 需要修改的字段
+ */
+export const getConnectorUpdates = (
+  shapes: CanvasShape[],
+  ids: string[]
+): Map<string, Partial<CanvasShape>> => {
+  const changed = new Set(ids);
+  const byId = new Map(shapes.map((shape) => [shape.id, shape]));
+  const updates = new Map<string, Partial<CanvasShape>>();
+  shapes.forEach((shape) => {
+    if (!isConnector(shape)) return;
+    if (!shape.startBinding && !shape.endBinding) return;
+    if (!isBoundTo(shape, changed)) return;
+    const update = getConnectorUpdate(shape, byId);
+    if (update) updates.set(shape.id, update);
+  });
+  return updates;
+};
+
+/**
+ * 连接线本身修改后需要解除的绑定：端点被移动且不再位于绑定的位置时解除该端的绑定
+ * 绑定的目标也在一起移动时保留（例如同时拖动连接线和目标，目标移动后端点会重新对齐）
+ * @param previous 修改前的连接线
+ * @param moving 一起移动的元素 ID
+ * @returns 需要修改的字段；没有需要解除的绑定时返回 null
+ */
+export const getReleaseUpdate = (
+  previous: CanvasShape,
+  shapes: CanvasShape[],
+  moving: Set<string>
+): Partial<CanvasShape> | null => {
+  const connector = shapes.find((shape) => shape.id === previous.id);
+  if (!connector || !isConnector(connector) || !isConnector(previous)) {
+    return null;
+  }
+  const points = connector.points as number[];
+  const before = previous.points as number[];
+  // 端点仍在绑定位置上时，重新对齐不会改变它
+  const snapped =
+    getConnectorUpdate(
+      connector,
+      new Map(shapes.map((shape) => [shape.id, shape]))
+    )?.points ?? points;
+  const isMoved = (i: number, list: number[]) =>
+    Math.abs(list[i] - points[i]) > EPSILON ||
+    Math.abs(list[i + 1] - points[i + 1]) > EPSILON;
+
+  const update: Partial<CanvasShape> = {};
+  const ends: [BindingKey, number][] = [
+    ["startBinding", 0],
+    ["endBinding", points.length - 2],
+  ];
+  ends.forEach(([key, i]) => {
+    const binding = connector[key];
+    if (!binding || moving.has(binding.shapeId)) return;
+    if (before.length !== points.length || isMoved(i, before)) {
+      if (isMoved(i, snapped)) update[key] = undefined;
+    }
+  });
+  return Object.keys(update).length > 0 ? update : null;
+};
+
+/**
+ * 删除元素前解除其余连接线到这些元素的绑定，端点留在原处
+ * @returns 连接线 ID → 需要修改的字段
+ */
+export const getDetachUpdates = (
+  shapes: CanvasShape[],
+  ids: string[]
+): Map<string, Partial<CanvasShape>> => {
+  const removed = new Set(ids);
+  const updates = new Map<string, Partial<CanvasShape>>();
+  shapes.forEach((shape) => {
+    if (removed.has(shape.id)) return;
+    const update: Partial<CanvasShape> = {};
+    (["startBinding", "endBinding"] as BindingKey[]).forEach((key) => {
+      const binding = shape[key];
+      if (binding && removed.has(binding.shapeId)) update[key] = undefined;
+    });
+    if (Object.keys(update).length > 0) updates.set(shape.id, update);
+  });
+  return updates;
+};
+
+/**
+ * 新画出的连接线：端点落在图形上时绑定到该图形，并把端点对齐到绑定的位置
+ * 起点和终点不会绑定到同一个图形
+ * @param shapes 可以绑定的图形，按层叠顺序从下到上排列
+ */
+export const bindConnector = (
+  connector: CanvasShape,
+  shapes: CanvasShape[],
+  tolerance: number
+): CanvasShape => {
+  if (!isConnector(connector)) return connector;
+  const points = connector.points as number[];
+  const last = points.length - 2;
+  const startBinding = findBinding(
+    shapes,
+    { x: points[0], y: points[1] },
+    tolerance
+  );
+  const endBinding = findBinding(
+    shapes,
+    { x: points[last], y: points[last + 1] },
+    tolerance,
+    startBinding?.shapeId
+  );
+  if (!startBinding && !endBinding) return connector;
+
+  const bound = {
+    ...connector,
+    ...(startBinding && { startBinding }),
+    ...(endBinding && { endBinding }),
+  };
+  const update = getConnectorUpdate(
+    bound,
+    new Map(shapes.map((shape) => [shape.id, shape]))
+  );
+  return { ...bound, ...update };
+};
+
+// 元素换成新 ID 后更新绑定：目标一起换了 ID 时指向新 ID，否则解除绑定
+export const remapBindings = (
+  shape: CanvasShape,
+  ids: Map<string, string>
+): CanvasShape => {
+  const { startBinding, endBinding, ...rest } = shape;
+  const remap = (binding?: ShapeBinding) => {
+    if (!binding) return undefined;
+    const shapeId = ids.get(binding.shapeId);
+    return shapeId ? { ...binding, shapeId } : undefined;
+  };
+  const start = remap(startBinding);
+  const end = remap(endBinding);
+  return {
+    ...rest,
+    ...(start && { startBinding: start }),
+    ...(end && { endBinding: end }),
+  };
+};
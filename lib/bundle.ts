@@ -0,0 +1,90 @@
+import type { LayeredContent } from "@/lib/layers";
+import { flattenLayers } from "@/lib/layers";
+import { createThumbnail } from "@/lib/raster-export";
+import type { ParseResult } from "@/lib/document-schema";
+import { createDocument, parseDocument } from "@/lib/document-schema";
+import type { AssetTable } from "@/lib/assets";
+import {
+  decodeDataURL,
+  encodeDataURL,
+  getAssetExtension,
+  getMimeTypeFromName,
+} from "@/lib/assets";
+import { createZip, readZip } from "@/lib/zip";
+
+// .canvascraft 文件：ZIP 压缩包
+// - document.json：画布文档，assets 表中的值是压缩包内的资源文件路径
+// - assets/<哈希>.<扩展名>：图片等资源的原始字节
+// - thumbnail.png：预览图（画布为空时省略）
+
+export const BUNDLE_EXTENSION = "canvascraft";
+
+const DOCUMENT_FILE = "document.json";
+const THUMBNAIL_FILE = "thumbnail.png";
+
+/**
+ * 生成 .canvascraft 文件
+ * @param content 画布内容，assets 为图形引用到的资源（资源 ID → data URL）
+ */
+export const createBundle = async (
+  content: LayeredContent & { assets: AssetTable }
+): Promise<Blob> => {
+  const files: { name: string; data: Uint8Array; compress?: boolean }[] = [];
+  const assetFiles: AssetTable = {};
+  Object.entries(content.assets).forEach(([id, dataURL]) => {
+    const { mimeType, bytes } = decodeDataURL(dataURL);
+    const name = `assets/${id}.${getAssetExtension(mimeType)}`;
+    assetFiles[id] = name;
+    files.push({ name, data: bytes });
+  });
+
+  const document = createDocument({ ...content, assets: assetFiles });
+  files.unshift({
+    name: DOCUMENT_FILE,
+    data: new TextEncoder().encode(JSON.stringify(document, null, 2)),
+    compress: true,
+  });
+
+  const thumbnail = await createThumbnail(flattenLayers(content));
+  if (thumbnail) {
+    files.push({
+      name: THUMBNAIL_FILE,
+      data: new Uint8Array(await thumbnail.arrayBuffer()),
+    });
+  }
+
+  return createZip(files);
+};
+
+/**
+ * 读取 .canvascraft 文件：把资源文件还原为 data URL 后按普通文档迁移和校验
+ */
+export const readBundle = async (buffer: ArrayBuffer): Promise<ParseResult> => {
+  const files = await readZip(buffer);
+  const documentFile = files.get(DOCUMENT_FILE);
+  if (!documentFile) throw new Error(`${DOCUMENT_FILE} is missing in bundle`);
+
+  const text = new TextDecoder().decode(documentFile);
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    // 交给文档解析报告 JSON 错误
+    return parseDocument(text);
+  }
+  if (raw && typeof raw.assets === "object" && raw.assets !== null) {
+    const assets: Record<string, unknown> = {};
+    Object.entries(raw.assets).forEach(([id, value]) => {
+      const data = typeof value === "string" ? files.get(value) : undefined;
+      // 找不到的资源文件保留原值，由文档校验报告并移除引用它的图片
+      assets[id] = data
+        ? encodeDataURL(
+            data,
+            getMimeTypeFromName(value as string) || "application/octet-stream"
+          )
+        : value;
+    });
+    raw.assets = assets;
+  }
+  return parseDocument(raw);
+};
@@ -1,7 +1,109 @@
 import { create } from "zustand";
-import type { CanvasPath, CanvasShape, Tool } from "@/types/canvas";
+import type {
+  CanvasLayer,
+  CanvasPath,
+  CanvasShape,
+  Participant,
+  Tool,
+} from "@/types/canvas";
 import { CollaborationService } from "@/lib/collaboration-service";
-import type { CanvasState } from "@/lib/collaboration-service";
+import type {
+  CanvasState,
+  ConnectionState,
+  PresenceState,
+} from "@/lib/collaboration-service";
+import {
+  downloadBlob,
+  formatBytes,
+  generateRoomId,
+  getThemeBackground,
+} from "@/lib/utils";
+import { toast } from "sonner";
+import { buildHistoryTimelapse, fetchCollabTimelapse } from "@/lib/timelapse";
+import type { TimelapseFrame } from "@/lib/timelapse";
+import { createSVG } from "@/lib/svg-export";
+import type { SVGExportOptions } from "@/lib/svg-export";
+import { createRasterImage, createThumbnail } from "@/lib/raster-export";
+import type { RasterExportOptions } from "@/lib/raster-export";
+import { createPDF } from "@/lib/pdf-export";
+import { parseSVG } from "@/lib/svg-import";
+import { fromExcalidraw, toExcalidraw } from "@/lib/excalidraw";
+import type { ConversionIssue } from "@/lib/excalidraw";
+import { importMermaid } from "@/lib/mermaid-import";
+import {
+  createDocument,
+  parseDocument,
+  summarizeIssues,
+} from "@/lib/document-schema";
+import type { ValidationIssue } from "@/lib/document-schema";
+import {
+  collectAssets,
+  internAssets,
+  registerAsset,
+  registerAssets,
+} from "@/lib/assets";
+import { BUNDLE_EXTENSION, createBundle, readBundle } from "@/lib/bundle";
+import {
+  AUTOSAVE_ID,
+  createDrawingId,
+  openStorage,
+  StorageQuotaError,
+} from "@/lib/storage";
+import type { DrawingMeta, DrawingStorage, StorageUsage } from "@/lib/storage";
+import type { ExportFrame, PDFExportOptions } from "@/lib/pdf-export";
+import {
+  expandBounds,
+  getSceneBounds,
+  pickContent,
+} from "@/lib/scene-renderer";
+import type { SceneBounds } from "@/lib/scene-renderer";
+import {
+  getCanvasObjects,
+  getMoveUpdates,
+  getTopZIndex,
+  getZOrderUpdates,
+  stackOnTop,
+} from "@/lib/z-order";
+import type { ZOrderDirection } from "@/lib/z-order";
+import {
+  groupElements,
+  rotateElement,
+  scaleElement,
+  ungroupElements,
+} from "@/lib/groups";
+import type { ElementUpdate } from "@/lib/groups";
+import {
+  getConnectorUpdates,
+  getDetachUpdates,
+  getReleaseUpdate,
+  remapBindings,
+} from "@/lib/bindings";
+import {
+  assignLayer,
+  createDefaultLayers,
+  createLayer,
+  DEFAULT_LAYER_ID,
+  flattenLayers,
+  getElementLayer,
+  getLayerElementIds,
+  getNextLayerName,
+  isElementEditable,
+} from "@/lib/layers";
+import {
+  applyPatch,
+  createHistoryId,
+  DEFAULT_HISTORY_LIMIT,
+  describePatch,
+  diffCanvas,
+  isPatchEmpty,
+  limitBranches,
+  pruneUnreachable,
+} from "@/lib/history";
+import type {
+  HistoryBranch,
+  HistoryCheckpoint,
+  HistoryEntry,
+} from "@/lib/history";
 
 interface CanvasStore {
   // 基础工具和状态
@@ -27,6 +129,10 @@ interface CanvasStore {
   setShowGrid: (show: boolean) => void;
   snapEnabled: boolean;
   setSnapEnabled: (enable: boolean) => void;
+  showHistoryPanel: boolean;
+  setShowHistoryPanel: (show: boolean) => void;
+  showLayersPanel: boolean;
+  setShowLayersPanel: (show: boolean) => void;
 
   // 画布内容
   paths: CanvasPath[];
@@ -53,6 +159,39 @@ interface CanvasStore {
   clearSelection: () => void;
   deleteSelected: () => void;
 
+  // 层叠顺序（作用于选中的路径和图形）
+  bringForward: () => void;
+  sendBackward: () => void;
+  bringToFront: () => void;
+  sendToBack: () => void;
+
+  // 组合
+  editingGroupId: string | null; // 双击进入的组，点击时选中组内的下一层
+  setEditingGroupId: (id: string | null) => void;
+  groupSelected: () => void;
+  ungroupSelected: () => void;
+  rotateSelected: (degrees: number) => void; // 绕选中内容的中心整体旋转
+  resizeSelected: (from: SceneBounds, to: SceneBounds) => void; // 整体缩放到新的包围框
+
+  // 图层（从下到上）
+  layers: CanvasLayer[];
+  activeLayerId: string; // 新元素所在的图层
+  setActiveLayer: (id: string) => void;
+  addLayer: () => void;
+  updateLayer: (id: string, updates: Partial<Omit<CanvasLayer, "id">>) => void;
+  moveLayer: (id: string, index: number) => void;
+  removeLayer: (id: string) => void; // 同时删除图层中的元素
+  moveSelectedToLayer: (id: string) => void;
+
+  // 大纲
+  updateElements: (ids: string[], updates: ElementUpdate) => void; // 同一修改应用到多个元素，合并为一步
+  // 拖拽排序：移到 targetId 元素的上方或下方，没有 targetId 时移到图层的最上面
+  moveElements: (
+    ids: string[],
+    target: { layerId: string; targetId?: string; position?: "above" | "below" }
+  ) => void;
+  scrollToElements: (ids: string[]) => void; // 元素不在可见区域内时移动画布，使其居中
+
   // 画布变换
   stagePos: { x: number; y: number };
   setStagePos: (pos: { x: number; y: number }) => void;
@@ -65,20 +204,46 @@ interface CanvasStore {
   zoomIn: () => void;
   zoomOut: () => void;
 
-  // 历史记录
-  history: { paths: CanvasPath[]; shapes: CanvasShape[] }[];
+  // 历史记录（只保存每一步的补丁；事务内的多次修改合并为一步）
+  history: HistoryEntry[];
   historyIndex: number;
+  historyLimit: number;
+  setHistoryLimit: (limit: number) => void;
   saveToHistory: () => void;
+  beginTransaction: () => void;
+  commitTransaction: () => void;
+  jumpToHistory: (index: number) => void; // -1 表示回到初始状态
+  historyBranches: HistoryBranch[];
+  switchHistoryBranch: (branchId: string) => void;
+  checkpoints: HistoryCheckpoint[];
+  addCheckpoint: (name: string) => void;
+  removeCheckpoint: (id: string) => void;
+  jumpToCheckpoint: (id: string) => void;
   undo: () => void;
   redo: () => void;
   canUndo: () => boolean;
   canRedo: () => boolean;
 
-  // 本地存储 - 支持单文件和多文件存储
-  saveToLocalStorage: (name?: string) => void;
-  loadFromLocalStorage: (name?: string) => boolean;
-  getSavedDrawings: () => string[];
-  deleteSavedDrawing: (name: string) => void;
+  // 延时回放：不为 null 时画布显示回放帧而不是当前内容
+  timelapseFrames: TimelapseFrame[] | null;
+  timelapseIndex: number;
+  setTimelapseIndex: (index: number) => void;
+  startTimelapse: () => Promise<void>;
+  stopTimelapse: () => void;
+
+  // 本地存储：当前画板防抖自动保存，另可保存为命名画板
+  storageReady: boolean; // 存储已打开并恢复了上次的画板
+  storagePersistent: boolean; // 为 false 时使用内存存储，刷新后丢失
+  storageUsage: StorageUsage | null;
+  saveToStorage: () => void;
+  flushStorage: () => Promise<void>; // 立即写入尚未保存的修改
+  saveDrawing: (name: string) => Promise<boolean>; // 失败时已提示，返回 false
+  loadDrawing: (id: string) => Promise<boolean>;
+  getSavedDrawings: () => Promise<DrawingMeta[]>;
+  deleteSavedDrawing: (id: string) => Promise<void>;
+  renameDrawing: (id: string, name: string) => Promise<void>;
+  duplicateDrawing: (id: string) => Promise<boolean>;
+  newDrawing: () => void; // 清空画布开始新的画板（可撤销）
 
   // 图像功能
   importImage: (
@@ -100,13 +265,27 @@ interface CanvasStore {
   // 协同编辑状态和方法
   isCollaborating: boolean;
   isCollabLoading: boolean;
-  collabError: string | null;
+  connectionState: ConnectionState | null; // 未开启协同时为 null
   canvasId: string;
   collabService: CollaborationService | null;
 
+  // 在线状态：本地用户信息与远程参与者
+  localUser: { name: string; color: string };
+  participants: Participant[];
+  setUserName: (name: string) => void;
+  updateCursor: (cursor: { x: number; y: number } | null) => void;
+
+  // 选区感知与软锁定：被其他用户选中的元素不能再被选中、拖拽或调整大小
+  softLockEnabled: boolean;
+  setSoftLockEnabled: (enabled: boolean) => void;
+  getRemoteSelectionOwner: (id: string) => Participant | null;
+  isLockedByOthers: (id: string) => boolean;
+
   // 协同画布操作
   initializeCollaboration: (canvasId: string) => void;
+  joinCanvas: (canvasId: string, seed?: CanvasState) => Promise<void>;
   toggleCollaboration: () => Promise<void>;
+  createShareRoom: () => Promise<string>;
   collaborativeAddPath: (path: CanvasPath) => void;
   collaborativeAddShape: (shape: CanvasShape) => void;
   collaborativeUpdatePath: (id: string, updates: Partial<CanvasPath>) => void;
@@ -118,35 +297,347 @@ interface CanvasStore {
   // 橡皮擦删除元素
   eraseSelected: (ids: string[]) => void;
 
+  // PDF 导出区域：每个区域导出为一页
+  exportFrames: ExportFrame[];
+  addExportFrame: (source: "selection" | "viewport") => void;
+  removeExportFrame: (id: string) => void;
+  clearExportFrames: () => void;
+
   //JSON导出，追加导入，覆盖导入
   exportToJSON: () => void;
-  additionalImportFromJSON: (json: string) => void;
-  overwriteImportFromJSON: (json: string) => void;
+  exportToSVG: (options?: SVGExportOptions) => void;
+  exportToImage: (
+    options: Omit<RasterExportOptions, "selectedIds" | "viewport">
+  ) => Promise<void>;
+  exportToPDF: (options: PDFExportOptions) => Promise<void>;
+  exportToExcalidraw: () => ConversionIssue[]; // 返回转换时丢失信息的元素
+  exportToBundle: () => Promise<void>; // .canvascraft 压缩包（文档 + 资源 + 预览图）
+  // 返回导入时修复或移除的字段和元素
+  additionalImportFromJSON: (json: string) => Promise<ValidationIssue[]>;
+  overwriteImportFromJSON: (json: string) => Promise<ValidationIssue[]>;
+
+  // 导入其他格式：转换为画布内容后追加或覆盖
+  importContent: (content: CanvasState, mode: "append" | "overwrite") => void;
+  importFromFile: (
+    file: File,
+    mode: "append" | "overwrite"
+  ) => Promise<ConversionIssue[]>;
+  importFromMermaid: (source: string, mode?: "append" | "overwrite") => void;
 }
 
-// 初始化数据加载
-const loadInitialData = () => {
-  if (typeof window === "undefined") {
-    return { paths: [], shapes: [] };
+// 当前可见区域（画布坐标），画布尺寸与窗口一致
+const getViewportBounds = (
+  stagePos: { x: number; y: number },
+  stageScale: number
+) => ({
+  x: -stagePos.x / stageScale,
+  y: -stagePos.y / stageScale,
+  width: window.innerWidth / stageScale,
+  height: window.innerHeight / stageScale,
+});
+
+// 追加导入时为元素生成新ID以避免冲突，连接线的绑定指向新ID
+// 组也换成新ID（每个旧组一个），重复导入的内容不会与已有的组合并
+const withNewIds = (content: CanvasState): CanvasState => {
+  const createId = () => Math.random().toString(36).substring(7);
+  const ids = new Map(
+    [...content.paths, ...content.shapes].map((element) => [
+      element.id,
+      createId(),
+    ])
+  );
+  const groupIds = new Map<string, string>();
+  const remapGroups = (element: CanvasPath | CanvasShape) =>
+    element.groupIds
+      ? {
+          groupIds: element.groupIds.map((groupId) => {
+            if (!groupIds.has(groupId)) groupIds.set(groupId, createId());
+            return groupIds.get(groupId) as string;
+          }),
+        }
+      : {};
+  return {
+    ...content,
+    paths: content.paths.map((path) => ({
+      ...path,
+      ...remapGroups(path),
+      id: ids.get(path.id) as string,
+    })),
+    shapes: content.shapes.map((shape) =>
+      remapBindings(
+        { ...shape, ...remapGroups(shape), id: ids.get(shape.id) as string },
+        ids
+      )
+    ),
+  };
+};
+
+// 新元素放在最上层；没有指定图层时放到当前图层
+const onTop = <T extends CanvasPath | CanvasShape>(
+  element: T,
+  state: Pick<CanvasStore, "paths" | "shapes" | "activeLayerId">
+): T => ({
+  ...element,
+  zIndex: getTopZIndex(state) + 1,
+  layerId: element.layerId ?? state.activeLayerId,
+});
+
+// 批量修改路径和图形：逐个提交以便同步给其他协作者，合并为一步历史记录
+const applyElementUpdates = (
+  get: () => CanvasStore,
+  updates: Map<string, ElementUpdate>
+) => {
+  if (updates.size === 0) return;
+  const {
+    paths,
+    beginTransaction,
+    commitTransaction,
+    collaborativeUpdatePath,
+    collaborativeUpdateShape,
+  } = get();
+  const pathIds = new Set(paths.map((path) => path.id));
+  beginTransaction();
+  updates.forEach((update, id) => {
+    if (pathIds.has(id)) {
+      collaborativeUpdatePath(id, update as Partial<CanvasPath>);
+    } else {
+      collaborativeUpdateShape(id, update as Partial<CanvasShape>);
+    }
+  });
+  commitTransaction();
+};
+
+// 删除元素前解除其余连接线到这些元素的绑定
+const detachBindings = (get: () => CanvasStore, ids: string[]) =>
+  applyElementUpdates(get, getDetachUpdates(get().shapes, ids));
+
+// 调整选中元素的层叠顺序
+const reorderSelection = (
+  get: () => CanvasStore,
+  direction: ZOrderDirection
+) => {
+  const { paths, shapes, layers, selectedIds } = get();
+  const updates = getZOrderUpdates(
+    { paths, shapes, layers },
+    selectedIds,
+    direction
+  );
+  applyElementUpdates(
+    get,
+    new Map([...updates].map(([id, zIndex]) => [id, { zIndex }]))
+  );
+};
+
+// 修改选中元素的组：组合或取消组合
+const regroupSelection = (
+  get: () => CanvasStore,
+  regroup: typeof groupElements
+) => {
+  const { paths, shapes, selectedIds } = get();
+  const updates = regroup({ paths, shapes }, selectedIds);
+  applyElementUpdates(
+    get,
+    new Map([...updates].map(([id, groupIds]) => [id, { groupIds }]))
+  );
+};
+
+// 对选中的每个元素（跳过被其他协作者锁定的元素）应用同一个变换
+const transformSelection = (
+  get: () => CanvasStore,
+  transform: (element: CanvasPath | CanvasShape) => ElementUpdate
+) => {
+  const { paths, shapes, selectedIds, isLockedByOthers } = get();
+  const updates = new Map<string, ElementUpdate>();
+  [...paths, ...shapes].forEach((element) => {
+    if (selectedIds.includes(element.id) && !isLockedByOthers(element.id)) {
+      updates.set(element.id, transform(element));
+    }
+  });
+  applyElementUpdates(get, updates);
+};
+
+// 选中的元素中仍然可以编辑的部分（隐藏或锁定的元素取消选中），没有变化时返回原数组
+const getEditableSelection = (state: CanvasStore, layers: CanvasLayer[]) => {
+  const editable = new Set(
+    [...state.paths, ...state.shapes]
+      .filter((element) => isElementEditable(element, layers))
+      .map((element) => element.id)
+  );
+  return state.selectedIds.every((id) => editable.has(id))
+    ? state.selectedIds
+    : state.selectedIds.filter((id) => editable.has(id));
+};
+
+// 使用新的图层列表：取消选中隐藏或锁定的图层中的元素，当前图层被删除时改为最上面的图层
+const applyLayers = (
+  get: () => CanvasStore,
+  set: (state: Partial<CanvasStore>) => void,
+  layers: CanvasLayer[]
+) => {
+  const { activeLayerId } = get();
+  set({
+    layers,
+    selectedIds: getEditableSelection(get(), layers),
+    activeLayerId: layers.some((layer) => layer.id === activeLayerId)
+      ? activeLayerId
+      : layers[layers.length - 1].id,
+  });
+};
+
+// 本地修改图层列表：同步给其他协作者，写入历史并保存
+const commitLayers = (
+  get: () => CanvasStore,
+  set: (state: Partial<CanvasStore>) => void,
+  layers: CanvasLayer[]
+) => {
+  applyLayers(get, set, layers);
+  const { collabService, isCollaborating } = get();
+  if (collabService && isCollaborating) {
+    collabService.updateLayers(layers);
   }
+  get().saveToHistory();
+  get().saveToStorage();
+};
+
+// 协作者同步过来的图层列表：不进入本地历史，直接更新历史基线
+const receiveLayers = (
+  get: () => CanvasStore,
+  set: (state: Partial<CanvasStore>) => void,
+  layers: CanvasLayer[]
+) => {
+  applyLayers(get, set, layers);
+  historyBaseline = { ...historyBaseline, layers: get().layers };
+};
+
+// 读取本地保存的数据时，把修复或移除的内容输出到控制台
+const reportLoadIssues = (issues: ValidationIssue[]) => {
+  if (issues.length > 0) {
+    console.warn("Repaired invalid elements in saved data:", issues);
+  }
+};
+
+// 画板存储：启动后异步打开（见文件末尾），打开前的保存请求会被忽略
+let storage: DrawingStorage | null = null;
+
+// 自动保存的防抖时间（毫秒），连续修改只写入一次
+const SAVE_DELAY = 500;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// 使用量超过该比例时提示（每次打开页面只提示一次）
+const STORAGE_WARNING_RATIO = 0.9;
+let storageWarningShown = false;
+
+const reportStorageError = (error: unknown) => {
+  console.error("Failed to save drawing:", error);
+  toast.error(
+    error instanceof StorageQuotaError
+      ? "存储空间已满，画布未能保存。请删除不需要的画板，或导出为文件"
+      : "保存失败: " + (error as Error).message,
+    { closeButton: true }
+  );
+};
+
+// 读取存储使用量，接近上限时提示
+const updateStorageUsage = async (
+  set: (state: { storageUsage: StorageUsage | null }) => void
+) => {
+  const storageUsage = await storage?.estimate().catch(() => null);
+  set({ storageUsage: storageUsage || null });
+  if (
+    storageUsage &&
+    storageUsage.quota > 0 &&
+    storageUsage.usage / storageUsage.quota > STORAGE_WARNING_RATIO &&
+    !storageWarningShown
+  ) {
+    storageWarningShown = true;
+    toast.warning("存储空间即将用完", {
+      description: `已使用 ${formatBytes(storageUsage.usage)} / ${formatBytes(storageUsage.quota)}`,
+      closeButton: true,
+    });
+  }
+};
+
+// 历史记录基线：上一次写入历史时的画布内容，新的一步 = 基线到当前内容的补丁
+let historyBaseline: {
+  paths: CanvasPath[];
+  shapes: CanvasShape[];
+  layers: CanvasLayer[];
+} = {
+  paths: [],
+  shapes: [],
+  layers: createDefaultLayers(),
+};
+
+// 当前打开的事务层数，大于 0 时暂不写入历史
+let transactionDepth = 0;
+
+// 按上限丢弃最早的记录（只丢弃当前位置之前的）和超出上限的分支记录，
+// 并清理随之失效的分支和检查点
+const trimHistory = (
+  history: HistoryEntry[],
+  historyIndex: number,
+  historyBranches: HistoryBranch[],
+  checkpoints: HistoryCheckpoint[],
+  limit: number
+) => {
+  const overflow = Math.min(
+    Math.max(0, history.length - limit),
+    historyIndex + 1
+  );
+  const trimmed = overflow > 0 ? history.slice(overflow) : history;
+  return {
+    history: trimmed,
+    historyIndex: historyIndex - overflow,
+    ...pruneUnreachable(
+      trimmed,
+      limitBranches(historyBranches, limit),
+      checkpoints,
+      overflow === 0
+    ),
+  };
+};
+
+// 读取保存的历史步数配置
+const loadHistoryLimit = () => {
+  if (typeof window === "undefined") return DEFAULT_HISTORY_LIMIT;
+  const saved = Number(localStorage.getItem("CanvasCraft-history-limit"));
+  return saved > 0 ? saved : DEFAULT_HISTORY_LIMIT;
+};
+
+// 参与者光标颜色
+const PARTICIPANT_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+// 加载（或生成）本地用户信息
+const loadLocalUser = (): { name: string; color: string } => {
+  const fallback = {
+    name: `用户${Math.floor(Math.random() * 9000) + 1000}`,
+    color:
+      PARTICIPANT_COLORS[Math.floor(Math.random() * PARTICIPANT_COLORS.length)],
+  };
+  if (typeof window === "undefined") return fallback;
 
   try {
-    const savedData = localStorage.getItem("CanvasCraft-canvas-data");
-    if (savedData) {
-      const parsed = JSON.parse(savedData);
-      if (parsed.paths && parsed.shapes) {
-        return { paths: parsed.paths, shapes: parsed.shapes };
-      }
+    const saved = localStorage.getItem("CanvasCraft-user");
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (parsed.name && parsed.color) return parsed;
     }
+    localStorage.setItem("CanvasCraft-user", JSON.stringify(fallback));
   } catch (error) {
-    console.error("Failed to load initial data from localStorage:", error);
+    console.error("Failed to load user profile from localStorage:", error);
   }
-
-  return { paths: [], shapes: [] };
+  return fallback;
 };
 
-const initialData = loadInitialData();
-
 export const useCanvasStore = create<CanvasStore>((set, get) => ({
   // 基础工具和状态
   tool: "pen",
@@ -171,23 +662,38 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   setShowGrid: (showGrid) => set({ showGrid }),
   snapEnabled: true,
   setSnapEnabled: (enable) => set({ snapEnabled: enable }),
+  // 历史面板和图层面板在同一位置，同时只显示一个
+  showHistoryPanel: false,
+  setShowHistoryPanel: (showHistoryPanel) =>
+    set(
+      showHistoryPanel
+        ? { showHistoryPanel, showLayersPanel: false }
+        : { showHistoryPanel }
+    ),
+  showLayersPanel: false,
+  setShowLayersPanel: (showLayersPanel) =>
+    set(
+      showLayersPanel
+        ? { showLayersPanel, showHistoryPanel: false }
+        : { showLayersPanel }
+    ),
 
   // 画布内容
-  paths: initialData.paths,
-  shapes: initialData.shapes,
+  paths: [],
+  shapes: [],
   currentPath: [],
   setCurrentPath: (currentPath) => set({ currentPath }),
 
   // 操作方法
   addPath: (path) => {
-    set((state) => ({ paths: [...state.paths, path] }));
+    set((state) => ({ paths: [...state.paths, onTop(path, state)] }));
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
   addShape: (shape) => {
-    set((state) => ({ shapes: [...state.shapes, shape] }));
+    set((state) => ({ shapes: [...state.shapes, onTop(shape, state)] }));
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
   updatePath: (id, updates) => {
     set((state) => ({
@@ -196,7 +702,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       ),
     }));
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
   updateShape: (id, updates) => {
     set((state) => ({
@@ -205,36 +711,36 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       ),
     }));
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
   deleteShape: (id) => {
     set((state) => ({
       shapes: state.shapes.filter((shape) => shape.id !== id),
     }));
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
   deletePath: (id) => {
     set((state) => ({
       paths: state.paths.filter((path) => path.id !== id),
     }));
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
   clearPaths: () => {
     set({ paths: [] });
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
   clearShapes: () => {
     set({ shapes: [] });
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
   clearCanvas: () => {
     set({ paths: [], shapes: [], selectedIds: [] });
     get().saveToHistory();
-    get().saveToLocalStorage();
+    get().saveToStorage();
   },
 
   // 选择管理
@@ -252,16 +758,152 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       selectedIds: state.selectedIds.filter((selectedId) => selectedId !== id),
     }));
   },
-  clearSelection: () => set({ selectedIds: [] }),
+  // 清除选择时同时退出进入的组
+  clearSelection: () => set({ selectedIds: [], editingGroupId: null }),
   deleteSelected: () => {
-    const { selectedIds } = get();
+    const { selectedIds, beginTransaction, commitTransaction } = get();
+    beginTransaction();
+    detachBindings(get, selectedIds);
     set((state) => ({
       shapes: state.shapes.filter((shape) => !selectedIds.includes(shape.id)),
       paths: state.paths.filter((path) => !selectedIds.includes(path.id)),
       selectedIds: [],
     }));
-    get().saveToHistory();
-    get().saveToLocalStorage();
+    commitTransaction();
+    get().saveToStorage();
+  },
+  bringForward: () => reorderSelection(get, "forward"),
+  sendBackward: () => reorderSelection(get, "backward"),
+  bringToFront: () => reorderSelection(get, "front"),
+  sendToBack: () => reorderSelection(get, "back"),
+
+  // 组合
+  editingGroupId: null,
+  setEditingGroupId: (editingGroupId) => set({ editingGroupId }),
+  groupSelected: () => regroupSelection(get, groupElements),
+  ungroupSelected: () => regroupSelection(get, ungroupElements),
+  rotateSelected: (degrees) => {
+    const { paths, shapes, selectedIds } = get();
+    const bounds = getSceneBounds(pickContent({ paths, shapes }, selectedIds));
+    if (!bounds) return;
+    const center = {
+      x: bounds.x + bounds.width / 2,
+      y: bounds.y + bounds.height / 2,
+    };
+    transformSelection(get, (element) =>
+      rotateElement(element, center, degrees)
+    );
+  },
+  resizeSelected: (from, to) =>
+    transformSelection(get, (element) => scaleElement(element, from, to)),
+
+  // 图层
+  layers: createDefaultLayers(),
+  activeLayerId: DEFAULT_LAYER_ID,
+  setActiveLayer: (activeLayerId) => set({ activeLayerId }),
+  addLayer: () => {
+    const { layers } = get();
+    const layer = createLayer(getNextLayerName(layers));
+    commitLayers(get, set, [...layers, layer]);
+    set({ activeLayerId: layer.id });
+  },
+  updateLayer: (id, updates) =>
+    commitLayers(
+      get,
+      set,
+      get().layers.map((layer) =>
+        layer.id === id ? { ...layer, ...updates } : layer
+      )
+    ),
+  moveLayer: (id, index) => {
+    const { layers } = get();
+    const layer = layers.find((item) => item.id === id);
+    if (!layer || layers[index] === layer) return;
+    const rest = layers.filter((item) => item !== layer);
+    const target = Math.max(0, Math.min(index, rest.length));
+    commitLayers(get, set, [
+      ...rest.slice(0, target),
+      layer,
+      ...rest.slice(target),
+    ]);
+  },
+  removeLayer: (id) => {
+    const {
+      layers,
+      paths,
+      shapes,
+      beginTransaction,
+      commitTransaction,
+      eraseSelected,
+    } = get();
+    // 至少保留一个图层
+    if (layers.length <= 1 || !layers.some((layer) => layer.id === id)) return;
+    // 删除元素和图层合并为一步历史记录
+    const ids = getLayerElementIds({ paths, shapes, layers }, id);
+    beginTransaction();
+    if (ids.length > 0) eraseSelected(ids);
+    commitLayers(
+      get,
+      set,
+      layers.filter((layer) => layer.id !== id)
+    );
+    commitTransaction();
+  },
+  moveSelectedToLayer: (id) => {
+    const { paths, shapes, layers, selectedIds } = get();
+    const target = layers.find((layer) => layer.id === id);
+    // 移到隐藏或锁定的图层后无法再选中，不允许
+    if (!target || !target.visible || target.locked) return;
+    // 移入的元素放在目标图层的最上面，保持原来的先后
+    const top = getTopZIndex({ paths, shapes });
+    const moved = getCanvasObjects({ paths, shapes, layers }).filter(
+      (object) =>
+        selectedIds.includes(object.id) &&
+        getElementLayer(object.data, layers) !== target
+    );
+    applyElementUpdates(
+      get,
+      new Map(
+        moved.map((object, i) => [
+          object.id,
+          { layerId: id, zIndex: top + 1 + i },
+        ])
+      )
+    );
+  },
+
+  // 大纲
+  updateElements: (ids, updates) => {
+    applyElementUpdates(get, new Map(ids.map((id) => [id, updates])));
+    // 隐藏或锁定后取消选中
+    set({ selectedIds: getEditableSelection(get(), get().layers) });
+  },
+  moveElements: (ids, target) => {
+    const { paths, shapes, layers } = get();
+    applyElementUpdates(
+      get,
+      getMoveUpdates({ paths, shapes, layers }, ids, target)
+    );
+    // 移到隐藏或锁定的图层后取消选中
+    set({ selectedIds: getEditableSelection(get(), layers) });
+  },
+  scrollToElements: (ids) => {
+    const { paths, shapes, stagePos, stageScale } = get();
+    const bounds = getSceneBounds(pickContent({ paths, shapes }, ids));
+    if (!bounds) return;
+    const viewport = getViewportBounds(stagePos, stageScale);
+    const isVisible =
+      bounds.x >= viewport.x &&
+      bounds.y >= viewport.y &&
+      bounds.x + bounds.width <= viewport.x + viewport.width &&
+      bounds.y + bounds.height <= viewport.y + viewport.height;
+    if (isVisible) return;
+    set({
+      stagePos: {
+        x: window.innerWidth / 2 - (bounds.x + bounds.width / 2) * stageScale,
+        y: window.innerHeight / 2 - (bounds.y + bounds.height / 2) * stageScale,
+      },
+    });
   },
 
   // 画布变换
@@ -289,189 +931,390 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   // 历史记录
-  history:
-    initialData.paths.length > 0 || initialData.shapes.length > 0
-      ? [{ paths: initialData.paths, shapes: initialData.shapes }]
-      : [],
-  historyIndex:
-    initialData.paths.length > 0 || initialData.shapes.length > 0 ? 0 : -1,
+  history: [],
+  historyIndex: -1,
+  historyLimit: loadHistoryLimit(),
+  setHistoryLimit: (limit) => {
+    const historyLimit = Math.max(1, Math.floor(limit));
+    const { history, historyIndex, historyBranches, checkpoints } = get();
+    set({
+      historyLimit,
+      ...trimHistory(
+        history,
+        historyIndex,
+        historyBranches,
+        checkpoints,
+        historyLimit
+      ),
+    });
+    try {
+      localStorage.setItem("CanvasCraft-history-limit", String(historyLimit));
+    } catch (error) {
+      console.error("Failed to save history limit to localStorage:", error);
+    }
+  },
   saveToHistory: () => {
-    const { paths, shapes, history, historyIndex } = get();
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push({ paths: [...paths], shapes: [...shapes] });
+    // 事务进行中，等事务提交时再统一写入
+    if (transactionDepth > 0) return;
+
+    const {
+      paths,
+      shapes,
+      layers,
+      history,
+      historyIndex,
+      historyBranches,
+      checkpoints,
+      historyLimit,
+    } = get();
+    const patch = diffCanvas(historyBaseline, { paths, shapes, layers });
+    historyBaseline = { paths, shapes, layers };
+    if (isPatchEmpty(patch)) return;
+
+    const entry: HistoryEntry = {
+      id: createHistoryId(),
+      patch,
+      label: describePatch(patch, { paths, shapes }),
+      timestamp: Date.now(),
+    };
 
-    // 保持历史记录不超过 50 条
-    if (newHistory.length > 50) {
-      newHistory.shift();
-    } else {
-      set({ historyIndex: historyIndex + 1 });
+    // 撤销后再编辑时，原来的重做记录保留为分支
+    const redoTail = history.slice(historyIndex + 1);
+    const branches =
+      redoTail.length > 0
+        ? [
+            ...historyBranches,
+            {
+              id: createHistoryId(),
+              forkEntryId: history[historyIndex]?.id ?? null,
+              entries: redoTail,
+              timestamp: Date.now(),
+            },
+          ]
+        : historyBranches;
+
+    set(
+      trimHistory(
+        [...history.slice(0, historyIndex + 1), entry],
+        historyIndex + 1,
+        branches,
+        checkpoints,
+        historyLimit
+      )
+    );
+  },
+  // 开始事务：例如一次拖拽或调整大小，期间的所有修改合并为一步
+  beginTransaction: () => {
+    transactionDepth++;
+  },
+  commitTransaction: () => {
+    if (transactionDepth === 0) return;
+    transactionDepth--;
+    if (transactionDepth === 0) {
+      get().saveToHistory();
+    }
+  },
+  jumpToHistory: (index) => {
+    // 协作时的撤销由协作服务管理，本地历史不可跳转
+    const { history, historyIndex, paths, shapes, layers, isCollaborating } =
+      get();
+    if (isCollaborating) {
+      toast.info("协作时历史记录不可跳转，撤销/重做只作用于自己的操作");
+      return;
+    }
+
+    const target = Math.max(-1, Math.min(index, history.length - 1));
+    if (target === historyIndex) return;
+
+    // 从当前位置逐步撤销或重做到目标位置
+    let content: {
+      paths: CanvasPath[];
+      shapes: CanvasShape[];
+      layers?: CanvasLayer[];
+    } = { paths, shapes, layers };
+    for (let i = historyIndex; i > target; i--) {
+      content = applyPatch(content, history[i].patch, "undo");
+    }
+    for (let i = historyIndex + 1; i <= target; i++) {
+      content = applyPatch(content, history[i].patch, "redo");
     }
 
-    set({ history: newHistory });
+    set({
+      paths: content.paths,
+      shapes: content.shapes,
+      historyIndex: target,
+      selectedIds: [],
+    });
+    applyLayers(get, set, content.layers ?? layers);
+    historyBaseline = { ...content, layers: get().layers };
+    get().saveToStorage();
+  },
+  historyBranches: [],
+  switchHistoryBranch: (branchId) => {
+    const { history, historyBranches, isCollaborating } = get();
+    const branch = historyBranches.find((b) => b.id === branchId);
+    if (!branch) return;
+    if (isCollaborating) {
+      toast.info("协作时历史分支不可切换");
+      return;
+    }
+
+    const forkIndex = history.findIndex((e) => e.id === branch.forkEntryId);
+    if (branch.forkEntryId !== null && forkIndex === -1) {
+      // 分支从另一个分支分出，先切换到那个分支
+      const parent = historyBranches.find((b) =>
+        b.entries.some((e) => e.id === branch.forkEntryId)
+      );
+      if (!parent) return;
+      get().switchHistoryBranch(parent.id);
+      get().switchHistoryBranch(branchId);
+      return;
+    }
+
+    // 回到分叉点，再把当前的后续记录和分支交换
+    get().jumpToHistory(forkIndex);
+    const current = get();
+    const tail = current.history.slice(forkIndex + 1);
+    const remaining = current.historyBranches.filter((b) => b.id !== branchId);
+    set({
+      history: [...current.history.slice(0, forkIndex + 1), ...branch.entries],
+      historyBranches:
+        tail.length > 0
+          ? [
+              ...remaining,
+              {
+                id: createHistoryId(),
+                forkEntryId: branch.forkEntryId,
+                entries: tail,
+                timestamp: Date.now(),
+              },
+            ]
+          : remaining,
+    });
+    get().jumpToHistory(forkIndex + branch.entries.length);
+  },
+  checkpoints: [],
+  addCheckpoint: (name) => {
+    const { history, historyIndex, checkpoints } = get();
+    set({
+      checkpoints: [
+        ...checkpoints,
+        {
+          id: createHistoryId(),
+          name,
+          entryId: history[historyIndex]?.id ?? null,
+          timestamp: Date.now(),
+        },
+      ],
+    });
+  },
+  removeCheckpoint: (id) => {
+    set((state) => ({
+      checkpoints: state.checkpoints.filter((c) => c.id !== id),
+    }));
+  },
+  jumpToCheckpoint: (id) => {
+    const { history, historyBranches, checkpoints } = get();
+    const checkpoint = checkpoints.find((c) => c.id === id);
+    if (!checkpoint) return;
+
+    // 检查点在其他分支上时，先切换到该分支
+    const { entryId } = checkpoint;
+    if (entryId !== null && !history.some((e) => e.id === entryId)) {
+      const branch = historyBranches.find((b) =>
+        b.entries.some((e) => e.id === entryId)
+      );
+      if (!branch) return;
+      get().switchHistoryBranch(branch.id);
+    }
+    get().jumpToHistory(get().history.findIndex((e) => e.id === entryId));
   },
   undo: () => {
-    const { history, historyIndex } = get();
-    if (historyIndex > 0) {
-      const prevState = history[historyIndex - 1];
-      set({
-        paths: [...prevState.paths],
-        shapes: [...prevState.shapes],
-        historyIndex: historyIndex - 1,
-        selectedIds: [],
-      });
-      get().saveToLocalStorage();
+    // 协作时只撤销本地用户自己的操作
+    const { collabService, isCollaborating } = get();
+    if (collabService && isCollaborating) {
+      collabService.undo();
+      return;
     }
+    get().jumpToHistory(get().historyIndex - 1);
   },
   redo: () => {
-    const { history, historyIndex } = get();
-    if (historyIndex < history.length - 1) {
-      const nextState = history[historyIndex + 1];
-      set({
-        paths: [...nextState.paths],
-        shapes: [...nextState.shapes],
-        historyIndex: historyIndex + 1,
-        selectedIds: [],
-      });
-      get().saveToLocalStorage();
+    const { collabService, isCollaborating } = get();
+    if (collabService && isCollaborating) {
+      collabService.redo();
+      return;
     }
+    get().jumpToHistory(get().historyIndex + 1);
+  },
+  canUndo: () => {
+    const { collabService, isCollaborating } = get();
+    if (collabService && isCollaborating) return collabService.canUndo();
+    return get().historyIndex >= 0;
+  },
+  canRedo: () => {
+    const { collabService, isCollaborating } = get();
+    if (collabService && isCollaborating) return collabService.canRedo();
+    return get().historyIndex < get().history.length - 1;
   },
-  canUndo: () => get().historyIndex > 0,
-  canRedo: () => get().historyIndex < get().history.length - 1,
 
-  // 本地存储 - 支持单文件和多文件存储
-  saveToLocalStorage: (name?: string) => {
-    if (typeof window === "undefined") {
-      return;
+  // 延时回放
+  timelapseFrames: null,
+  timelapseIndex: 0,
+  setTimelapseIndex: (timelapseIndex) => set({ timelapseIndex }),
+  startTimelapse: async () => {
+    const {
+      isCollaborating,
+      canvasId,
+      history,
+      historyIndex,
+      paths,
+      shapes,
+      layers,
+    } = get();
+    // 协作时使用服务器上的操作日志，包含所有成员的操作
+    const frames =
+      isCollaborating && canvasId
+        ? await fetchCollabTimelapse(canvasId)
+        : buildHistoryTimelapse(history, historyIndex, {
+            paths,
+            shapes,
+            layers,
+          });
+    set({ timelapseFrames: frames, timelapseIndex: 0, selectedIds: [] });
+  },
+  stopTimelapse: () => set({ timelapseFrames: null, timelapseIndex: 0 }),
+
+  // 本地存储
+  storageReady: false,
+  storagePersistent: true,
+  storageUsage: null,
+  saveToStorage: () => {
+    if (!storage) return;
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+      get().flushStorage();
+    }, SAVE_DELAY);
+  },
+  flushStorage: async () => {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
     }
+    if (!storage) return;
 
+    const { paths, shapes, layers } = get();
     try {
-      const { paths, shapes } = get();
-      const dataToSave = { paths, shapes };
-
-      // 如果提供了名称，使用多文件存储模式
-      if (name) {
-        const exportData = {
-          version: "1.0",
-          timestamp: new Date().toISOString(),
-          paths,
-          shapes,
-        };
-        const jsonData = JSON.stringify(exportData, null, 2);
-        const savedDrawings = JSON.parse(
-          localStorage.getItem("excalidraw-drawings") || "{}"
-        );
-        savedDrawings[name] = {
-          data: jsonData,
-          timestamp: new Date().toISOString(),
-        };
-        localStorage.setItem(
-          "excalidraw-drawings",
-          JSON.stringify(savedDrawings)
-        );
-      } else {
-        // 否则使用单文件存储模式
-        localStorage.setItem(
-          "CanvasCraft-canvas-data",
-          JSON.stringify(dataToSave)
-        );
-      }
+      await storage.save(AUTOSAVE_ID, "", {
+        paths,
+        shapes,
+        assets: collectAssets(shapes),
+        layers,
+      });
+      await updateStorageUsage(set);
     } catch (error) {
-      console.error("Failed to save data to localStorage:", error);
+      reportStorageError(error);
     }
   },
-  loadFromLocalStorage: (name?: string) => {
-    try {
-      if (typeof window === "undefined") {
-        return false;
-      }
+  saveDrawing: async (name) => {
+    if (!storage) return false;
 
-      // 如果提供了名称，使用多文件加载模式
-      if (name) {
-        const savedDrawings = JSON.parse(
-          localStorage.getItem("excalidraw-drawings") || "{}"
-        );
-        const drawing = savedDrawings[name];
-
-        if (drawing && drawing.data) {
-          // 直接解析数据
-          const data = JSON.parse(drawing.data);
-
-          if (
-            !data.paths ||
-            !data.shapes ||
-            !Array.isArray(data.paths) ||
-            !Array.isArray(data.shapes)
-          ) {
-            return false;
-          }
-
-          set({
-            paths: data.paths,
-            shapes: data.shapes,
-            selectedIds: [],
-          });
+    const { paths, shapes, layers } = get();
+    try {
+      // 同名画板直接覆盖
+      const existing = (await storage.list()).find(
+        (drawing) => drawing.id !== AUTOSAVE_ID && drawing.name === name
+      );
+      // 预览图生成失败（例如图片跨域）不影响保存
+      const thumbnail = await createThumbnail(
+        flattenLayers({ paths, shapes, layers }),
+        320
+      ).catch(() => null);
+      await storage.save(
+        existing?.id || createDrawingId(),
+        name,
+        { paths, shapes, assets: collectAssets(shapes), layers },
+        thumbnail || undefined
+      );
+      await updateStorageUsage(set);
+      return true;
+    } catch (error) {
+      reportStorageError(error);
+      return false;
+    }
+  },
+  loadDrawing: async (id) => {
+    if (!storage) return false;
 
-          get().saveToHistory();
-          return true;
-        }
-        return false;
-      } else {
-        // 否则使用单文件加载模式
-        const savedData = localStorage.getItem("CanvasCraft-canvas-data");
-        if (savedData) {
-          const parsed = JSON.parse(savedData);
-          if (parsed.paths && parsed.shapes) {
-            set({
-              paths: parsed.paths,
-              shapes: parsed.shapes,
-              selectedIds: [],
-            });
-            get().saveToHistory();
-            return true;
-          }
-        }
-        return false;
-      }
+    try {
+      const drawing = await storage.load(id);
+      if (!drawing) return false;
+      reportLoadIssues(drawing.issues);
+      registerAssets(drawing.document.assets);
+      set({
+        paths: drawing.document.paths,
+        shapes: drawing.document.shapes,
+        selectedIds: [],
+      });
+      applyLayers(get, set, drawing.document.layers);
+      get().saveToHistory();
+      get().saveToStorage();
+      return true;
     } catch (error) {
-      console.error("Failed to load data from localStorage:", error);
+      console.error("Failed to load drawing:", error);
       return false;
     }
   },
-  getSavedDrawings: () => {
+  getSavedDrawings: async () => {
+    if (!storage) return [];
     try {
-      if (typeof window === "undefined") {
-        return [];
-      }
-      const savedDrawings = JSON.parse(
-        localStorage.getItem("excalidraw-drawings") || "{}"
+      // 自动保存的当前画板不在列表中
+      return (await storage.list()).filter(
+        (drawing) => drawing.id !== AUTOSAVE_ID
       );
-      return Object.keys(savedDrawings).sort((a, b) => {
-        const timeA = new Date(savedDrawings[a].timestamp).getTime();
-        const timeB = new Date(savedDrawings[b].timestamp).getTime();
-        return timeB - timeA;
-      });
     } catch (error) {
       console.error("Failed to get saved drawings:", error);
       return [];
     }
   },
-  deleteSavedDrawing: (name: string) => {
+  deleteSavedDrawing: async (id) => {
+    if (!storage) return;
     try {
-      if (typeof window === "undefined") {
-        return;
-      }
-      const savedDrawings = JSON.parse(
-        localStorage.getItem("excalidraw-drawings") || "{}"
-      );
-      delete savedDrawings[name];
-      localStorage.setItem(
-        "excalidraw-drawings",
-        JSON.stringify(savedDrawings)
-      );
+      await storage.remove(id);
+      await updateStorageUsage(set);
     } catch (error) {
       console.error("Failed to delete saved drawing:", error);
     }
   },
+  renameDrawing: async (id, name) => {
+    if (!storage) return;
+    await storage.rename(id, name);
+  },
+  duplicateDrawing: async (id) => {
+    if (!storage) return false;
+    try {
+      const drawing = await storage.load(id);
+      if (!drawing) return false;
+      await storage.save(
+        createDrawingId(),
+        `${drawing.meta.name} 副本`,
+        drawing.document,
+        drawing.meta.thumbnail
+      );
+      await updateStorageUsage(set);
+      return true;
+    } catch (error) {
+      reportStorageError(error);
+      return false;
+    }
+  },
+  newDrawing: () => {
+    const { beginTransaction, commitTransaction } = get();
+    beginTransaction();
+    get().collaborativeClearCanvas();
+    commitLayers(get, set, createDefaultLayers());
+    commitTransaction();
+    set({ stagePos: { x: 0, y: 0 }, stageScale: 1 });
+  },
 
   // 图像功能
   importImage: (src, x, y, width, height) => {
@@ -482,7 +1325,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       y,
       width,
       height,
-      src,
+      src: registerAsset(src), // 图片数据存入资源表，图形只保存引用
       stroke: "#000000",
       strokeWidth: 2,
       opacity: 1,
@@ -507,16 +1350,53 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   // 协同编辑方法
-  setPaths: (paths) => set({ paths }),
-  setShapes: (shapes) => set({ shapes }),
+  // 远程同步的内容不进入本地历史，直接更新历史基线
+  setPaths: (paths) => {
+    set({ paths });
+    historyBaseline = { ...historyBaseline, paths };
+  },
+  setShapes: (shapes) => {
+    set({ shapes });
+    historyBaseline = { ...historyBaseline, shapes };
+  },
 
   // 协同编辑状态
   isCollaborating: false,
   isCollabLoading: false,
-  collabError: null,
+  connectionState: null,
   canvasId: "default-canvas",
   collabService: null,
 
+  // 在线状态
+  localUser: loadLocalUser(),
+  participants: [],
+  setUserName: (name) => {
+    const localUser = { ...get().localUser, name };
+    set({ localUser });
+    get().collabService?.setPresence({ name });
+    try {
+      localStorage.setItem("CanvasCraft-user", JSON.stringify(localUser));
+    } catch (error) {
+      console.error("Failed to save user profile to localStorage:", error);
+    }
+  },
+  updateCursor: (cursor) => {
+    const { collabService, isCollaborating } = get();
+    if (collabService && isCollaborating) {
+      collabService.setPresence({ cursor });
+    }
+  },
+
+  // 选区感知与软锁定
+  softLockEnabled: true,
+  setSoftLockEnabled: (softLockEnabled) => set({ softLockEnabled }),
+  getRemoteSelectionOwner: (id) =>
+    get().participants.find((participant) =>
+      participant.selectedIds.includes(id)
+    ) || null,
+  isLockedByOthers: (id) =>
+    get().softLockEnabled && get().getRemoteSelectionOwner(id) !== null,
+
   initializeCollaboration: (canvasId: string) => {
     if (typeof window === "undefined") return;
 
@@ -527,56 +1407,109 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
     }
 
     const service = new CollaborationService(canvasId);
-    set({ collabService: service, canvasId, isCollaborating: false });
+    set({
+      collabService: service,
+      canvasId,
+      isCollaborating: false,
+      connectionState: null,
+      participants: [],
+    });
   },
 
-  toggleCollaboration: async () => {
-    const { collabService, isCollaborating, setPaths, setShapes } = get();
-    if (!collabService) {
-      // 如果还没有初始化服务，先初始化
-      get().initializeCollaboration("default-canvas");
-      return;
-    }
+  // 加入指定房间：每次都创建新的服务实例，已关闭的连接无法复用
+  joinCanvas: async (canvasId: string, seed?: CanvasState) => {
+    if (typeof window === "undefined") return;
+
+    get().initializeCollaboration(canvasId);
+    const { collabService, setPaths, setShapes } = get();
+    if (!collabService) return;
 
     // 定义状态变化回调函数
     const stateChangeCallback = (state: CanvasState) => {
+      registerAssets(state.assets);
       setPaths(state.paths);
       setShapes(state.shapes);
+      if (Array.isArray(state.layers) && state.layers.length > 0) {
+        receiveLayers(get, set, state.layers);
+      }
     };
 
-    if (isCollaborating) {
-      // 关闭协同
+    // 开启协同（带加载和错误处理），连接状态由服务实时推送
+    collabService.onConnectionStateChanged((connectionState) =>
+      set({ connectionState })
+    );
+    set({
+      isCollabLoading: true,
+      connectionState: collabService.getConnectionState(),
+    });
+
+    try {
+      collabService.onStateChanged(stateChangeCallback);
+      collabService.onPresenceChanged((participants) => set({ participants }));
+      // 触发连接（通过订阅文档实现），同时开始广播本地在线状态
+      const profile: PresenceState = {
+        ...get().localUser,
+        cursor: null,
+        selectedIds: get().selectedIds,
+      };
+      await collabService.subscribe(seed, profile);
+
+      // 连接成功后同步初始状态
+      const initialState = collabService.getCurrentState();
+      registerAssets(initialState.assets);
+      setPaths(initialState.paths);
+      setShapes(initialState.shapes);
+      // 旧的协作文档没有图层，沿用本地的图层列表
+      if (
+        Array.isArray(initialState.layers) &&
+        initialState.layers.length > 0
+      ) {
+        receiveLayers(get, set, initialState.layers);
+      }
+      set({
+        isCollaborating: true,
+        selectedIds: [],
+      });
+    } catch (err) {
+      set({ connectionState: "offline" });
+      console.error("协同连接失败:", err);
+    } finally {
+      set({ isCollabLoading: false });
+    }
+  },
+
+  toggleCollaboration: async () => {
+    const { collabService, isCollaborating, isCollabLoading, canvasId } = get();
+
+    if ((isCollaborating || isCollabLoading) && collabService) {
+      // 关闭协同（连接中时也可取消）
       collabService.disconnect();
-      set({ isCollaborating: false, collabError: null });
+      set({
+        isCollaborating: false,
+        isCollabLoading: false,
+        connectionState: null,
+        participants: [],
+      });
     } else {
-      // 开启协同（带加载和错误处理）
-      set({ isCollabLoading: true, collabError: null });
-
-      try {
-        collabService.onStateChanged(stateChangeCallback);
-        // 触发连接（通过订阅文档实现）
-        await collabService.subscribe();
-
-        // 连接成功后同步初始状态
-        const initialState = collabService.getCurrentState();
-        setPaths(initialState.paths);
-        setShapes(initialState.shapes);
-        set({
-          isCollaborating: true,
-        });
-      } catch (err) {
-        set({ collabError: "协同连接失败，请重试" });
-        console.error("协同连接失败:", err);
-      } finally {
-        set({ isCollabLoading: false });
-      }
+      await get().joinCanvas(canvasId);
     }
   },
 
+  // 新建分享房间：以当前画布内容作为房间初始内容并加入，返回房间 ID
+  // 等初始内容被服务器确认后才返回，之后跳转到房间地址时断开连接也不会丢失
+  createShareRoom: async () => {
+    const { paths, shapes, layers } = get();
+    const roomId = generateRoomId();
+    await get().joinCanvas(roomId, { paths, shapes, layers });
+    const { collabService, isCollaborating } = get();
+    if (collabService && isCollaborating) await collabService.flush();
+    return roomId;
+  },
+
   collaborativeAddPath: (path: CanvasPath) => {
     const { collabService, isCollaborating, addPath } = get();
     if (collabService && isCollaborating) {
-      collabService.addPath(path);
+      collabService.addPath(onTop(path, get()));
     } else {
       addPath(path);
     }
@@ -585,7 +1518,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   collaborativeAddShape: (shape: CanvasShape) => {
     const { collabService, isCollaborating, addShape } = get();
     if (collabService && isCollaborating) {
-      collabService.addShape(shape);
+      collabService.addShape(onTop(shape, get()));
     } else {
       addShape(shape);
     }
@@ -602,13 +1535,29 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   collaborativeUpdateShape: (id: string, updates: Partial<CanvasShape>) => {
-    const { collabService, isCollaborating, updateShape } = get();
+    const {
+      collabService,
+      isCollaborating,
+      updateShape,
+      beginTransaction,
+      commitTransaction,
+    } = get();
+    const previous = get().shapes.find((shape) => shape.id === id);
+    beginTransaction();
     if (collabService && isCollaborating) {
       collabService.updateShape(id, updates);
       updateShape(id, updates);
     } else {
       updateShape(id, updates);
     }
+    // 修改的是连接线本身时，离开目标的端点解除绑定（与选中的目标一起拖动时保留）
+    const release =
+      previous &&
+      getReleaseUpdate(previous, get().shapes, new Set(get().selectedIds));
+    if (release) applyElementUpdates(get, new Map([[id, release]]));
+    // 绑定到该图形的连接线跟随移动
+    applyElementUpdates(get, getConnectorUpdates(get().shapes, [id]));
+    commitTransaction();
   },
 
   collaborativeDeleteSelected: () => {
@@ -636,11 +1585,25 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
     if (collabService) {
       collabService.disconnect();
     }
-    set({ isCollaborating: false, collabService: null });
+    set({
+      isCollaborating: false,
+      collabService: null,
+      connectionState: null,
+      participants: [],
+    });
   },
 
   eraseSelected: (ids: string[]) => {
-    const { collabService, isCollaborating, deletePath, deleteShape } = get();
+    const {
+      collabService,
+      isCollaborating,
+      deletePath,
+      deleteShape,
+      beginTransaction,
+      commitTransaction,
+    } = get();
+    beginTransaction();
+    detachBindings(get, ids);
     if (collabService && isCollaborating) {
       collabService.deleteSelected(ids);
       ids.forEach((id) => {
@@ -661,62 +1624,116 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
         }
       });
     }
+    commitTransaction();
   },
 
   // 导出功能
+  // 文档格式（JSON、.canvascraft）保存完整的图层；
+  // 其他格式只导出可见图层，元素透明度乘以图层透明度
   exportToJSON: async () => {
-    const { paths, shapes } = get();
-    const dataToExport = {
-      version: "1.0",
-      timestamp: new Date().toISOString(),
-      paths: [...paths],
-      shapes: [...shapes],
-    };
+    const { paths, shapes, layers } = get();
+    const dataToExport = createDocument({
+      paths,
+      shapes,
+      assets: collectAssets(shapes),
+      layers,
+    });
 
     const jsonString = JSON.stringify(dataToExport, null, 2);
     const blob = new Blob([jsonString], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `canvas-export-${new Date().getTime()}.json`;
-    document.body.appendChild(a);
-    a.click();
+    downloadBlob(blob, `canvas-export-${new Date().getTime()}.json`);
+  },
+  exportToSVG: (options) => {
+    const { paths, shapes, layers } = get();
+    const svg = createSVG(flattenLayers({ paths, shapes, layers }), options);
+    const blob = new Blob([svg], { type: "image/svg+xml" });
+    downloadBlob(blob, `canvas-export-${new Date().getTime()}.svg`);
+  },
+  exportToImage: async (options) => {
+    const { paths, shapes, layers, selectedIds, stagePos, stageScale } = get();
+    const viewport = getViewportBounds(stagePos, stageScale);
+    const blob = await createRasterImage(
+      flattenLayers({ paths, shapes, layers }),
+      { ...options, selectedIds, viewport }
+    );
+    const extension = options.format === "jpeg" ? "jpg" : options.format;
+    downloadBlob(blob, `canvas-export-${new Date().getTime()}.${extension}`);
+  },
+  exportToPDF: async (options) => {
+    const { paths, shapes, layers } = get();
+    const blob = await createPDF(
+      flattenLayers({ paths, shapes, layers }),
+      options
+    );
+    downloadBlob(blob, `canvas-export-${new Date().getTime()}.pdf`);
+  },
+  exportToExcalidraw: () => {
+    const { paths, shapes, layers } = get();
+    const { data, issues } = toExcalidraw(
+      flattenLayers({ paths, shapes, layers })
+    );
+    const blob = new Blob([JSON.stringify(data, null, 2)], {
+      type: "application/json",
+    });
+    downloadBlob(blob, `canvas-export-${new Date().getTime()}.excalidraw`);
+    return issues;
+  },
+  exportToBundle: async () => {
+    const { paths, shapes, layers } = get();
+    const blob = await createBundle({
+      paths,
+      shapes,
+      assets: collectAssets(shapes),
+      layers,
+    });
+    downloadBlob(
+      blob,
+      `canvas-export-${new Date().getTime()}.${BUNDLE_EXTENSION}`
+    );
+  },
 
-    // 清理
-    setTimeout(() => {
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    }, 0);
+  exportFrames: [],
+  addExportFrame: (source) => {
+    const { paths, shapes, selectedIds, stagePos, stageScale, exportFrames } =
+      get();
+    let bounds = getViewportBounds(stagePos, stageScale);
+    if (source === "selection") {
+      const selected = getSceneBounds(
+        pickContent({ paths, shapes }, selectedIds)
+      );
+      if (!selected) return;
+      bounds = expandBounds(selected, 20);
+    }
+    set({
+      exportFrames: [
+        ...exportFrames,
+        {
+          id: createHistoryId(),
+          name: `区域 ${exportFrames.length + 1}`,
+          bounds,
+        },
+      ],
+    });
   },
+  removeExportFrame: (id) =>
+    set((state) => ({
+      exportFrames: state.exportFrames.filter((frame) => frame.id !== id),
+    })),
+  clearExportFrames: () => set({ exportFrames: [] }),
 
   // 导入功能
   additionalImportFromJSON: async (jsonData: string) => {
     try {
-      const parsed = JSON.parse(jsonData);
-
-      // 验证导入数据格式
-      if (
-        !parsed.paths ||
-        !parsed.shapes ||
-        !Array.isArray(parsed.paths) ||
-        !Array.isArray(parsed.shapes)
-      ) {
-        throw new Error(
-          "Invalid JSON format - missing or invalid paths/shapes"
-        );
-      }
-
-      // 为导入的元素生成新ID以避免冲突
-      const newPaths = parsed.paths.map((path: CanvasPath) => ({
-        ...path,
-        id: Math.random().toString(36).substring(7), // 生成新ID
-      }));
-
-      const newShapes = parsed.shapes.map((shape: CanvasShape) => ({
-        ...shape,
-        id: Math.random().toString(36).substring(7), // 生成新ID
-      }));
+      // 迁移旧版本并校验所有元素
+      const { document: parsed, issues } = parseDocument(jsonData);
+      registerAssets(parsed.assets);
+
+      // 为导入的元素生成新ID以避免冲突，并放在当前图层中现有内容之上
+      // （导入文档的图层不保留，所有元素都放到当前图层）
+      const { paths: newPaths, shapes: newShapes } = assignLayer(
+        stackOnTop(withNewIds(parsed), get()),
+        get().activeLayerId
+      );
 
       // 追加到现有内容
       set((state) => ({
@@ -726,9 +1743,9 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
 
       // 保存到历史记录和本地存储
       get().saveToHistory();
-      get().saveToLocalStorage();
+      get().saveToStorage();
 
-      return true;
+      return issues;
     } catch (error) {
       console.error("Failed to import JSON data:", error);
       throw error; // 允许调用者处理错误
@@ -736,35 +1753,163 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
   overwriteImportFromJSON: async (jsonData: string) => {
     try {
-      const parsed = JSON.parse(jsonData);
-
-      // 验证导入数据格式
-      if (
-        !parsed.paths ||
-        !parsed.shapes ||
-        !Array.isArray(parsed.paths) ||
-        !Array.isArray(parsed.shapes)
-      ) {
-        throw new Error(
-          "Invalid JSON format - missing or invalid paths/shapes"
-        );
-      }
+      // 迁移旧版本并校验所有元素
+      const { document: parsed, issues } = parseDocument(jsonData);
+      registerAssets(parsed.assets);
 
-      // 直接覆盖现有内容
+      // 直接覆盖现有内容（包括图层）
       set({
         paths: [...parsed.paths],
         shapes: [...parsed.shapes],
         selectedIds: [], // 清除选择
       });
+      commitLayers(get, set, parsed.layers);
 
       // 保存到历史记录和本地存储
       get().saveToHistory();
-      get().saveToLocalStorage();
+      get().saveToStorage();
 
-      return true;
+      return issues;
     } catch (error) {
       console.error("Failed to import JSON data:", error);
       throw error; // 允许调用者处理错误
     }
   },
+  importContent: (imported, mode) => {
+    // 内嵌的图片数据存入资源表，追加时换成新ID并放在当前图层中现有内容之上
+    const content =
+      mode === "append"
+        ? assignLayer(
+            stackOnTop(withNewIds(internAssets(imported)), get()),
+            get().activeLayerId
+          )
+        : internAssets(imported);
+    // 追加时选中导入的元素，方便整体移动
+    set((state) =>
+      mode === "append"
+        ? {
+            paths: [...state.paths, ...content.paths],
+            shapes: [...state.shapes, ...content.shapes],
+            selectedIds: [
+              ...content.paths.map((path) => path.id),
+              ...content.shapes.map((shape) => shape.id),
+            ],
+          }
+        : {
+            paths: [...content.paths],
+            shapes: [...content.shapes],
+            selectedIds: [],
+          }
+    );
+    // 覆盖时使用导入内容的图层，没有图层的格式（SVG、Excalidraw 等）重置为默认图层
+    if (mode === "overwrite") {
+      commitLayers(get, set, content.layers ?? createDefaultLayers());
+    }
+
+    // 保存到历史记录和本地存储
+    get().saveToHistory();
+    get().saveToStorage();
+  },
+  importFromFile: async (file, mode) => {
+    if (/\.canvascraft$/i.test(file.name)) {
+      const { document, issues } = await readBundle(await file.arrayBuffer());
+      registerAssets(document.assets);
+      get().importContent(document, mode);
+      return summarizeIssues(issues);
+    }
+
+    const text = await file.text();
+    if (/\.svg$/i.test(file.name) || file.type === "image/svg+xml") {
+      get().importContent(parseSVG(text), mode);
+    } else if (/\.(mmd|mermaid)$/i.test(file.name)) {
+      get().importFromMermaid(text, mode);
+    } else if (/\.excalidraw$/i.test(file.name)) {
+      const { data, issues } = fromExcalidraw(text);
+      get().importContent(data, mode);
+      return issues;
+    } else if (mode === "append") {
+      return summarizeIssues(await get().additionalImportFromJSON(text));
+    } else {
+      return summarizeIssues(await get().overwriteImportFromJSON(text));
+    }
+    return [];
+  },
+  importFromMermaid: (source, mode = "append") => {
+    const { stagePos, stageScale, strokeColor } = get();
+    // 放在当前可见区域的中心
+    const viewport = getViewportBounds(stagePos, stageScale);
+    const content = importMermaid(source, {
+      center: {
+        x: viewport.x + viewport.width / 2,
+        y: viewport.y + viewport.height / 2,
+      },
+      stroke: strokeColor,
+      labelBackground: getThemeBackground(),
+    });
+    get().importContent(content, mode);
+  },
 }));
+
+// 选区变化时通过在线状态广播给其他协作者
+useCanvasStore.subscribe((state, prevState) => {
+  if (
+    state.selectedIds !== prevState.selectedIds &&
+    state.collabService &&
+    state.isCollaborating
+  ) {
+    state.collabService.setPresence({ selectedIds: state.selectedIds });
+  }
+});
+
+// 启动时打开画板存储（迁移旧版 localStorage 数据），并恢复自动保存的画板
+const restoreFromStorage = async () => {
+  const opened = await openStorage();
+  storage = opened.storage;
+
+  try {
+    const drawing = await storage.load(AUTOSAVE_ID);
+    const state = useCanvasStore.getState();
+    // 正在加入或已加入协作房间、或已经开始绘制时不再覆盖
+    // （首页也会创建未连接的协作服务实例，不能按实例是否存在判断）
+    const isUntouched =
+      !state.isCollaborating &&
+      !state.isCollabLoading &&
+      state.paths.length === 0 &&
+      state.shapes.length === 0;
+    if (drawing && isUntouched) {
+      reportLoadIssues(drawing.issues);
+      registerAssets(drawing.document.assets);
+      const { paths, shapes, layers } = drawing.document;
+      historyBaseline = { paths, shapes, layers };
+      useCanvasStore.setState({
+        paths,
+        shapes,
+        layers,
+        activeLayerId: layers[layers.length - 1].id,
+      });
+    }
+  } catch (error) {
+    console.error("Failed to restore saved canvas:", error);
+  }
+
+  useCanvasStore.setState({
+    storageReady: true,
+    storagePersistent: opened.persistent,
+  });
+  await updateStorageUsage(useCanvasStore.setState);
+  if (!opened.persistent) {
+    toast.warning("无法打开浏览器数据库，刷新页面后本次的修改会丢失", {
+      closeButton: true,
+    });
+  }
+};
+
+if (typeof window !== "undefined") {
+  restoreFromStorage();
+  // 页面切到后台或关闭前立即写入，避免丢失防抖期间的修改
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") {
+      useCanvasStore.getState().flushStorage();
+    }
+  });
+}
@@ -1,59 +1,225 @@
 import ShareDB from "sharedb/lib/client";
 import ReconnectingWebSocket from "reconnecting-websocket";
-import type { CanvasShape, CanvasPath } from "@/types/canvas";
+import type {
+  CanvasLayer,
+  CanvasShape,
+  CanvasPath,
+  Participant,
+} from "@/types/canvas";
+import type { AssetTable } from "@/lib/assets";
+import { collectAssets, getAsset, getAssetId, isAssetRef } from "@/lib/assets";
+import { createDefaultLayers } from "@/lib/layers";
+import { DEFAULT_HISTORY_LIMIT } from "@/lib/history";
 
 export interface CanvasState {
   paths: CanvasPath[];
   shapes: CanvasShape[];
+  assets?: AssetTable; // 图片引用的资源，协作文档中只增不删
+  layers?: CanvasLayer[]; // 图层列表，旧的协作文档中没有
 }
 
+// 协作连接状态
+// - connecting：首次连接中，文档尚未加载
+// - online：已连接且所有本地修改都已同步
+// - offline：连接已断开，本地修改暂存，重连后同步
+// - resyncing：重连后正在提交离线期间的修改
+export type ConnectionState = "connecting" | "online" | "offline" | "resyncing";
+
+// 通过在线状态频道广播的本地用户信息
+export type PresenceState = Omit<Participant, "id">;
+
+// 在线状态的最小发送间隔（毫秒），避免光标移动时发送过多消息
+const PRESENCE_THROTTLE = 40;
+
+// 协作撤销：间隔小于该值（毫秒）的连续本地操作合并为一步（例如一次拖拽）
+const UNDO_MERGE_DELAY = 500;
+
+// 撤销栈中的一步：ops 为可直接提交的逆操作
+interface UndoEntry {
+  ops: any[];
+  time: number;
+}
+
+const json0 = ShareDB.types.defaultType;
+
+// 压入撤销/重做栈，超过上限时丢弃最早的步骤
+// 栈中的每一步都要对到达的远程操作做变换，不限制大小时内存和计算量会一直增长
+const pushEntry = (stack: UndoEntry[], entry: UndoEntry) => {
+  stack.push(entry);
+  if (stack.length > DEFAULT_HISTORY_LIMIT) {
+    stack.splice(0, stack.length - DEFAULT_HISTORY_LIMIT);
+  }
+};
+
+// 把图层列表从 current 变为 next 的 json0 操作，每个操作的下标基于之前的操作执行后的列表
+const getLayerOps = (current: CanvasLayer[], next: CanvasLayer[]) => {
+  const ops: any[] = [];
+  const nextIds = new Set(next.map((layer) => layer.id));
+  const list = [...current];
+
+  // 从后往前删除不再存在的图层
+  for (let index = list.length - 1; index >= 0; index--) {
+    if (!nextIds.has(list[index].id)) {
+      ops.push({ p: ["layers", index], ld: list[index] });
+      list.splice(index, 1);
+    }
+  }
+
+  // 从前往后把每个位置调整为目标图层：新图层插入，已有图层移动后对比属性
+  next.forEach((layer, index) => {
+    const from = list.findIndex((item) => item.id === layer.id);
+    if (from === -1) {
+      ops.push({ p: ["layers", index], li: layer });
+      list.splice(index, 0, layer);
+      return;
+    }
+    const [previous] = list.splice(from, 1);
+    list.splice(index, 0, previous);
+    if (from !== index) ops.push({ p: ["layers", from], lm: index });
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(layer)]);
+    keys.forEach((key) => {
+      const before = (previous as any)[key];
+      const after = (layer as any)[key];
+      if (JSON.stringify(before) === JSON.stringify(after)) return;
+      const operation: any = { p: ["layers", index, key] };
+      if (key in previous) operation.od = before;
+      if (key in layer) operation.oi = after;
+      ops.push(operation);
+    });
+  });
+
+  return ops;
+};
+
+// 协作服务器地址，可通过环境变量 NEXT_PUBLIC_COLLAB_URL 配置
+export const COLLAB_SERVER_URL =
+  process.env.NEXT_PUBLIC_COLLAB_URL || "ws://localhost:8080";
+
 export class CollaborationService {
   private connection: ShareDB.Connection;
   private doc: ShareDB.Doc<CanvasState>;
   private onStateChange: ((state: CanvasState) => void) | null = null;
   private isConnected = false;
 
-  constructor(private canvasId: string) {
+  // 连接状态与文档加载前的待执行操作队列
+  private connectionState: ConnectionState = "connecting";
+  private onConnectionStateChange: ((state: ConnectionState) => void) | null =
+    null;
+  private pendingActions: (() => void)[] = [];
+
+  // 本地用户自己的撤销/重做栈，远程操作到达时会对其做变换
+  private undoStack: UndoEntry[] = [];
+  private redoStack: UndoEntry[] = [];
+
+  // 在线状态：与 canvases 文档同名的独立频道
+  private presence: ShareDB.Presence<PresenceState>;
+  private localPresence: ShareDB.LocalPresence<PresenceState> | null = null;
+  private localPresenceState: PresenceState | null = null;
+  private remotePresences = new Map<string, PresenceState>();
+  private onPresenceChange: ((participants: Participant[]) => void) | null =
+    null;
+  private lastPresenceSubmit = 0;
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private canvasId: string,
+    serverUrl: string = COLLAB_SERVER_URL
+  ) {
     // 连接到WebSocket服务器
-    const socket = new ReconnectingWebSocket("ws://localhost:8080");
+    const socket = new ReconnectingWebSocket(serverUrl);
     this.connection = new ShareDB.Connection(socket as any);
 
     // 获取或创建文档
     this.doc = this.connection.get("canvases", canvasId);
+    this.presence = this.connection.getPresence(`canvases.${canvasId}`);
 
     this.setupEventListeners();
   }
 
+  // 文档由 subscribe() 加载和初始化，这里只注册事件
   private setupEventListeners() {
-    // 文档加载完成
-    this.doc.subscribe((err) => {
-      if (err) throw err;
+    // 底层连接状态变化（断线、重连）
+    this.connection.on("state", (state) => {
+      this.handleConnectionState(state);
+    });
 
-      // 如果文档不存在，初始化它
-      if (!this.doc.data) {
-        this.doc.create({ paths: [], shapes: [] });
+    // 远程操作触发本地更新，并变换本地撤销/重做栈使其仍可应用
+    this.doc.on("op", (op: any[], source: any) => {
+      if (!source) {
+        this.undoStack = this.transformStack(this.undoStack, op);
+        this.redoStack = this.transformStack(this.redoStack, op);
       }
+      this.notifyStateChange();
+    });
 
-      // 初始化时确保 paths 和 shapes 均为数组（新增逻辑）
-      if (!Array.isArray(this.doc.data?.paths)) {
-        this.doc.submitOp([{ p: ["paths"], oi: [] }]);
-      }
-      if (!Array.isArray(this.doc.data?.shapes)) {
-        this.doc.submitOp([{ p: ["shapes"], oi: [] }]);
+    // 远程用户在线状态变化（value 为 null 表示该用户已离开）
+    this.presence.on("receive", (id, value) => {
+      if (value) {
+        this.remotePresences.set(id, value);
+      } else {
+        this.remotePresences.delete(id);
       }
+      this.notifyPresenceChange();
+    });
 
-      this.isConnected = true;
-      this.notifyStateChange();
+    this.presence.on("error", (err) => {
+      console.error("在线状态同步出错:", err);
     });
+  }
 
-    // 远程操作触发本地更新
-    this.doc.on("op", () => {
-      this.notifyStateChange();
+  private notifyPresenceChange() {
+    this.onPresenceChange?.(this.getParticipants());
+  }
+
+  // 获取所有远程参与者
+  getParticipants(): Participant[] {
+    return Array.from(this.remotePresences.entries()).map(([id, value]) => ({
+      id,
+      ...value,
+      selectedIds: value.selectedIds || [],
+    }));
+  }
+
+  // 注册在线状态变化回调
+  onPresenceChanged(callback: (participants: Participant[]) => void) {
+    this.onPresenceChange = callback;
+  }
+
+  // 更新并广播本地在线状态（节流发送，保证最后一次更新一定会发出）
+  setPresence(updates: Partial<PresenceState>) {
+    if (!this.localPresence || !this.localPresenceState) return;
+
+    this.localPresenceState = { ...this.localPresenceState, ...updates };
+
+    if (this.presenceTimer) return;
+    const wait = PRESENCE_THROTTLE - (Date.now() - this.lastPresenceSubmit);
+    if (wait <= 0) {
+      this.submitPresence();
+    } else {
+      this.presenceTimer = setTimeout(() => this.submitPresence(), wait);
+    }
+  }
+
+  private submitPresence() {
+    this.presenceTimer = null;
+    this.lastPresenceSubmit = Date.now();
+    this.localPresence?.submit(this.localPresenceState, (err) => {
+      if (err) console.error("发送在线状态失败:", err);
     });
   }
 
   // 订阅文档并初始化（如果需要）
-  subscribe(): Promise<void> {
+  // seed：房间为空时用于填充的初始内容（例如新建分享房间时带上当前画布）
+  // profile：本地用户的在线状态，订阅成功后开始广播
+  subscribe(seed?: CanvasState, profile?: PresenceState): Promise<void> {
+    if (profile) {
+      this.presence.subscribe();
+      this.localPresence = this.presence.create();
+      this.localPresenceState = profile;
+      this.submitPresence();
+    }
+
     return new Promise((resolve, reject) => {
       this.doc.subscribe((err) => {
         if (err) {
@@ -62,7 +228,12 @@ export class CollaborationService {
         }
         // 如果文档不存在，初始化它
         if (!this.doc.data) {
-          this.doc.create({ paths: [], shapes: [] });
+          this.doc.create({
+            paths: seed ? [...seed.paths] : [],
+            shapes: seed ? [...seed.shapes] : [],
+            assets: seed ? collectAssets(seed.shapes) : {},
+            layers: seed?.layers ?? createDefaultLayers(),
+          });
         } else {
           // 订阅时双重校验数组类型（修改逻辑）
           const ops = [];
@@ -75,14 +246,90 @@ export class CollaborationService {
           if (ops.length > 0) {
             this.doc.submitOp(ops);
           }
+
+          // 文档已由其他途径创建但仍为空时，逐个插入初始内容
+          if (
+            seed &&
+            this.doc.data.paths.length === 0 &&
+            this.doc.data.shapes.length === 0
+          ) {
+            seed.paths.forEach((path) =>
+              this.insertElement("paths", path, false)
+            );
+            seed.shapes.forEach((shape) =>
+              this.insertElement("shapes", shape, false)
+            );
+            if (seed.layers && !Array.isArray(this.doc.data.layers)) {
+              this.doc.submitOp([{ p: ["layers"], oi: seed.layers }]);
+            }
+          }
         }
-        this.isConnected = true;
-        this.notifyStateChange();
+        this.markReady();
         resolve();
       });
     });
   }
 
+  // 文档加载完成：重放排队的操作，并更新连接状态
+  private markReady() {
+    if (!this.isConnected) {
+      this.isConnected = true;
+      const actions = this.pendingActions;
+      this.pendingActions = [];
+      actions.forEach((action) => action());
+    }
+    this.handleConnectionState(this.connection.state);
+    this.notifyStateChange();
+  }
+
+  private handleConnectionState(state: string) {
+    switch (state) {
+      case "connecting":
+        this.setConnectionState(this.isConnected ? "resyncing" : "connecting");
+        break;
+      case "connected":
+        // 文档尚未加载时继续等待订阅完成
+        if (!this.isConnected) break;
+        if (this.doc.hasPending()) {
+          this.setConnectionState("resyncing");
+        }
+        // ShareDB 会在重连后自动提交离线期间的操作，全部确认后即为在线
+        this.doc.whenNothingPending(() => {
+          if (this.connection.state === "connected") {
+            this.setConnectionState("online");
+          }
+        });
+        break;
+      default:
+        // disconnected / closed / stopped
+        this.setConnectionState("offline");
+    }
+  }
+
+  private setConnectionState(state: ConnectionState) {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.onConnectionStateChange?.(state);
+  }
+
+  // 获取当前连接状态
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  // 注册连接状态变化回调
+  onConnectionStateChanged(callback: (state: ConnectionState) => void) {
+    this.onConnectionStateChange = callback;
+  }
+
+  // 文档尚未加载时把操作放入队列，加载完成后按顺序重放（返回 true 表示已排队）。
+  // 文档加载后即使连接断开，ShareDB 也会先在本地应用操作，并在重连后自动提交。
+  private queueUntilReady(action: () => void): boolean {
+    if (this.hasConnected() && this.doc.data) return false;
+    this.pendingActions.push(action);
+    return true;
+  }
+
   // 新增：统一的状态变化通知方法
   private notifyStateChange() {
     // 确保状态变化回调被调用，即使数据看起来没有变化
@@ -95,6 +342,11 @@ export class CollaborationService {
     this.onStateChange?.(newState);
   }
 
+  // 等待所有本地修改（包括创建文档）都被服务器确认
+  flush(): Promise<void> {
+    return new Promise((resolve) => this.doc.whenNothingPending(resolve));
+  }
+
   // 判断是否已连接
   hasConnected(): boolean {
     return this.isConnected;
@@ -118,12 +370,25 @@ export class CollaborationService {
 
   // 新增：断开连接并清理资源
   disconnect() {
+    // 通知其他用户本地用户已离开，并停止接收在线状态
+    if (this.presenceTimer) {
+      clearTimeout(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+    this.localPresence?.destroy();
+    this.localPresence = null;
+    this.localPresenceState = null;
+    this.presence.destroy();
+    this.remotePresences.clear();
+    this.onPresenceChange = null;
+
     // 取消文档订阅
     if (this.doc.subscribed) {
       this.doc.unsubscribe();
     }
 
-    // 关闭 ShareDB 连接
+    // 关闭 ShareDB 连接（先移除回调，主动关闭不算作离线）
+    this.onConnectionStateChange = null;
     if (this.connection) {
       this.connection.close();
     }
@@ -131,73 +396,156 @@ export class CollaborationService {
     // 重置状态
     this.isConnected = false;
     this.onStateChange = null;
+    this.onConnectionStateChange = null;
+    this.pendingActions = [];
+  }
+
+  // 提交本地操作，并记录其逆操作供撤销使用
+  private submit(ops: any[]) {
+    const inverse = json0.invert(JSON.parse(JSON.stringify(ops)));
+    this.doc.submitOp(ops);
+
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && now - last.time < UNDO_MERGE_DELAY) {
+      // 先撤销新操作，再撤销之前合并的操作
+      last.ops = [...inverse, ...last.ops];
+      last.time = now;
+    } else {
+      pushEntry(this.undoStack, { ops: inverse, time: now });
+    }
+    this.redoStack = [];
+  }
+
+  // 将栈中的逆操作依次对远程操作做变换（从栈顶开始，远程操作同时向下传递）
+  private transformStack(stack: UndoEntry[], remoteOp: any[]): UndoEntry[] {
+    const result = [...stack];
+    let op = remoteOp;
+    for (let i = result.length - 1; i >= 0 && op.length > 0; i--) {
+      const ops = result[i].ops;
+      result[i] = { ...result[i], ops: json0.transform(ops, op, "left") };
+      op = json0.transform(op, ops, "right");
+    }
+    // 完全被远程操作抵消的步骤（例如撤销添加一个已被他人删除的元素）直接丢弃
+    return result.filter((entry) => entry.ops.length > 0);
+  }
+
+  // 从一个栈弹出并提交逆操作，同时把其逆操作压入另一个栈
+  private applyHistoryEntry(from: UndoEntry[], to: UndoEntry[]): boolean {
+    const entry = from.pop();
+    if (!entry || !this.hasConnected() || !this.doc.data) return false;
+
+    try {
+      this.doc.submitOp(entry.ops);
+      pushEntry(to, { ops: json0.invert(entry.ops), time: 0 });
+      this.notifyStateChange();
+      return true;
+    } catch (error) {
+      console.error("撤销/重做失败:", error);
+      return false;
+    }
+  }
+
+  // 撤销本地用户自己的最近一步操作，不影响其他协作者的修改
+  undo(): boolean {
+    return this.applyHistoryEntry(this.undoStack, this.redoStack);
+  }
+
+  // 重做本地用户最近撤销的一步操作
+  redo(): boolean {
+    return this.applyHistoryEntry(this.redoStack, this.undoStack);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // 确保集合字段是数组，必要时先初始化为空数组
+  private ensureList(key: "paths" | "shapes"): boolean {
+    if (!this.doc.data) return false;
+    if (!Array.isArray(this.doc.data[key])) {
+      this.doc.submitOp([{ p: [key], oi: [] }]);
+    }
+    return Array.isArray(this.doc.data[key]);
+  }
+
+  // 按 id 在当前快照中查找元素下标（提交操作时再查找，保证基于最新的远程状态）
+  private indexOfElement(key: "paths" | "shapes", id: string): number {
+    const list = this.doc.data?.[key];
+    if (!Array.isArray(list)) return -1;
+    return (list as { id: string }[]).findIndex((item) => item.id === id);
+  }
+
+  // 图片引用的资源不在协作文档中时先写入
+  // 资源不进入撤销栈：撤销插入图片后，其他协作者可能仍在引用同一资源
+  private ensureAsset(src: string | undefined) {
+    if (!isAssetRef(src) || !this.doc.data) return;
+    const id = getAssetId(src);
+    const dataURL = getAsset(id);
+    if (!dataURL) return;
+    const assets = this.doc.data.assets;
+    if (!assets || typeof assets !== "object" || Array.isArray(assets)) {
+      this.doc.submitOp([{ p: ["assets"], oi: { [id]: dataURL } }]);
+    } else if (!assets[id]) {
+      this.doc.submitOp([{ p: ["assets", id], oi: dataURL }]);
+    }
+  }
+
+  // 以列表插入操作（li）追加元素，并发插入会被 json0 变换合并而不是互相覆盖
+  // undoable：是否记录到本地撤销栈（填充房间初始内容时不记录）
+  private insertElement(
+    key: "paths" | "shapes",
+    element: CanvasPath | CanvasShape,
+    undoable = true
+  ) {
+    if (!this.ensureList(key)) return;
+    if (key === "shapes") this.ensureAsset((element as CanvasShape).src);
+    const list = this.doc.data![key];
+    const ops = [{ p: [key, list.length], li: element }];
+    if (undoable) {
+      this.submit(ops);
+    } else {
+      this.doc.submitOp(ops);
+    }
   }
 
   // 添加新路径
   addPath(path: CanvasPath) {
-    if (!this.hasConnected() || !this.doc.data) return; // 未连接时直接返回
+    // 文档未加载时排队，加载完成后重放
+    if (this.queueUntilReady(() => this.addPath(path))) return;
+    if (!this.doc.data) return;
 
     try {
-      // 首先检查 paths 是否存在且为数组
-      if (!this.doc.data.paths || !Array.isArray(this.doc.data.paths)) {
-        // 如果 paths 不存在或不是数组，使用替换操作确保它是一个数组
-        this.doc.submitOp([{ p: ["paths"], oi: [path] }]);
-      } else {
-        // 即使 paths 看起来是数组，我们也使用更安全的方法
-        // 1. 先读取当前 paths 数组
-        const currentPaths = [...this.doc.data.paths];
-        // 2. 添加新路径
-        currentPaths.push(path);
-        // 3. 使用替换操作整个替换 paths 数组
-        this.doc.submitOp([{ p: ["paths"], oi: currentPaths }]);
-      }
+      this.insertElement("paths", path);
       this.notifyStateChange();
     } catch (error) {
       console.error("添加路径时出错:", error);
-      // 如果出错，尝试直接初始化并添加
-      try {
-        this.doc.submitOp([{ p: ["paths"], oi: [path] }]);
-        this.notifyStateChange();
-      } catch (retryError) {
-        console.error("重试添加路径失败:", retryError);
-      }
     }
   }
 
   // 添加新形状
   addShape(shape: CanvasShape) {
-    if (!this.hasConnected() || !this.doc.data) return; // 未连接时直接返回
+    // 文档未加载时排队，加载完成后重放
+    if (this.queueUntilReady(() => this.addShape(shape))) return;
+    if (!this.doc.data) return;
 
     try {
-      // 首先检查 shapes 是否存在且为数组
-      if (!this.doc.data.shapes || !Array.isArray(this.doc.data.shapes)) {
-        // 如果 shapes 不存在或不是数组，使用替换操作确保它是一个数组
-        this.doc.submitOp([{ p: ["shapes"], oi: [shape] }]);
-      } else {
-        // 即使 shapes 看起来是数组，我们也使用更安全的方法
-        // 1. 先读取当前 shapes 数组
-        const currentShapes = [...this.doc.data.shapes];
-        // 2. 添加新形状
-        currentShapes.push(shape);
-        // 3. 使用替换操作整个替换 shapes 数组
-        this.doc.submitOp([{ p: ["shapes"], oi: currentShapes }]);
-      }
+      this.insertElement("shapes", shape);
       this.notifyStateChange();
     } catch (error) {
       console.error("添加形状时出错:", error);
-      // 如果出错，尝试直接初始化并添加
-      try {
-        this.doc.submitOp([{ p: ["shapes"], oi: [shape] }]);
-        this.notifyStateChange();
-      } catch (retryError) {
-        console.error("重试添加形状失败:", retryError);
-      }
     }
   }
 
   // 更新路径
   updatePath(id: string, updates: Partial<CanvasPath>) {
-    if (!this.hasConnected() || !this.doc.data) return; // 未连接时直接返回
+    // 文档未加载时排队，加载完成后重放
+    if (this.queueUntilReady(() => this.updatePath(id, updates))) return;
+    if (!this.doc.data) return;
 
     try {
       // 确保 paths 是数组
@@ -207,7 +555,7 @@ export class CollaborationService {
       }
 
       const paths = this.doc.data.paths;
-      const index = paths.findIndex((path) => path.id === id);
+      const index = this.indexOfElement("paths", id);
       if (index === -1) {
         console.warn(`未找到 ID 为 ${id} 的路径`);
         return;
@@ -243,9 +591,9 @@ export class CollaborationService {
             // 递归处理嵌套对象
             processUpdates(value, target[key], currentPath);
           } else {
-            // 创建更新操作 - 确保路径中的所有元素都是字符串
+            // 创建更新操作 - 列表下标保持为数字，json0 才能针对并发的 li/ld 变换下标
             const operation: any = {
-              p: currentPath.map((item) => String(item)), // 转换所有元素为字符串
+              p: currentPath,
               oi: value, // 新值
             };
 
@@ -264,67 +612,19 @@ export class CollaborationService {
 
       // 提交操作到 ShareDB
       if (ops.length > 0) {
-        this.doc.submitOp(ops);
+        this.submit(ops);
         this.notifyStateChange();
       }
     } catch (error) {
       console.error("更新路径时出错:", error);
-
-      // 尝试更安全的方式：复制整个数组进行修改后替换（回退策略）
-      try {
-        if (this.doc.data?.paths && Array.isArray(this.doc.data.paths)) {
-          const updatedPaths = [...this.doc.data.paths];
-          const index = updatedPaths.findIndex((path) => path.id === id);
-          if (index !== -1 && updatedPaths[index]) {
-            // 创建一个新的路径对象，深度合并现有属性和更新的属性
-            const deepMerge = (target: any, source: any): any => {
-              const output = { ...target };
-              if (
-                target &&
-                source &&
-                typeof target === "object" &&
-                typeof source === "object"
-              ) {
-                Object.keys(source).forEach((key) => {
-                  if (
-                    source[key] &&
-                    typeof source[key] === "object" &&
-                    !Array.isArray(source[key])
-                  ) {
-                    if (!(key in target))
-                      Object.assign(output, { [key]: source[key] });
-                    else output[key] = deepMerge(target[key], source[key]);
-                  } else {
-                    Object.assign(output, { [key]: source[key] });
-                  }
-                });
-              }
-              return output;
-            };
-
-            // 深度合并更新
-            updatedPaths[index] = deepMerge(updatedPaths[index], updates);
-
-            // 使用替换操作更新整个数组
-            this.doc.submitOp([
-              {
-                p: ["paths"],
-                oi: updatedPaths,
-                od: this.doc.data.paths, // 提供旧数组作为上下文
-              },
-            ]);
-            this.notifyStateChange();
-          }
-        }
-      } catch (retryError) {
-        console.error("重试更新路径失败:", retryError);
-      }
     }
   }
 
   // 更新形状
   updateShape(id: string, updates: Partial<CanvasShape>) {
-    if (!this.hasConnected() || !this.doc.data) return; // 未连接时直接返回
+    // 文档未加载时排队，加载完成后重放
+    if (this.queueUntilReady(() => this.updateShape(id, updates))) return;
+    if (!this.doc.data) return;
 
     try {
       // 确保 shapes 是数组
@@ -334,7 +634,7 @@ export class CollaborationService {
       }
 
       const shapes = this.doc.data.shapes;
-      const index = shapes.findIndex((shape) => shape.id === id);
+      const index = this.indexOfElement("shapes", id);
       if (index === -1) {
         console.warn(`未找到 ID 为 ${id} 的形状`);
         return;
@@ -345,6 +645,7 @@ export class CollaborationService {
         console.warn(`形状索引 ${index} 对应的对象不存在`);
         return;
       }
+      this.ensureAsset(updates.src);
 
       // 为每个要更新的属性创建操作
       const ops: any[] = [];
@@ -370,9 +671,9 @@ export class CollaborationService {
             // 递归处理嵌套对象
             processUpdates(value, target[key], currentPath);
           } else {
-            // 创建更新操作 - 确保路径中的所有元素都是字符串
+            // 创建更新操作 - 列表下标保持为数字，json0 才能针对并发的 li/ld 变换下标
             const operation: any = {
-              p: currentPath.map((item) => String(item)), // 转换所有元素为字符串
+              p: currentPath,
               oi: value, // 新值
             };
 
@@ -391,130 +692,79 @@ export class CollaborationService {
 
       // 提交操作到 ShareDB
       if (ops.length > 0) {
-        this.doc.submitOp(ops);
+        this.submit(ops);
         this.notifyStateChange();
       }
     } catch (error) {
       console.error("更新形状时出错:", error);
-
-      // 尝试更安全的方式：复制整个数组进行修改后替换（回退策略）
-      try {
-        if (this.doc.data?.shapes && Array.isArray(this.doc.data.shapes)) {
-          const updatedShapes = [...this.doc.data.shapes];
-          const index = updatedShapes.findIndex((shape) => shape.id === id);
-          if (index !== -1 && updatedShapes[index]) {
-            // 创建一个新的形状对象，深度合并现有属性和更新的属性
-            const deepMerge = (target: any, source: any): any => {
-              const output = { ...target };
-              if (
-                target &&
-                source &&
-                typeof target === "object" &&
-                typeof source === "object"
-              ) {
-                Object.keys(source).forEach((key) => {
-                  if (
-                    source[key] &&
-                    typeof source[key] === "object" &&
-                    !Array.isArray(source[key])
-                  ) {
-                    if (!(key in target))
-                      Object.assign(output, { [key]: source[key] });
-                    else output[key] = deepMerge(target[key], source[key]);
-                  } else {
-                    Object.assign(output, { [key]: source[key] });
-                  }
-                });
-              }
-              return output;
-            };
-
-            // 深度合并更新
-            updatedShapes[index] = deepMerge(updatedShapes[index], updates);
-
-            // 使用替换操作更新整个数组
-            this.doc.submitOp([
-              {
-                p: ["shapes"],
-                oi: updatedShapes,
-                od: this.doc.data.shapes, // 提供旧数组作为上下文
-              },
-            ]);
-            this.notifyStateChange();
-          }
-        }
-      } catch (retryError) {
-        console.error("重试更新形状失败:", retryError);
-      }
     }
   }
 
   // 删除选中的元素
   deleteSelected(ids: string[]) {
-    if (!this.hasConnected() || !this.doc.data) return; // 未连接时直接返回
+    // 文档未加载时排队，加载完成后重放
+    if (this.queueUntilReady(() => this.deleteSelected(ids))) return;
+    if (!this.doc.data) return;
 
     try {
-      // 确保 paths 和 shapes 都是数组
-      const safePaths =
-        this.doc.data.paths && Array.isArray(this.doc.data.paths)
-          ? this.doc.data.paths
-          : [];
-      const safeShapes =
-        this.doc.data.shapes && Array.isArray(this.doc.data.shapes)
-          ? this.doc.data.shapes
-          : [];
-
-      // 创建新数组，过滤掉要删除的元素
-      const newPaths = safePaths.filter((path) => !ids.includes(path.id));
-      const newShapes = safeShapes.filter((shape) => !ids.includes(shape.id));
-
-      // 使用替换操作更新整个数组
-      const ops = [];
-      if (newPaths.length !== safePaths.length) {
-        ops.push({ p: ["paths"], oi: newPaths });
-      }
-      if (newShapes.length !== safeShapes.length) {
-        ops.push({ p: ["shapes"], oi: newShapes });
-      }
+      const ops: any[] = [];
+      (["paths", "shapes"] as const).forEach((key) => {
+        const list = this.doc.data![key];
+        if (!Array.isArray(list)) return;
+
+        // 提交时按 id 查找下标，并从后往前删除，保证同一批操作中的下标依然有效
+        const indexes = ids
+          .map((id) => this.indexOfElement(key, id))
+          .filter((index) => index !== -1)
+          .sort((a, b) => b - a);
+
+        indexes.forEach((index) => {
+          ops.push({ p: [key, index], ld: list[index] });
+        });
+      });
 
       if (ops.length > 0) {
-        this.doc.submitOp(ops);
+        this.submit(ops);
         this.notifyStateChange();
       }
     } catch (error) {
       console.error("删除元素时出错:", error);
+    }
+  }
 
-      // 尝试更简单的方式：直接清空并重建（仅作为最后手段）
-      try {
-        const safePaths =
-          this.doc.data.paths && Array.isArray(this.doc.data.paths)
-            ? this.doc.data.paths.filter((path) => !ids.includes(path.id))
-            : [];
-        const safeShapes =
-          this.doc.data.shapes && Array.isArray(this.doc.data.shapes)
-            ? this.doc.data.shapes.filter((shape) => !ids.includes(shape.id))
-            : [];
-
-        this.doc.submitOp([
-          { p: ["paths"], oi: safePaths },
-          { p: ["shapes"], oi: safeShapes },
-        ]);
+  // 更新图层列表：按图层 ID 对比，逐个删除、插入、移动图层并修改变化的属性，
+  // 并发修改不同图层（或同一图层的不同属性）时都能保留，修改也进入撤销栈
+  updateLayers(layers: CanvasLayer[]) {
+    // 文档未加载时排队，加载完成后重放
+    if (this.queueUntilReady(() => this.updateLayers(layers))) return;
+    if (!this.doc.data) return;
+
+    try {
+      // 旧的协作文档中没有图层列表，先补上默认图层（不进入撤销栈）
+      if (!Array.isArray(this.doc.data.layers)) {
+        this.doc.submitOp([{ p: ["layers"], oi: createDefaultLayers() }]);
+      }
+      const ops = getLayerOps(this.doc.data.layers!, layers);
+      if (ops.length > 0) {
+        this.submit(ops);
         this.notifyStateChange();
-      } catch (retryError) {
-        console.error("重试删除元素失败:", retryError);
       }
+    } catch (error) {
+      console.error("更新图层时出错:", error);
     }
   }
 
   // 清空画布
   clearCanvas() {
-    if (!this.hasConnected() || !this.doc.data) return; // 未连接时直接返回
+    // 文档未加载时排队，加载完成后重放
+    if (this.queueUntilReady(() => this.clearCanvas())) return;
+    if (!this.doc.data) return;
 
     try {
-      // 使用替换操作将 paths 和 shapes 都设置为空数组
-      this.doc.submitOp([
-        { p: ["paths"], oi: [] },
-        { p: ["shapes"], oi: [] },
+      // 使用替换操作将 paths 和 shapes 都设置为空数组（带上旧值以便撤销）
+      this.submit([
+        { p: ["paths"], od: this.doc.data.paths, oi: [] },
+        { p: ["shapes"], od: this.doc.data.shapes, oi: [] },
       ]);
       this.notifyStateChange();
     } catch (error) {
@@ -523,9 +773,9 @@ export class CollaborationService {
       // 尝试分别清空（作为备用方案）
       try {
         // 先清空 paths
-        this.doc.submitOp([{ p: ["paths"], oi: [] }]);
+        this.submit([{ p: ["paths"], od: this.doc.data.paths, oi: [] }]);
         // 再清空 shapes
-        this.doc.submitOp([{ p: ["shapes"], oi: [] }]);
+        this.submit([{ p: ["shapes"], od: this.doc.data.shapes, oi: [] }]);
         this.notifyStateChange();
       } catch (retryError) {
         console.error("重试清空画布失败:", retryError);
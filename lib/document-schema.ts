@@ -0,0 +1,682 @@
+import type { CanvasLayer, CanvasPath, CanvasShape } from "@/types/canvas";
+import type { AssetTable } from "@/lib/assets";
+import {
+  createAssetRef,
+  getAssetId,
+  getDataURLAssetId,
+  isAssetRef,
+} from "@/lib/assets";
+import { createDefaultLayers } from "@/lib/layers";
+
+// 画布文档格式：版本号 + 路径 + 图形 + 资源表 + 图层
+// - 读取时先按版本号依次迁移到当前版本，再逐个字段校验
+// - 文档结构错误（不是对象、paths/shapes 不是数组、版本过新）直接抛出错误
+// - 单个元素的问题尽量修复（补默认值、重新生成 ID），无法修复的元素会被移除
+// - 每个问题都带有精确的位置，例如 shapes[3].points
+
+// 当前文档版本
+// v0: 早期本地存储，只有 { paths, shapes }
+// v1: exportToJSON 写入 version: "1.0"
+// v2: 版本号改为整数，圆形统一使用 width/height
+// v3: 图片数据移到 assets 表，图形的 src 改为资源引用
+// v4: 路径和图形增加共用的 zIndex（层叠顺序）
+// v5: 增加图层列表，元素通过 layerId 属于某个图层
+export const DOCUMENT_VERSION = 5;
+
+export interface CanvasDocument {
+  version: number;
+  timestamp?: string;
+  paths: CanvasPath[];
+  shapes: CanvasShape[];
+  assets: AssetTable;
+  layers: CanvasLayer[];
+}
+
+export interface ValidationIssue {
+  path: string; // 出问题的位置，例如 shapes[3].points
+  message: string;
+  action: "repaired" | "removed";
+}
+
+export interface ParseResult {
+  document: CanvasDocument;
+  issues: ValidationIssue[];
+}
+
+// 文档无法读取时抛出，path 指向出错的位置
+export class DocumentValidationError extends Error {
+  constructor(
+    public path: string,
+    message: string
+  ) {
+    super(`${path}: ${message}`);
+    this.name = "DocumentValidationError";
+  }
+}
+
+type RawDocument = Record<string, any>;
+
+// 迁移：版本 n 的文档 → 版本 n + 1 的文档
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  0: (doc) => ({ ...doc, version: 1 }),
+  1: (doc) => ({
+    ...doc,
+    version: 2,
+    // 圆形只有 radius 时换算为外接正方形
+    shapes: doc.shapes.map((shape: any) =>
+      shape?.type === "circle" &&
+      typeof shape.radius === "number" &&
+      shape.width === undefined &&
+      shape.height === undefined
+        ? { ...shape, width: shape.radius * 2, height: shape.radius * 2 }
+        : shape
+    ),
+  }),
+  2: (doc) => {
+    // 内嵌的 data URL 按内容哈希提取到资源表，相同的图片只保留一份
+    const assets: AssetTable = {};
+    const shapes = doc.shapes.map((shape: any) => {
+      if (
+        shape?.type !== "image" ||
+        typeof shape.src !== "string" ||
+        !shape.src.startsWith("data:")
+      ) {
+        return shape;
+      }
+      try {
+        const id = getDataURLAssetId(shape.src);
+        assets[id] = shape.src;
+        return { ...shape, src: createAssetRef(id) };
+      } catch {
+        // 无法解码的 data URL 保持原样，由浏览器决定能否显示
+        return shape;
+      }
+    });
+    return { ...doc, version: 3, shapes, assets };
+  },
+  3: (doc) => {
+    // 按旧的绘制顺序编号：先路径后图形
+    const withZIndex = (element: any, zIndex: number) =>
+      isObject(element) && element.zIndex === undefined
+        ? { ...element, zIndex }
+        : element;
+    return {
+      ...doc,
+      version: 4,
+      paths: doc.paths.map(withZIndex),
+      shapes: doc.shapes.map((shape: any, i: number) =>
+        withZIndex(shape, doc.paths.length + i)
+      ),
+    };
+  },
+  // 所有元素属于默认图层（没有 layerId 的元素本来就属于最下面的图层）
+  4: (doc) => ({ ...doc, version: 5, layers: createDefaultLayers() }),
+};
+
+const SHAPE_TYPES = new Set<CanvasShape["type"]>([
+  "rectangle",
+  "circle",
+  "arrow",
+  "text",
+  "line",
+  "image",
+]);
+
+const createId = () => Math.random().toString(36).substring(7);
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(isFiniteNumber);
+
+// 读取版本号；没有版本号的是 v0，"1.0" 之类的字符串取主版本号
+const getVersion = (doc: RawDocument) => {
+  if (doc.version === undefined) return 0;
+  const version =
+    typeof doc.version === "number" ? doc.version : parseInt(doc.version, 10);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new DocumentValidationError("version", "Invalid document version");
+  }
+  if (version > DOCUMENT_VERSION) {
+    throw new DocumentValidationError(
+      "version",
+      `Document version ${version} is newer than supported version ${DOCUMENT_VERSION}`
+    );
+  }
+  return version;
+};
+
+// 逐个元素校验时使用的辅助函数
+const createChecker = (issues: ValidationIssue[], base: string) => {
+  const repaired = (field: string, message: string) =>
+    issues.push({ path: `${base}.${field}`, message, action: "repaired" });
+
+  return {
+    repaired,
+    // 必填字段：不符合要求时使用默认值
+    required<T>(
+      element: Record<string, any>,
+      field: string,
+      isValid: (value: unknown) => value is T,
+      fallback: T,
+      message: string
+    ) {
+      if (!isValid(element[field])) {
+        element[field] = fallback;
+        repaired(field, message);
+      }
+    },
+    // 可选字段：存在但不符合要求时删除
+    optional(
+      element: Record<string, any>,
+      field: string,
+      isValid: (value: unknown) => boolean,
+      message: string
+    ) {
+      if (element[field] !== undefined && !isValid(element[field])) {
+        delete element[field];
+        repaired(field, message);
+      }
+    },
+  };
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+// 连接线的绑定：anchor 为 null 或两个数字
+const isBinding = (value: unknown) =>
+  isObject(value) &&
+  isString(value.shapeId) &&
+  (value.anchor === null ||
+    (isNumberArray(value.anchor) && value.anchor.length === 2));
+
+const isOpacity = (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= 0 && value <= 1;
+
+const isNonNegative = (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= 0;
+
+// 校验 ID：缺失或与已有元素重复时重新生成
+const checkId = (
+  element: Record<string, any>,
+  usedIds: Set<string>,
+  check: ReturnType<typeof createChecker>
+) => {
+  if (!isString(element.id) || element.id === "") {
+    element.id = createId();
+    check.repaired("id", "Missing id, generated a new one");
+  } else if (usedIds.has(element.id)) {
+    element.id = createId();
+    check.repaired("id", "Duplicate id, generated a new one");
+  }
+  usedIds.add(element.id);
+};
+
+// 校验单条路径；无法修复时返回错误信息
+const validatePath = (
+  raw: unknown,
+  path: string,
+  usedIds: Set<string>,
+  issues: ValidationIssue[]
+): CanvasPath | string => {
+  if (!isObject(raw)) return "Expected an object";
+  const element = { ...raw };
+  const check = createChecker(issues, path);
+
+  if (!isNumberArray(element.points) || element.points.length < 4) {
+    return "points must be an array of at least 2 coordinate pairs";
+  }
+  if (element.points.length % 2 !== 0) {
+    element.points = element.points.slice(0, -1);
+    check.repaired("points", "Odd number of coordinates, dropped the last one");
+  }
+
+  checkId(element, usedIds, check);
+  check.required(element, "stroke", isString, "#000000", "Expected a color");
+  check.required(
+    element,
+    "strokeWidth",
+    (value): value is number => isFiniteNumber(value) && value > 0,
+    2,
+    "Expected a positive number"
+  );
+  check.optional(element, "fill", isString, "Expected a color");
+  check.optional(element, "opacity", isOpacity, "Expected a number in [0, 1]");
+  check.optional(element, "zIndex", isFiniteNumber, "Expected a number");
+  check.optional(element, "groupIds", isStringArray, "Expected group ids");
+  check.optional(element, "layerId", isString, "Expected a string");
+  check.optional(element, "name", isString, "Expected a string");
+  check.optional(element, "hidden", isBoolean, "Expected a boolean");
+  check.optional(element, "locked", isBoolean, "Expected a boolean");
+  return element as CanvasPath;
+};
+
+// 校验单个图形；无法修复时返回错误信息
+const validateShape = (
+  raw: unknown,
+  path: string,
+  usedIds: Set<string>,
+  issues: ValidationIssue[]
+): CanvasShape | string => {
+  if (!isObject(raw)) return "Expected an object";
+  const element = { ...raw };
+  const check = createChecker(issues, path);
+
+  if (!SHAPE_TYPES.has(element.type)) {
+    return `Unknown shape type ${JSON.stringify(element.type)}`;
+  }
+  const type = element.type as CanvasShape["type"];
+  const isLinear = type === "arrow" || type === "line";
+
+  // 箭头和线条以 points 为准：缺失时用 x/y/width/height 补出两个端点
+  if (isLinear) {
+    if (!isNumberArray(element.points) || element.points.length < 4) {
+      if (
+        [element.x, element.y, element.width, element.height].every(
+          isFiniteNumber
+        )
+      ) {
+        element.points = [
+          element.x,
+          element.y,
+          element.x + element.width,
+          element.y + element.height,
+        ];
+        check.repaired(
+          "points",
+          "Missing points, rebuilt from x/y/width/height"
+        );
+      } else {
+        return "points must be an array of 4 numbers";
+      }
+    }
+    if (!isFiniteNumber(element.x) || !isFiniteNumber(element.y)) {
+      element.x = element.points[0];
+      element.y = element.points[1];
+      check.repaired("x", "Missing position, taken from points");
+    }
+  } else {
+    if (!isFiniteNumber(element.x)) return "x must be a finite number";
+    if (!isFiniteNumber(element.y)) return "y must be a finite number";
+    check.optional(
+      element,
+      "points",
+      isNumberArray,
+      "Expected an array of numbers"
+    );
+  }
+
+  if (type === "rectangle" || type === "circle") {
+    if (!isFiniteNumber(element.width)) {
+      return "width must be a finite number";
+    }
+    if (!isFiniteNumber(element.height)) {
+      return "height must be a finite number";
+    }
+  } else {
+    check.optional(
+      element,
+      "width",
+      isFiniteNumber,
+      "Expected a finite number"
+    );
+    check.optional(
+      element,
+      "height",
+      isFiniteNumber,
+      "Expected a finite number"
+    );
+  }
+  check.optional(
+    element,
+    "radius",
+    isNonNegative,
+    "Expected a non-negative number"
+  );
+
+  if (type === "text" && !isString(element.text)) {
+    return "text must be a string";
+  }
+  check.optional(element, "text", isString, "Expected a string");
+  check.optional(
+    element,
+    "fontSize",
+    (value) => isFiniteNumber(value) && value > 0,
+    "Expected a positive number"
+  );
+  check.optional(element, "fontFamily", isString, "Expected a string");
+  check.optional(element, "backgroundColor", isString, "Expected a color");
+  ["isbold", "isitalic", "isunderline", "isstrikethrough"].forEach((field) =>
+    check.optional(element, field, isBoolean, "Expected a boolean")
+  );
+
+  if (type === "image" && (!isString(element.src) || element.src === "")) {
+    return "src must be a non-empty string";
+  }
+  check.optional(element, "src", isString, "Expected a string");
+  check.optional(element, "filter", isString, "Expected a string");
+
+  checkId(element, usedIds, check);
+  check.required(element, "stroke", isString, "#000000", "Expected a color");
+  check.required(
+    element,
+    "strokeWidth",
+    isNonNegative,
+    type === "text" ? 0 : 2,
+    "Expected a non-negative number"
+  );
+  check.optional(element, "fill", isString, "Expected a color");
+  check.optional(element, "opacity", isOpacity, "Expected a number in [0, 1]");
+  check.required(element, "rotation", isFiniteNumber, 0, "Expected a number");
+  check.optional(element, "zIndex", isFiniteNumber, "Expected a number");
+  check.optional(element, "groupIds", isStringArray, "Expected group ids");
+  check.optional(element, "layerId", isString, "Expected a string");
+  check.optional(element, "name", isString, "Expected a string");
+  check.optional(element, "hidden", isBoolean, "Expected a boolean");
+  check.optional(element, "locked", isBoolean, "Expected a boolean");
+  ["startBinding", "endBinding"].forEach((field) =>
+    check.optional(element, field, isBinding, "Expected a shape binding")
+  );
+  return element as CanvasShape;
+};
+
+// 校验资源表：只保留 data URL，无效的条目移除
+const validateAssets = (
+  raw: unknown,
+  issues: ValidationIssue[]
+): AssetTable => {
+  if (raw === undefined) return {};
+  if (!isObject(raw)) {
+    issues.push({
+      path: "assets",
+      message: "Expected an object",
+      action: "removed",
+    });
+    return {};
+  }
+  const assets: AssetTable = {};
+  Object.entries(raw).forEach(([id, dataURL]) => {
+    if (isString(dataURL) && dataURL.startsWith("data:")) {
+      assets[id] = dataURL;
+    } else {
+      issues.push({
+        path: `assets.${id}`,
+        message: "Expected a data URL",
+        action: "removed",
+      });
+    }
+  });
+  return assets;
+};
+
+// 校验图层列表：无效的图层移除，一个图层都没有时补上默认图层
+const validateLayers = (
+  raw: unknown,
+  issues: ValidationIssue[]
+): CanvasLayer[] => {
+  if (!Array.isArray(raw)) {
+    issues.push({
+      path: "layers",
+      message: "Expected an array, added a default layer",
+      action: "repaired",
+    });
+    return createDefaultLayers();
+  }
+  const usedIds = new Set<string>();
+  const layers = raw.flatMap((item, index) => {
+    const path = `layers[${index}]`;
+    if (!isObject(item)) {
+      issues.push({ path, message: "Expected an object", action: "removed" });
+      return [];
+    }
+    const layer = { ...item };
+    const check = createChecker(issues, path);
+    checkId(layer, usedIds, check);
+    check.required(
+      layer,
+      "name",
+      isString,
+      `图层 ${index + 1}`,
+      "Expected a string"
+    );
+    check.required(layer, "visible", isBoolean, true, "Expected a boolean");
+    check.required(layer, "locked", isBoolean, false, "Expected a boolean");
+    check.required(
+      layer,
+      "opacity",
+      isOpacity,
+      1,
+      "Expected a number in [0, 1]"
+    );
+    return [layer as CanvasLayer];
+  });
+  if (layers.length === 0) {
+    issues.push({
+      path: "layers",
+      message: "No layers, added a default layer",
+      action: "repaired",
+    });
+    return createDefaultLayers();
+  }
+  return layers;
+};
+
+type CanvasElement = CanvasPath | CanvasShape;
+
+// 校验过程中记录的元素信息，用于之后修复元素之间的引用
+interface ElementRecords {
+  locations: Map<CanvasElement, string>; // 元素在原文档中的位置
+  copies: Map<CanvasElement, string>; // 因 ID 重复而换了新 ID 的元素 → 原来的 ID
+}
+
+// 校验元素列表，移除无法修复的元素
+const validateElements = <T extends CanvasElement>(
+  list: unknown[],
+  name: string,
+  validate: (
+    raw: unknown,
+    path: string,
+    usedIds: Set<string>,
+    issues: ValidationIssue[]
+  ) => T | string,
+  usedIds: Set<string>,
+  issues: ValidationIssue[],
+  records: ElementRecords
+) =>
+  list.flatMap((raw, index) => {
+    const path = `${name}[${index}]`;
+    const result = validate(raw, path, usedIds, issues);
+    if (typeof result === "string") {
+      issues.push({ path, message: result, action: "removed" });
+      return [];
+    }
+    records.locations.set(result, path);
+    if (isObject(raw) && isString(raw.id) && raw.id !== result.id) {
+      records.copies.set(result, raw.id);
+    }
+    return [result];
+  });
+
+/**
+ * 修复元素之间的引用
+ * - 因 ID 重复而换了新 ID 的元素看作一份副本（例如同一段内容被粘贴了两次）：
+ *   副本的绑定指向同一份副本中的图形，与原件共用的组换成新的组 ID
+ * - 目标图形不存在的绑定被移除
+ */
+const repairReferences = (
+  paths: CanvasPath[],
+  shapes: CanvasShape[],
+  { locations, copies }: ElementRecords,
+  issues: ValidationIssue[]
+) => {
+  const elements: CanvasElement[] = [...paths, ...shapes];
+  const repaired = (element: CanvasElement, field: string, message: string) =>
+    issues.push({
+      path: `${locations.get(element)}.${field}`,
+      message,
+      action: "repaired",
+    });
+
+  // 原来的 ID → 副本的新 ID
+  const copyIds = new Map(
+    [...copies].map(([element, originalId]) => [originalId, element.id])
+  );
+
+  const originalGroups = new Set(
+    elements
+      .filter((element) => !copies.has(element))
+      .flatMap((element) => element.groupIds ?? [])
+  );
+  const newGroupIds = new Map<string, string>();
+  copies.forEach((_, element) => {
+    const groupIds = element.groupIds ?? [];
+    if (!groupIds.some((groupId) => originalGroups.has(groupId))) return;
+    element.groupIds = groupIds.map((groupId) => {
+      if (!originalGroups.has(groupId)) return groupId;
+      if (!newGroupIds.has(groupId)) newGroupIds.set(groupId, createId());
+      return newGroupIds.get(groupId) as string;
+    });
+    repaired(element, "groupIds", "Duplicate element, assigned new group ids");
+  });
+
+  const shapeIds = new Set(shapes.map((shape) => shape.id));
+  shapes.forEach((shape) => {
+    (["startBinding", "endBinding"] as const).forEach((field) => {
+      const binding = shape[field];
+      if (!binding) return;
+      const copyId = copies.has(shape)
+        ? copyIds.get(binding.shapeId)
+        : undefined;
+      if (copyId) {
+        shape[field] = { ...binding, shapeId: copyId };
+        repaired(shape, field, "Duplicate element, bound to the copied shape");
+      } else if (!shapeIds.has(binding.shapeId)) {
+        delete shape[field];
+        repaired(shape, field, "Bound shape not found, removed binding");
+      }
+    });
+  });
+};
+
+// 读取文档：JSON 字符串或已解析的对象，迁移到当前版本并校验所有元素
+export const parseDocument = (input: string | unknown): ParseResult => {
+  let raw: unknown = input;
+  if (typeof input === "string") {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      throw new DocumentValidationError(
+        "$",
+        `Invalid JSON: ${(error as Error).message}`
+      );
+    }
+  }
+  if (!isObject(raw)) {
+    throw new DocumentValidationError("$", "Document must be an object");
+  }
+  if (!Array.isArray(raw.paths)) {
+    throw new DocumentValidationError("paths", "Expected an array");
+  }
+  if (!Array.isArray(raw.shapes)) {
+    throw new DocumentValidationError("shapes", "Expected an array");
+  }
+
+  let doc: RawDocument = raw;
+  for (let version = getVersion(doc); version < DOCUMENT_VERSION; version++) {
+    doc = MIGRATIONS[version](doc);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const usedIds = new Set<string>();
+  const records: ElementRecords = { locations: new Map(), copies: new Map() };
+  const assets = validateAssets(doc.assets, issues);
+  const layers = validateLayers(doc.layers, issues);
+  const paths = validateElements(
+    doc.paths,
+    "paths",
+    validatePath,
+    usedIds,
+    issues,
+    records
+  );
+  const shapes = validateElements(
+    doc.shapes,
+    "shapes",
+    (raw, path, ids, list) => {
+      const shape = validateShape(raw, path, ids, list);
+      // 引用的资源不在资源表中时图片无法显示
+      if (
+        typeof shape !== "string" &&
+        isAssetRef(shape.src) &&
+        !assets[getAssetId(shape.src)]
+      ) {
+        return `Missing asset ${getAssetId(shape.src)}`;
+      }
+      return shape;
+    },
+    usedIds,
+    issues,
+    records
+  );
+  repairReferences(paths, shapes, records, issues);
+
+  return {
+    document: {
+      version: DOCUMENT_VERSION,
+      timestamp: isString(doc.timestamp) ? doc.timestamp : undefined,
+      paths,
+      shapes,
+      assets,
+      layers,
+    },
+    issues,
+  };
+};
+
+// 生成当前版本的文档，assets 为图形引用到的资源
+export const createDocument = (content: {
+  paths: CanvasPath[];
+  shapes: CanvasShape[];
+  assets?: AssetTable;
+  layers?: CanvasLayer[];
+}): CanvasDocument => ({
+  version: DOCUMENT_VERSION,
+  timestamp: new Date().toISOString(),
+  paths: [...content.paths],
+  shapes: [...content.shapes],
+  assets: { ...content.assets },
+  layers: content.layers ? [...content.layers] : createDefaultLayers(),
+});
+
+// 把校验问题按元素汇总，用于界面提示（与格式转换的问题格式一致）
+export const summarizeIssues = (issues: ValidationIssue[]) => {
+  const elements = new Map<
+    string,
+    { id: string; type: string; reasons: string[] }
+  >();
+  issues.forEach((issue) => {
+    const element = issue.path.match(/^(\w+)\[\d+\]/);
+    const id = element?.[0] || issue.path;
+    const summary = elements.get(id) || {
+      id,
+      type: element?.[1] === "paths" ? "path" : "shape",
+      reasons: [],
+    };
+    const field = issue.path.slice(id.length + 1);
+    summary.reasons.push(
+      issue.action === "removed" ? "移除无效元素" : `修复字段 ${field}`
+    );
+    elements.set(id, summary);
+  });
+  return [...elements.values()];
+};
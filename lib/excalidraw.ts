@@ -0,0 +1,722 @@
+import type { CanvasPath, CanvasShape, ShapeBinding } from "@/types/canvas";
+import type { CanvasState } from "@/lib/collaboration-service";
+import { getAssetId, isAssetRef, resolveAsset } from "@/lib/assets";
+import { getCanvasObjects } from "@/lib/z-order";
+import { getBindingAt } from "@/lib/bindings";
+
+// Excalidraw 文件互转：.excalidraw 元素 ⇄ 画布的 CanvasPath/CanvasShape
+// 两种格式的能力不完全相同，转换时丢失的信息逐个元素记录下来，交给界面提示用户
+
+// 转换时丢失信息的元素
+export interface ConversionIssue {
+  id: string;
+  type: string;
+  reasons: string[];
+}
+
+export interface ConversionResult<T> {
+  data: T;
+  issues: ConversionIssue[];
+}
+
+interface ExcalidrawElement {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle?: number; // 弧度，绕元素中心旋转
+  strokeColor?: string;
+  backgroundColor?: string;
+  fillStyle?: string;
+  strokeWidth?: number;
+  strokeStyle?: string;
+  roughness?: number;
+  opacity?: number; // 0-100
+  groupIds?: string[];
+  roundness?: { type: number } | null;
+  isDeleted?: boolean;
+  boundElements?: { id: string; type: string }[] | null;
+  link?: string | null;
+  locked?: boolean;
+  // 线条、箭头、手绘：相对 (x, y) 的点
+  points?: [number, number][];
+  startArrowhead?: string | null;
+  endArrowhead?: string | null;
+  startBinding?: ExcalidrawBinding | null;
+  endBinding?: ExcalidrawBinding | null;
+  // 文本
+  text?: string;
+  fontSize?: number;
+  fontFamily?: number;
+  textAlign?: string;
+  // 图片
+  fileId?: string | null;
+  scale?: [number, number];
+  crop?: unknown;
+  [key: string]: unknown;
+}
+
+// 箭头端点的绑定：focus 为箭头所在直线偏离目标中心的程度（-1~1，0 表示指向中心），
+// gap 为端点与目标轮廓的距离；fixedPoint 为目标包围框中的相对位置，与画布的 anchor 相同
+interface ExcalidrawBinding {
+  elementId: string;
+  focus: number;
+  gap: number;
+  fixedPoint?: [number, number] | null;
+}
+
+interface ExcalidrawFile {
+  mimeType: string;
+  id: string;
+  dataURL: string;
+  created: number;
+}
+
+export interface ExcalidrawScene {
+  type: "excalidraw";
+  version: number;
+  source: string;
+  elements: ExcalidrawElement[];
+  appState: Record<string, unknown>;
+  files: Record<string, ExcalidrawFile>;
+}
+
+// Excalidraw 的手绘笔迹宽度约为 strokeWidth × 4.25，画布为 strokeWidth × 2
+const FREEDRAW_WIDTH_RATIO = 4.25 / 2;
+
+// Excalidraw 字体编号
+const EXCALIDRAW_FONTS: Record<number, string> = {
+  1: "Virgil",
+  2: "Helvetica",
+  3: "Cascadia",
+  5: "Excalifont",
+  6: "Nunito",
+  7: "Lilita One",
+  8: "Comic Shanns",
+  9: "Liberation Sans",
+};
+
+const MONOSPACE_FONTS = new Set([3, 8]);
+const SANS_FONTS = new Set([2, 6, 9]);
+
+const TEXT_LINE_HEIGHT = 1.25;
+
+// focus 的绝对值小于该值时视为指向目标中心
+const FOCUS_EPSILON = 0.01;
+
+const createId = () => Math.random().toString(36).substring(7);
+
+const randomInt = () => Math.floor(Math.random() * 2 ** 31);
+
+const toDegrees = (radians = 0) => (radians * 180) / Math.PI;
+
+const toRadians = (degrees = 0) => (degrees * Math.PI) / 180;
+
+const isTransparent = (color?: string) => !color || color === "transparent";
+
+// 记录单个元素的信息丢失
+const createIssueCollector = () => {
+  const issues: ConversionIssue[] = [];
+  const report = (id: string, type: string, reasons: string[]) => {
+    if (reasons.length > 0) issues.push({ id, type, reasons });
+  };
+  return { issues, report };
+};
+
+// 多数元素共有、画布无法表示的属性
+const getCommonLosses = (element: ExcalidrawElement) => {
+  const reasons: string[] = [];
+  if (element.strokeStyle && element.strokeStyle !== "solid") {
+    reasons.push("虚线/点线描边");
+  }
+  if (
+    element.fillStyle &&
+    element.fillStyle !== "solid" &&
+    !isTransparent(element.backgroundColor)
+  ) {
+    reasons.push("填充样式");
+  }
+  if (element.link) reasons.push("链接");
+  return reasons;
+};
+
+// 线条类元素的旋转中心：所有点的包围盒中心（画布坐标）
+const getPointsCenter = (element: ExcalidrawElement) => {
+  const xs = (element.points || []).map(([px]) => px);
+  const ys = (element.points || []).map(([, py]) => py);
+  return [
+    element.x + (Math.min(...xs) + Math.max(...xs)) / 2,
+    element.y + (Math.min(...ys) + Math.max(...ys)) / 2,
+  ];
+};
+
+// 两种格式的组 ID 都从内到外排列，可以直接沿用；锁定状态含义相同
+const getSharedFields = (element: ExcalidrawElement) => ({
+  ...(element.groupIds?.length ? { groupIds: [...element.groupIds] } : {}),
+  ...(element.locked ? { locked: true } : {}),
+});
+
+const baseShape = (element: ExcalidrawElement, zIndex: number) => ({
+  id: createId(),
+  stroke: element.strokeColor || "#1e1e1e",
+  strokeWidth: element.strokeWidth ?? 2,
+  opacity: (element.opacity ?? 100) / 100,
+  zIndex,
+  ...getSharedFields(element),
+});
+
+const isFixedPoint = (value: unknown): value is [number, number] =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every((item) => typeof item === "number" && Number.isFinite(item));
+
+// Excalidraw 的绑定换算为画布的绑定：指向中心时绑定到中心，否则绑定到端点所在的位置
+const toShapeBinding = (
+  binding: ExcalidrawBinding,
+  target: CanvasShape,
+  point: { x: number; y: number }
+): ShapeBinding => {
+  if (isFixedPoint(binding.fixedPoint)) {
+    return { shapeId: target.id, anchor: binding.fixedPoint };
+  }
+  if (Math.abs(binding.focus || 0) < FOCUS_EPSILON) {
+    return { shapeId: target.id, anchor: null };
+  }
+  return {
+    shapeId: target.id,
+    anchor: getBindingAt(target, point, Infinity)?.anchor ?? null,
+  };
+};
+
+// 读取 .excalidraw 文件内容
+export const fromExcalidraw = (json: string): ConversionResult<CanvasState> => {
+  const scene = JSON.parse(json) as Partial<ExcalidrawScene>;
+  if (scene.type !== "excalidraw" || !Array.isArray(scene.elements)) {
+    throw new Error("Invalid Excalidraw file");
+  }
+
+  const files = scene.files || {};
+  const paths: CanvasPath[] = [];
+  const shapes: CanvasShape[] = [];
+  const { issues, report } = createIssueCollector();
+  // 可以被绑定的元素 → 转换后的图形（多行文本取第一行）
+  const targets = new Map<string, CanvasShape>();
+  // 带绑定的箭头和线条，以及转换后的第一段和最后一段
+  const connectors: {
+    element: ExcalidrawElement;
+    first: CanvasShape;
+    last: CanvasShape;
+  }[] = [];
+
+  scene.elements
+    .filter((element) => !element.isDeleted)
+    // 元素数组的顺序就是层叠顺序
+    .forEach((element, zIndex) => {
+      const reasons = getCommonLosses(element);
+      const shapeCount = shapes.length;
+      const rotation = toDegrees(element.angle);
+      const fill = isTransparent(element.backgroundColor)
+        ? "transparent"
+        : element.backgroundColor;
+
+      switch (element.type) {
+        case "rectangle":
+          if (element.roundness) reasons.push("圆角");
+          shapes.push({
+            ...baseShape(element, zIndex),
+            type: "rectangle",
+            x: element.x,
+            y: element.y,
+            width: element.width,
+            height: element.height,
+            fill,
+            rotation,
+          });
+          break;
+        case "ellipse": {
+          // 画布只有正圆：保持中心不变，直径取宽高的平均值
+          const diameter = (element.width + element.height) / 2;
+          if (Math.abs(element.width - element.height) > 1) {
+            reasons.push("椭圆转为正圆");
+          }
+          shapes.push({
+            ...baseShape(element, zIndex),
+            type: "circle",
+            x: element.x + (element.width - diameter) / 2,
+            y: element.y + (element.height - diameter) / 2,
+            width: diameter,
+            height: diameter,
+            fill,
+            rotation: 0,
+          });
+          break;
+        }
+        case "arrow":
+        case "line": {
+          const points = (element.points || []).map(([px, py]) => [
+            element.x + px,
+            element.y + py,
+          ]);
+          if (points.length < 2) break;
+          if (points.length > 2) reasons.push("多段线拆分为多个元素");
+          if (
+            element.type === "line" &&
+            !isTransparent(element.backgroundColor)
+          ) {
+            reasons.push("填充");
+          }
+          if (element.roundness && points.length > 2) reasons.push("曲线");
+          const isArrow = element.type === "arrow";
+          if (
+            isArrow &&
+            (element.startArrowhead ||
+              (element.endArrowhead && element.endArrowhead !== "arrow"))
+          ) {
+            reasons.push("箭头样式");
+          }
+
+          // Excalidraw 绕点的包围盒中心旋转，拆分后按同一中心旋转每一段
+          const angle = element.angle || 0;
+          const [cx, cy] = getPointsCenter(element);
+          const rotate = ([px, py]: number[]) => [
+            cx + (px - cx) * Math.cos(angle) - (py - cy) * Math.sin(angle),
+            cy + (px - cx) * Math.sin(angle) + (py - cy) * Math.cos(angle),
+          ];
+          const rotated = points.map(rotate);
+
+          for (let i = 0; i < rotated.length - 1; i++) {
+            const [x1, y1] = rotated[i];
+            const [x2, y2] = rotated[i + 1];
+            // 只有最后一段带箭头
+            const type =
+              isArrow &&
+              element.endArrowhead !== null &&
+              i === rotated.length - 2
+                ? "arrow"
+                : "line";
+            shapes.push({
+              ...baseShape(element, zIndex),
+              type,
+              x: x1,
+              y: y1,
+              width: x2 - x1,
+              height: y2 - y1,
+              points: [x1, y1, x2, y2],
+              rotation: 0,
+            });
+          }
+          if (element.startBinding || element.endBinding) {
+            connectors.push({
+              element,
+              first: shapes[shapes.length - rotated.length + 1],
+              last: shapes[shapes.length - 1],
+            });
+          }
+          break;
+        }
+        case "freedraw": {
+          const angle = element.angle || 0;
+          const [cx, cy] = getPointsCenter(element);
+          const points = (element.points || []).flatMap(([px, py]) => {
+            const x = element.x + px - cx;
+            const y = element.y + py - cy;
+            return [
+              cx + x * Math.cos(angle) - y * Math.sin(angle),
+              cy + x * Math.sin(angle) + y * Math.cos(angle),
+            ];
+          });
+          if (points.length < 4) break;
+          paths.push({
+            id: createId(),
+            points,
+            stroke: element.strokeColor || "#1e1e1e",
+            strokeWidth: (element.strokeWidth ?? 2) * FREEDRAW_WIDTH_RATIO,
+            opacity: (element.opacity ?? 100) / 100,
+            zIndex,
+            ...getSharedFields(element),
+          });
+          break;
+        }
+        case "text": {
+          const fontFamily = element.fontFamily ?? 1;
+          if (!SANS_FONTS.has(fontFamily) && !MONOSPACE_FONTS.has(fontFamily)) {
+            reasons.push(`字体 ${EXCALIDRAW_FONTS[fontFamily] || fontFamily}`);
+          }
+          const lines = (element.text || "").split("\n");
+          if (lines.length > 1) reasons.push("多行文本拆分为多个元素");
+          const fontSize = element.fontSize ?? 20;
+          lines.forEach((line, index) => {
+            if (!line) return;
+            shapes.push({
+              ...baseShape(element, zIndex),
+              type: "text",
+              x: element.x,
+              y: element.y + index * fontSize * TEXT_LINE_HEIGHT,
+              text: line,
+              fontSize,
+              fontFamily: MONOSPACE_FONTS.has(fontFamily)
+                ? "Courier New"
+                : "Arial",
+              fill: element.strokeColor || "#1e1e1e",
+              strokeWidth: 0,
+              rotation,
+            });
+          });
+          break;
+        }
+        case "image": {
+          const file = element.fileId ? files[element.fileId] : undefined;
+          if (!file?.dataURL) {
+            report(element.id, element.type, ["缺少图片数据，已跳过"]);
+            return;
+          }
+          const [scaleX = 1, scaleY = 1] = element.scale || [];
+          if (scaleX < 0 || scaleY < 0) reasons.push("翻转");
+          if (element.crop) reasons.push("裁剪");
+          shapes.push({
+            ...baseShape(element, zIndex),
+            type: "image",
+            x: element.x,
+            y: element.y,
+            width: element.width,
+            height: element.height,
+            src: file.dataURL,
+            rotation,
+          });
+          break;
+        }
+        default:
+          report(element.id, element.type, ["不支持的元素类型，已跳过"]);
+          return;
+      }
+      const shape = shapes[shapeCount];
+      if (shape && shape.type !== "arrow" && shape.type !== "line") {
+        targets.set(element.id, shape);
+      }
+      report(element.id, element.type, reasons);
+    });
+
+  // 绑定的目标可能排在箭头之后，所有元素转换后再建立绑定
+  connectors.forEach(({ element, first, last }) => {
+    const points = last.points as number[];
+    const ends = [
+      {
+        shape: first,
+        key: "startBinding" as const,
+        point: { x: first.x, y: first.y },
+      },
+      {
+        shape: last,
+        key: "endBinding" as const,
+        point: { x: points[2], y: points[3] },
+      },
+    ];
+    const lost = ends.filter(({ shape, key, point }) => {
+      const binding = element[key];
+      if (!binding) return false;
+      const target = targets.get(binding.elementId);
+      if (!target) return true;
+      shape[key] = toShapeBinding(binding, target, point);
+      return false;
+    });
+    if (lost.length > 0) {
+      report(element.id, element.type, ["绑定的元素未导入，已解除绑定"]);
+    }
+  });
+
+  return { data: { paths, shapes }, issues };
+};
+
+// 与画布一致的文本宽度测量
+let measureContext: CanvasRenderingContext2D | null = null;
+const measureTextWidth = (text: string, font: string) => {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return text.length * 8;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+// 把字符串转换为稳定的文件 ID，相同图片只保存一份
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (Math.imul(31, hash) + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16) + value.length.toString(16);
+};
+
+// 所有 Excalidraw 元素共有的字段
+const createElement = (
+  type: string,
+  fields: Partial<ExcalidrawElement> &
+    Pick<ExcalidrawElement, "x" | "y" | "width" | "height">
+): ExcalidrawElement => ({
+  id: createId(),
+  type,
+  angle: 0,
+  strokeColor: "#1e1e1e",
+  backgroundColor: "transparent",
+  fillStyle: "solid",
+  strokeWidth: 2,
+  strokeStyle: "solid",
+  roughness: 0, // 画布上的图形没有手绘效果
+  opacity: 100,
+  groupIds: [],
+  frameId: null,
+  roundness: null,
+  seed: randomInt(),
+  version: 1,
+  versionNonce: randomInt(),
+  isDeleted: false,
+  boundElements: null,
+  updated: Date.now(),
+  link: null,
+  locked: false,
+  ...fields,
+});
+
+const getStyleFields = (shape: CanvasShape) => ({
+  strokeColor: shape.stroke,
+  backgroundColor: isTransparent(shape.fill) ? "transparent" : shape.fill,
+  strokeWidth: shape.strokeWidth,
+  opacity: Math.round((shape.opacity ?? 1) * 100),
+  angle: toRadians(shape.rotation),
+  groupIds: [...(shape.groupIds ?? [])],
+  locked: !!shape.locked,
+});
+
+// 把画布内容转换为 .excalidraw 文件
+export const toExcalidraw = (
+  content: CanvasState
+): ConversionResult<ExcalidrawScene> => {
+  const elements: ExcalidrawElement[] = [];
+  const files: Record<string, ExcalidrawFile> = {};
+  const { issues, report } = createIssueCollector();
+  // 画布元素 ID → 转换后的元素
+  const exported = new Map<string, ExcalidrawElement>();
+
+  const addPath = (path: CanvasPath) => {
+    if (path.points.length < 4) return;
+    const xs = path.points.filter((_, i) => i % 2 === 0);
+    const ys = path.points.filter((_, i) => i % 2 === 1);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const points = xs.map((x, i): [number, number] => [x - minX, ys[i] - minY]);
+    elements.push(
+      createElement("freedraw", {
+        x: minX,
+        y: minY,
+        width: Math.max(...xs) - minX,
+        height: Math.max(...ys) - minY,
+        strokeColor: path.stroke,
+        strokeWidth: path.strokeWidth / FREEDRAW_WIDTH_RATIO,
+        opacity: Math.round((path.opacity ?? 1) * 100),
+        groupIds: [...(path.groupIds ?? [])],
+        locked: !!path.locked,
+        points,
+        pressures: [],
+        simulatePressure: true,
+        lastCommittedPoint: null,
+      })
+    );
+  };
+
+  const addShape = (shape: CanvasShape) => {
+    const reasons: string[] = [];
+    const width = shape.width || 0;
+    const height = shape.height || 0;
+    const elementCount = elements.length;
+
+    switch (shape.type) {
+      case "rectangle":
+        elements.push(
+          createElement("rectangle", {
+            ...getStyleFields(shape),
+            x: Math.min(shape.x, shape.x + width),
+            y: Math.min(shape.y, shape.y + height),
+            width: Math.abs(width),
+            height: Math.abs(height),
+          })
+        );
+        break;
+      case "circle": {
+        const radius = Math.abs(width + height) / 4;
+        elements.push(
+          createElement("ellipse", {
+            ...getStyleFields(shape),
+            x: shape.x + width / 2 - radius,
+            y: shape.y + height / 2 - radius,
+            width: radius * 2,
+            height: radius * 2,
+            angle: 0,
+          })
+        );
+        break;
+      }
+      case "arrow":
+      case "line": {
+        if (!shape.points || shape.points.length < 4) return;
+        const [x1, y1, x2, y2] = shape.points;
+        const bindings = [shape.startBinding, shape.endBinding];
+        if (shape.type === "line" && bindings.some(Boolean)) {
+          // Excalidraw 中只有箭头可以绑定
+          reasons.push("直线的绑定关系");
+        } else if (bindings.some((binding) => binding?.anchor)) {
+          // Excalidraw 的箭头只在折线箭头上使用固定位置，普通箭头按 focus 指向目标中心
+          reasons.push("绑定到固定位置");
+        }
+        // 两点的包围盒中心就是端点中点，旋转中心与画布一致
+        elements.push(
+          createElement(shape.type, {
+            ...getStyleFields(shape),
+            backgroundColor: "transparent",
+            x: x1,
+            y: y1,
+            width: Math.abs(x2 - x1),
+            height: Math.abs(y2 - y1),
+            points: [
+              [0, 0],
+              [x2 - x1, y2 - y1],
+            ],
+            lastCommittedPoint: null,
+            startBinding: null,
+            endBinding: null,
+            startArrowhead: null,
+            endArrowhead: shape.type === "arrow" ? "arrow" : null,
+          })
+        );
+        break;
+      }
+      case "text": {
+        const text = shape.text || "";
+        const fontSize = shape.fontSize || 16;
+        const isMonospace = /courier|mono/i.test(shape.fontFamily || "");
+        if (shape.isbold) reasons.push("粗体");
+        if (shape.isitalic) reasons.push("斜体");
+        if (shape.isunderline) reasons.push("下划线");
+        if (shape.isstrikethrough) reasons.push("删除线");
+        if (!isTransparent(shape.backgroundColor)) reasons.push("文本背景色");
+        if (shape.fontFamily && !/arial|courier/i.test(shape.fontFamily)) {
+          reasons.push(`字体 ${shape.fontFamily}`);
+        }
+        const textWidth = measureTextWidth(
+          text,
+          `${fontSize}px ${shape.fontFamily || "Arial"}`
+        );
+        elements.push(
+          createElement("text", {
+            ...getStyleFields(shape),
+            strokeColor: shape.fill || shape.stroke,
+            backgroundColor: "transparent",
+            x: shape.x,
+            y: shape.y,
+            width: textWidth,
+            height: fontSize * TEXT_LINE_HEIGHT,
+            text,
+            originalText: text,
+            fontSize,
+            fontFamily: isMonospace ? 3 : 2,
+            textAlign: "left",
+            verticalAlign: "top",
+            containerId: null,
+            autoResize: true,
+            lineHeight: TEXT_LINE_HEIGHT,
+          })
+        );
+        break;
+      }
+      case "image": {
+        if (!shape.src) return;
+        if (shape.filter && shape.filter !== "none") reasons.push("图片滤镜");
+        const dataURL = resolveAsset(shape.src);
+        // Excalidraw 只能显示内嵌的图片数据
+        if (!dataURL.startsWith("data:")) reasons.push("外链图片可能无法显示");
+        // 资源引用直接使用资源 ID（内容哈希）作为文件 ID
+        const fileId = isAssetRef(shape.src)
+          ? getAssetId(shape.src)
+          : hashString(dataURL);
+        files[fileId] = {
+          id: fileId,
+          mimeType: dataURL.match(/^data:([^;,]+)/)?.[1] || "image/png",
+          dataURL,
+          created: Date.now(),
+        };
+        elements.push(
+          createElement("image", {
+            ...getStyleFields(shape),
+            backgroundColor: "transparent",
+            strokeColor: "transparent",
+            x: shape.x,
+            y: shape.y,
+            width: shape.width || 100,
+            height: shape.height || 100,
+            fileId,
+            status: "saved",
+            scale: [1, 1],
+          })
+        );
+        break;
+      }
+    }
+    if (elements.length > elementCount) {
+      exported.set(shape.id, elements[elements.length - 1]);
+    }
+    report(shape.id, shape.type, reasons);
+  };
+
+  // 画布的绑定换算为 Excalidraw 的绑定，目标也要记录绑定到它的箭头
+  const bindArrow = (
+    element: ExcalidrawElement,
+    binding: ShapeBinding | undefined
+  ): ExcalidrawBinding | null => {
+    const target = binding && exported.get(binding.shapeId);
+    if (!binding || !target) return null;
+    target.boundElements = [
+      ...(target.boundElements || []),
+      { id: element.id, type: "arrow" },
+    ];
+    return {
+      elementId: target.id,
+      focus: 0,
+      gap: 0,
+      ...(binding.anchor && { fixedPoint: binding.anchor }),
+    };
+  };
+
+  // 与画布的层叠顺序一致
+  getCanvasObjects(content).forEach((object) =>
+    object.type === "path"
+      ? addPath(object.data as CanvasPath)
+      : addShape(object.data as CanvasShape)
+  );
+
+  // 绑定的目标可能排在箭头之后，所有元素转换后再写入绑定
+  content.shapes.forEach((shape) => {
+    const element = exported.get(shape.id);
+    if (!element || element.type !== "arrow") return;
+    element.startBinding = bindArrow(element, shape.startBinding);
+    element.endBinding = bindArrow(element, shape.endBinding);
+    if (
+      (shape.startBinding && !element.startBinding) ||
+      (shape.endBinding && !element.endBinding)
+    ) {
+      report(shape.id, shape.type, ["绑定的元素未导出，已解除绑定"]);
+    }
+  });
+
+  return {
+    data: {
+      type: "excalidraw",
+      version: 2,
+      source: "CanvasCraft",
+      elements,
+      appState: { gridSize: null, viewBackgroundColor: "#ffffff" },
+      files,
+    },
+    issues,
+  };
+};
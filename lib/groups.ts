@@ -0,0 +1,301 @@
+import type { CanvasPath, CanvasShape } from "@/types/canvas";
+import type { SceneBounds, SceneContent } from "@/lib/scene-renderer";
+import { translatePath, translateShape } from "@/lib/scene-renderer";
+import { remapBindings } from "@/lib/bindings";
+
+// 组合：元素的 groupIds 记录它所属的组，从内到外排列（最后一个是最外层的组）
+// - 组本身不单独保存，组的成员就是 groupIds 中包含该组 ID 的所有元素
+// - 组合、取消组合只修改成员的 groupIds 字段，协作时随元素一起同步
+// - 选中组时 selectedIds 中是组的全部成员，移动、删除等操作自然作用于整个组
+
+type CanvasElement = CanvasPath | CanvasShape;
+export type ElementUpdate = Partial<CanvasPath> | Partial<CanvasShape>;
+
+const createGroupId = () => Math.random().toString(36).substring(7);
+
+const isShape = (element: CanvasElement): element is CanvasShape =>
+  "type" in element;
+
+const getElements = (content: SceneContent): CanvasElement[] => [
+  ...content.paths,
+  ...content.shapes,
+];
+
+export const getGroupIds = (element: CanvasElement) => element.groupIds ?? [];
+
+// 组是否整个被选中（所有成员都在选中范围内）
+const createGroupChecker = (content: SceneContent, selected: Set<string>) => {
+  const cache = new Map<string, boolean>();
+  return (groupId: string) => {
+    if (!cache.has(groupId)) {
+      cache.set(
+        groupId,
+        getElements(content).every(
+          (element) =>
+            !getGroupIds(element).includes(groupId) || selected.has(element.id)
+        )
+      );
+    }
+    return cache.get(groupId) as boolean;
+  };
+};
+
+// 元素所在的、整个被选中的组中最外层的一个；没有时返回 undefined
+const getOutermostSelectedGroup = (
+  element: CanvasElement,
+  isFullySelected: (groupId: string) => boolean
+) => {
+  const groupIds = getGroupIds(element);
+  // 组从内到外逐层包含，外层整个被选中时内层也一定整个被选中
+  const index = groupIds.findIndex((groupId) => !isFullySelected(groupId));
+  const count = index === -1 ? groupIds.length : index;
+  return count > 0 ? groupIds[count - 1] : undefined;
+};
+
+/**
+ * 点击元素时应选中的组
+ * - 未进入组时是最外层的组，进入某个组后是它里面的下一层
+ * - 元素不在进入的组里时按未进入处理
+ * @returns 组 ID；元素不属于任何组（或已经是进入的组的直接成员）时返回 null
+ */
+export const getSelectionGroupId = (
+  element: CanvasElement,
+  editingGroupId: string | null
+): string | null => {
+  const groupIds = getGroupIds(element);
+  const index = editingGroupId ? groupIds.indexOf(editingGroupId) : -1;
+  const level = index === -1 ? groupIds.length : index;
+  return level > 0 ? groupIds[level - 1] : null;
+};
+
+export const getGroupElementIds = (content: SceneContent, groupId: string) =>
+  getElements(content)
+    .filter((element) => getGroupIds(element).includes(groupId))
+    .map((element) => element.id);
+
+// 点击元素时应选中的元素 ID：整个组或元素本身
+export const getSelectionUnit = (
+  content: SceneContent,
+  element: CanvasElement,
+  editingGroupId: string | null
+) => {
+  const groupId = getSelectionGroupId(element, editingGroupId);
+  return groupId ? getGroupElementIds(content, groupId) : [element.id];
+};
+
+// 选中范围内是否包含整个被选中的组
+export const hasSelectedGroup = (content: SceneContent, ids: string[]) => {
+  const selected = new Set(ids);
+  const isFullySelected = createGroupChecker(content, selected);
+  return getElements(content).some(
+    (element) =>
+      selected.has(element.id) &&
+      getOutermostSelectedGroup(element, isFullySelected) !== undefined
+  );
+};
+
+/**
+ * 组合选中的元素
+ * - 整个被选中的组放进新组里，只选中了一部分的组（例如进入的组）留在新组外面
+ * - 选中的正好是一个现有的组时不再重复组合
+ * @returns 元素 ID → 新的 groupIds；无需组合时为空
+ */
+export const groupElements = (
+  content: SceneContent,
+  ids: string[]
+): Map<string, string[]> => {
+  const selected = new Set(ids);
+  const isFullySelected = createGroupChecker(content, selected);
+  const members = getElements(content).filter((element) =>
+    selected.has(element.id)
+  );
+  const updates = new Map<string, string[]>();
+  if (members.length < 2) return updates;
+
+  const outermost = members.map((element) =>
+    getOutermostSelectedGroup(element, isFullySelected)
+  );
+  if (outermost[0] && outermost.every((groupId) => groupId === outermost[0])) {
+    return updates;
+  }
+
+  const groupId = createGroupId();
+  members.forEach((element, i) => {
+    const groupIds = getGroupIds(element);
+    const count = outermost[i] ? groupIds.indexOf(outermost[i]) + 1 : 0;
+    updates.set(element.id, [
+      ...groupIds.slice(0, count),
+      groupId,
+      ...groupIds.slice(count),
+    ]);
+  });
+  return updates;
+};
+
+/**
+ * 取消组合：解散选中范围内每个单元最外层的组（嵌套的内层组保留）
+ * @returns 元素 ID → 新的 groupIds；没有可解散的组时为空
+ */
+export const ungroupElements = (
+  content: SceneContent,
+  ids: string[]
+): Map<string, string[]> => {
+  const selected = new Set(ids);
+  const isFullySelected = createGroupChecker(content, selected);
+  const dissolved = new Set<string>();
+  getElements(content).forEach((element) => {
+    if (!selected.has(element.id)) return;
+    const groupId = getOutermostSelectedGroup(element, isFullySelected);
+    if (groupId) dissolved.add(groupId);
+  });
+
+  const updates = new Map<string, string[]>();
+  getElements(content).forEach((element) => {
+    const groupIds = getGroupIds(element);
+    if (groupIds.some((groupId) => dissolved.has(groupId))) {
+      updates.set(
+        element.id,
+        groupIds.filter((groupId) => !dissolved.has(groupId))
+      );
+    }
+  });
+  return updates;
+};
+
+/**
+ * 复制选中的元素并平移
+ * - 整个被选中的组换成新的组 ID，副本组成相同的嵌套结构
+ * - 只选中了一部分的组（例如进入的组）保持不变，副本仍属于这个组
+ * - 副本保留原来的 zIndex，添加时按层叠顺序依次放到最上层即可保持先后
+ * - 连接线和绑定的图形一起复制时，副本之间保持绑定；否则副本不绑定
+ */
+export const duplicateElements = (
+  content: SceneContent,
+  ids: string[],
+  offset: { x: number; y: number }
+): SceneContent => {
+  const selected = new Set(ids);
+  const isFullySelected = createGroupChecker(content, selected);
+  const newGroupIds = new Map<string, string>();
+  const copyGroupIds = (element: CanvasElement) => {
+    const groupIds = getGroupIds(element).map((groupId) => {
+      if (!isFullySelected(groupId)) return groupId;
+      if (!newGroupIds.has(groupId)) newGroupIds.set(groupId, createGroupId());
+      return newGroupIds.get(groupId) as string;
+    });
+    return groupIds.length > 0 ? { groupIds } : {};
+  };
+  const createId = () => Math.random().toString(36).substring(7);
+  const newIds = new Map(
+    getElements(content)
+      .filter((element) => selected.has(element.id))
+      .map((element) => [element.id, createId()])
+  );
+
+  return {
+    paths: content.paths
+      .filter((path) => selected.has(path.id))
+      .map((path) => ({
+        ...path,
+        ...translatePath(path, offset.x, offset.y),
+        ...copyGroupIds(path),
+        id: newIds.get(path.id) as string,
+      })),
+    shapes: content.shapes
+      .filter((shape) => selected.has(shape.id))
+      .map((shape) =>
+        remapBindings(
+          {
+            ...shape,
+            ...translateShape(shape, offset.x, offset.y),
+            ...copyGroupIds(shape),
+            id: newIds.get(shape.id) as string,
+          },
+          newIds
+        )
+      ),
+  };
+};
+
+// 按坐标变换换算元素的点（路径的点、直线和箭头的端点）
+const mapPoints = (
+  points: number[],
+  transform: (x: number, y: number) => { x: number; y: number }
+) =>
+  points.flatMap((_, i) => {
+    if (i % 2 === 1) return [];
+    const { x, y } = transform(points[i], points[i + 1]);
+    return [x, y];
+  });
+
+/**
+ * 整体调整大小：把元素从原包围框按比例换算到新包围框
+ * 文本的字号按较小的缩放比例调整，笔迹和边框粗细不变
+ */
+export const scaleElement = (
+  element: CanvasElement,
+  from: SceneBounds,
+  to: SceneBounds
+): ElementUpdate => {
+  const scaleX = from.width ? to.width / from.width : 1;
+  const scaleY = from.height ? to.height / from.height : 1;
+  const transform = (x: number, y: number) => ({
+    x: to.x + (x - from.x) * scaleX,
+    y: to.y + (y - from.y) * scaleY,
+  });
+
+  if (!isShape(element)) {
+    return { points: mapPoints(element.points, transform) };
+  }
+  const { x, y } = transform(element.x, element.y);
+  const scale = Math.min(Math.abs(scaleX), Math.abs(scaleY));
+  return {
+    x,
+    y,
+    ...(element.width !== undefined && { width: element.width * scaleX }),
+    ...(element.height !== undefined && { height: element.height * scaleY }),
+    ...(element.radius !== undefined && { radius: element.radius * scale }),
+    ...(element.fontSize !== undefined && {
+      fontSize: element.fontSize * scale,
+    }),
+    ...(element.points && { points: mapPoints(element.points, transform) }),
+  };
+};
+
+/**
+ * 整体旋转：元素绕公共中心旋转
+ * - 路径、直线和箭头直接旋转各个点
+ * - 其他图形移动自身的中心，并累加自身的旋转角度（绘制时绕自身中心旋转）
+ */
+export const rotateElement = (
+  element: CanvasElement,
+  center: { x: number; y: number },
+  degrees: number
+): ElementUpdate => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const transform = (x: number, y: number) => ({
+    x: center.x + (x - center.x) * cos - (y - center.y) * sin,
+    y: center.y + (x - center.x) * sin + (y - center.y) * cos,
+  });
+
+  if (!isShape(element)) {
+    return { points: mapPoints(element.points, transform) };
+  }
+  if (element.points) {
+    return {
+      ...transform(element.x, element.y),
+      points: mapPoints(element.points, transform),
+    };
+  }
+  // 与 beginShape 使用相同的旋转中心
+  const halfWidth = (element.width || 0) / 2;
+  const halfHeight = (element.height || 0) / 2;
+  const moved = transform(element.x + halfWidth, element.y + halfHeight);
+  return {
+    x: moved.x - halfWidth,
+    y: moved.y - halfHeight,
+    rotation: (((element.rotation + degrees) % 360) + 360) % 360,
+  };
+};
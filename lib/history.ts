@@ -0,0 +1,399 @@
+import type { CanvasLayer, CanvasPath, CanvasShape } from "@/types/canvas";
+
+// 历史记录只保存变化的部分（补丁），而不是整份画布快照
+// 图层列表很小，变化时记录前后的完整列表
+interface CanvasContent {
+  paths: CanvasPath[];
+  shapes: CanvasShape[];
+  layers?: CanvasLayer[];
+}
+
+type Element = CanvasPath | CanvasShape;
+
+// 单个集合（paths 或 shapes）上的变化
+export interface CollectionPatch<T extends Element = Element> {
+  added: { index: number; element: T }[]; // index 为变化后的位置
+  removed: { index: number; element: T }[]; // index 为变化前的位置
+  updated: { id: string; before: Partial<T>; after: Partial<T> }[]; // 只记录变化的字段
+  order?: { before: string[]; after: string[] }; // 仅当保留元素的相对顺序变化时记录
+}
+
+export interface HistoryPatch {
+  paths: CollectionPatch<CanvasPath>;
+  shapes: CollectionPatch<CanvasShape>;
+  layers?: { before: CanvasLayer[]; after: CanvasLayer[] }; // 仅当图层列表变化时记录
+}
+
+// 对比两个元素，返回变化字段的前后值
+const diffElement = <T extends Element>(before: T, after: T) => {
+  const beforeFields: Partial<T> = {};
+  const afterFields: Partial<T> = {};
+  let changed = false;
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach((key) => {
+    const k = key as keyof T;
+    if (!Object.is(before[k], after[k])) {
+      beforeFields[k] = before[k];
+      afterFields[k] = after[k];
+      changed = true;
+    }
+  });
+
+  return changed ? { before: beforeFields, after: afterFields } : null;
+};
+
+const diffCollection = <T extends Element>(
+  before: T[],
+  after: T[]
+): CollectionPatch<T> => {
+  const patch: CollectionPatch<T> = { added: [], removed: [], updated: [] };
+  const beforeById = new Map(before.map((element) => [element.id, element]));
+  const afterIds = new Set(after.map((element) => element.id));
+
+  before.forEach((element, index) => {
+    if (!afterIds.has(element.id)) patch.removed.push({ index, element });
+  });
+
+  after.forEach((element, index) => {
+    const previous = beforeById.get(element.id);
+    if (!previous) {
+      patch.added.push({ index, element });
+    } else if (previous !== element) {
+      const diff = diffElement(previous, element);
+      if (diff) patch.updated.push({ id: element.id, ...diff });
+    }
+  });
+
+  // 保留下来的元素相对顺序发生变化时（例如调整层级），记录完整顺序
+  const keptBefore = before
+    .filter((element) => afterIds.has(element.id))
+    .map((element) => element.id);
+  const keptAfter = after
+    .filter((element) => beforeById.has(element.id))
+    .map((element) => element.id);
+  if (keptBefore.some((id, i) => id !== keptAfter[i])) {
+    patch.order = {
+      before: before.map((element) => element.id),
+      after: after.map((element) => element.id),
+    };
+  }
+
+  return patch;
+};
+
+// 图层列表是否变化（两边都有图层时才比较）
+const isLayersChanged = (before?: CanvasLayer[], after?: CanvasLayer[]) =>
+  !!before &&
+  !!after &&
+  before !== after &&
+  JSON.stringify(before) !== JSON.stringify(after);
+
+// 计算从 before 到 after 的补丁
+export const diffCanvas = (
+  before: CanvasContent,
+  after: CanvasContent
+): HistoryPatch => ({
+  paths: diffCollection(before.paths, after.paths),
+  shapes: diffCollection(before.shapes, after.shapes),
+  ...(isLayersChanged(before.layers, after.layers) && {
+    layers: {
+      before: before.layers as CanvasLayer[],
+      after: after.layers as CanvasLayer[],
+    },
+  }),
+});
+
+const isCollectionPatchEmpty = (patch: CollectionPatch) =>
+  patch.added.length === 0 &&
+  patch.removed.length === 0 &&
+  patch.updated.length === 0 &&
+  !patch.order;
+
+export const isPatchEmpty = (patch: HistoryPatch) =>
+  isCollectionPatchEmpty(patch.paths) &&
+  isCollectionPatchEmpty(patch.shapes) &&
+  !patch.layers;
+
+// 把字段变化应用到元素上，值为 undefined 的字段会被删除
+const applyFields = <T extends Element>(element: T, fields: Partial<T>): T => {
+  const result = { ...element };
+  (Object.keys(fields) as (keyof T)[]).forEach((key) => {
+    if (fields[key] === undefined) {
+      delete result[key];
+    } else {
+      result[key] = fields[key] as T[keyof T];
+    }
+  });
+  return result;
+};
+
+const applyCollectionPatch = <T extends Element>(
+  list: T[],
+  patch: CollectionPatch<T>,
+  direction: "undo" | "redo"
+): T[] => {
+  const isRedo = direction === "redo";
+  const toRemove = isRedo ? patch.removed : patch.added;
+  const toInsert = isRedo ? patch.added : patch.removed;
+
+  const removeIds = new Set(toRemove.map(({ element }) => element.id));
+  const updates = new Map(
+    patch.updated.map((update) => [
+      update.id,
+      isRedo ? update.after : update.before,
+    ])
+  );
+
+  const result = list
+    .filter((element) => !removeIds.has(element.id))
+    .map((element) => {
+      const fields = updates.get(element.id);
+      return fields ? applyFields(element, fields) : element;
+    });
+
+  // 按目标位置从小到大插入，保证下标正确
+  [...toInsert]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ index, element }) => {
+      result.splice(Math.min(index, result.length), 0, element);
+    });
+
+  if (patch.order) {
+    const order = isRedo ? patch.order.after : patch.order.before;
+    const position = new Map(order.map((id, i) => [id, i]));
+    result.sort(
+      (a, b) =>
+        (position.get(a.id) ?? result.length) -
+        (position.get(b.id) ?? result.length)
+    );
+  }
+
+  return result;
+};
+
+// 撤销（undo）或重做（redo）一个补丁
+export const applyPatch = (
+  content: CanvasContent,
+  patch: HistoryPatch,
+  direction: "undo" | "redo"
+): CanvasContent => ({
+  paths: applyCollectionPatch(content.paths, patch.paths, direction),
+  shapes: applyCollectionPatch(content.shapes, patch.shapes, direction),
+  layers: patch.layers
+    ? patch.layers[direction === "redo" ? "after" : "before"]
+    : content.layers,
+});
+
+// 历史记录中的一步（一个事务中的所有修改合并为一步）
+export interface HistoryEntry {
+  id: string;
+  patch: HistoryPatch;
+  label: string; // 面板中显示的描述，例如“添加矩形”
+  timestamp: number;
+}
+
+// 撤销后再编辑时被替换下来的重做记录，保留为可切换回去的分支
+export interface HistoryBranch {
+  id: string;
+  forkEntryId: string | null; // 分支从哪一步之后分出，null 表示初始状态
+  entries: HistoryEntry[];
+  timestamp: number;
+}
+
+// 用户命名的检查点
+export interface HistoryCheckpoint {
+  id: string;
+  name: string;
+  entryId: string | null; // 检查点所在的步骤，null 表示初始状态
+  timestamp: number;
+}
+
+export const createHistoryId = () =>
+  Math.random().toString(36).substring(2, 10);
+
+const ELEMENT_NAMES: Record<CanvasShape["type"] | "path", string> = {
+  path: "笔迹",
+  rectangle: "矩形",
+  circle: "圆形",
+  arrow: "箭头",
+  line: "线条",
+  text: "文本",
+  image: "图片",
+};
+
+// 字段变化对应的操作描述，按优先级排列；target 为“矩形”或“ 3 个元素”
+const FIELD_LABELS: { fields: string[]; format: (target: string) => string }[] =
+  [
+    { fields: ["text"], format: (target) => `编辑${target}` },
+    { fields: ["stroke"], format: (target) => `修改${target}的描边颜色` },
+    {
+      fields: ["fill", "backgroundColor"],
+      format: (target) => `修改${target}的填充颜色`,
+    },
+    { fields: ["strokeWidth"], format: (target) => `修改${target}的描边宽度` },
+    { fields: ["opacity"], format: (target) => `修改${target}的透明度` },
+    { fields: ["rotation"], format: (target) => `旋转${target}` },
+    { fields: ["filter"], format: (target) => `修改${target}的滤镜` },
+    {
+      fields: [
+        "fontSize",
+        "fontFamily",
+        "isbold",
+        "isitalic",
+        "isunderline",
+        "isstrikethrough",
+      ],
+      format: (target) => `修改${target}的文本样式`,
+    },
+    {
+      fields: ["width", "height", "radius"],
+      format: (target) => `调整${target}的大小`,
+    },
+    { fields: ["x", "y", "points"], format: (target) => `移动${target}` },
+  ];
+
+const getElementName = (element: Element) =>
+  "type" in element ? ELEMENT_NAMES[element.type] : ELEMENT_NAMES.path;
+
+// 单个元素用具体名称，多个元素用数量描述（前面带空格，便于拼接）
+const describeElements = (elements: Element[]) =>
+  elements.length === 1
+    ? getElementName(elements[0])
+    : ` ${elements.length} 个元素`;
+
+// 图层列表变化的描述
+const describeLayers = (before: CanvasLayer[], after: CanvasLayer[]) => {
+  if (after.length > before.length) return "添加图层";
+  if (after.length < before.length) return "删除图层";
+  const changed = after.filter((layer) => {
+    const previous = before.find((item) => item.id === layer.id);
+    return previous && JSON.stringify(previous) !== JSON.stringify(layer);
+  });
+  if (changed.length === 0) return "调整图层顺序";
+  const previous = before.find((item) => item.id === changed[0].id);
+  if (changed.length === 1 && previous) {
+    const layer = changed[0];
+    if (layer.visible !== previous.visible) {
+      return layer.visible ? "显示图层" : "隐藏图层";
+    }
+    if (layer.locked !== previous.locked) {
+      return layer.locked ? "锁定图层" : "解锁图层";
+    }
+    if (layer.name !== previous.name) return "重命名图层";
+    if (layer.opacity !== previous.opacity) return "修改图层透明度";
+  }
+  return "修改图层";
+};
+
+// 根据补丁生成可读的描述，例如“添加矩形”“修改 3 个元素的描边颜色”
+export const describePatch = (
+  patch: HistoryPatch,
+  content: CanvasContent
+): string => {
+  // 添加或删除图层（删除图层时同时删除其中的元素）
+  if (
+    patch.layers &&
+    patch.layers.before.length !== patch.layers.after.length
+  ) {
+    return describeLayers(patch.layers.before, patch.layers.after);
+  }
+  const added = [...patch.paths.added, ...patch.shapes.added].map(
+    ({ element }) => element
+  );
+  const removed = [...patch.paths.removed, ...patch.shapes.removed].map(
+    ({ element }) => element
+  );
+  const updated = [...patch.paths.updated, ...patch.shapes.updated];
+
+  if (added.length > 0 && removed.length === 0 && updated.length === 0) {
+    return `添加${describeElements(added)}`;
+  }
+  if (removed.length > 0 && added.length === 0 && updated.length === 0) {
+    return `删除${describeElements(removed)}`;
+  }
+  if (updated.length > 0 && added.length === 0 && removed.length === 0) {
+    const all = [...content.paths, ...content.shapes];
+    const elements = updated
+      .map(({ id }) => all.find((element) => element.id === id))
+      .filter((element): element is Element => !!element);
+    const changedFields = new Set(
+      updated.flatMap(({ after }) => Object.keys(after))
+    );
+    const matched = FIELD_LABELS.find(({ fields }) =>
+      fields.some((field) => changedFields.has(field))
+    );
+    const target =
+      elements.length > 0
+        ? describeElements(elements)
+        : ` ${updated.length} 个元素`;
+    return matched ? matched.format(target) : `修改${target}`;
+  }
+  if (added.length === 0 && removed.length === 0 && updated.length === 0) {
+    // 只修改了图层列表（没有调整元素顺序）
+    if (
+      patch.layers &&
+      isCollectionPatchEmpty(patch.paths) &&
+      isCollectionPatchEmpty(patch.shapes)
+    ) {
+      return describeLayers(patch.layers.before, patch.layers.after);
+    }
+    return "调整层级";
+  }
+  return "修改画布";
+};
+
+// 默认保留的历史步数
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+// 分支中的记录总数同样不超过上限：优先保留最近产生的分支，
+// 单个分支过长时丢弃它末尾的记录（后面的步骤依赖前面的步骤）
+export const limitBranches = (branches: HistoryBranch[], limit: number) => {
+  let remaining = limit;
+  const limited = new Map<HistoryBranch, HistoryBranch>();
+  [...branches]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .forEach((branch) => {
+      if (remaining <= 0) return;
+      const entries = branch.entries.slice(0, remaining);
+      remaining -= entries.length;
+      limited.set(
+        branch,
+        entries.length === branch.entries.length
+          ? branch
+          : { ...branch, entries }
+      );
+    });
+  return branches.flatMap((branch) => limited.get(branch) ?? []);
+};
+
+// 丢弃最早的记录后，清理已经无法到达的分支和检查点
+export const pruneUnreachable = (
+  history: HistoryEntry[],
+  branches: HistoryBranch[],
+  checkpoints: HistoryCheckpoint[],
+  initialReachable: boolean
+) => {
+  const reachable = new Set<string | null>(history.map((entry) => entry.id));
+  if (initialReachable) reachable.add(null);
+
+  // 分支可能从另一个分支分出，反复扫描直到没有新的可达分支
+  const kept = new Set<HistoryBranch>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    branches.forEach((branch) => {
+      if (kept.has(branch) || !reachable.has(branch.forkEntryId)) return;
+      kept.add(branch);
+      branch.entries.forEach((entry) => reachable.add(entry.id));
+      changed = true;
+    });
+  }
+
+  return {
+    historyBranches: branches.filter((branch) => kept.has(branch)),
+    checkpoints: checkpoints.filter((checkpoint) =>
+      reachable.has(checkpoint.entryId)
+    ),
+  };
+};
@@ -0,0 +1,477 @@
+import type { CanvasShape } from "@/types/canvas";
+import type { CanvasState } from "@/lib/collaboration-service";
+
+// Mermaid 流程图导入：离线解析 flowchart/graph 语法，分层布局后生成可编辑的图形
+// - 圆形节点 ((...)) 转为圆形，其他节点形状都转为矩形，节点文字转为居中的文本
+// - 连线转为箭头（--- 等无箭头的连线转为线条），连线文字放在连线中点
+// - subgraph、classDef、style 等只影响样式的语句会被忽略
+
+type Direction = "TB" | "BT" | "LR" | "RL";
+
+interface MermaidNode {
+  id: string;
+  label: string;
+  shape: "rectangle" | "circle";
+}
+
+interface MermaidEdge {
+  from: string;
+  to: string;
+  label: string;
+  hasArrow: boolean;
+}
+
+export interface MermaidGraph {
+  direction: Direction;
+  nodes: MermaidNode[];
+  edges: MermaidEdge[];
+}
+
+export interface MermaidImportOptions {
+  center?: { x: number; y: number }; // 图的中心位置（画布坐标）
+  stroke?: string;
+  labelBackground?: string; // 连线文字的背景色，避免与连线重叠看不清
+}
+
+// 节点形状的括号，较长的写在前面优先匹配
+const NODE_SHAPES: [string, string, MermaidNode["shape"]][] = [
+  ["(((", ")))", "circle"],
+  ["((", "))", "circle"],
+  ["([", "])", "rectangle"],
+  ["[[", "]]", "rectangle"],
+  ["[(", ")]", "rectangle"],
+  ["{{", "}}", "rectangle"],
+  ["[/", "/]", "rectangle"],
+  ["[\\", "\\]", "rectangle"],
+  ["[/", "\\]", "rectangle"],
+  ["[\\", "/]", "rectangle"],
+  ["(", ")", "rectangle"],
+  ["[", "]", "rectangle"],
+  ["{", "}", "rectangle"],
+  [">", "]", "rectangle"],
+];
+
+// 普通连线：-->、---、==>、-.->，可带 |文字|
+const LINK_PATTERN =
+  /^<?(-{2,}>|-{3,}|={2,}>|={3,}|-\.+->|-\.+-|~~~)\s*(?:\|([^|]*)\|)?/;
+
+// 文字写在中间的连线：-- 文字 -->、== 文字 ==>、-. 文字 .->
+const LABELED_LINK_PATTERN =
+  /^<?(--|==|-\.)\s+(.+?)\s+(-{2,}>|-{3,}|={2,}>|={3,}|\.+-+>|\.+-+)/;
+
+const NODE_ID_PATTERN = /^[\p{L}\p{N}_]+/u;
+
+// 只影响样式或交互、不产生图形的语句
+const IGNORED_STATEMENTS =
+  /^(subgraph|end|classDef|class|style|linkStyle|click|direction)\b/;
+
+const FONT_SIZE = 16;
+const NODE_PADDING_X = 20;
+const NODE_HEIGHT = 44;
+const NODE_GAP = 40; // 同一层节点之间的间距
+const RANK_GAP = 70; // 相邻两层之间的间距
+const ORDERING_PASSES = 4;
+
+const createId = () => Math.random().toString(36).substring(7);
+
+// 去掉文字两端的引号和 Markdown 反引号，<br> 转为空格（画布文本只有一行）
+const cleanLabel = (label: string) =>
+  label
+    .trim()
+    .replace(/^"(.*)"$/, "$1")
+    .replace(/^`(.*)`$/, "$1")
+    .replace(/<br\s*\/?>/gi, " ")
+    .trim();
+
+// 按换行和分号拆分语句并去掉 %% 注释；双引号中的分号和 %% 属于文字
+const splitStatements = (source: string) => {
+  const statements: string[] = [];
+  let current = "";
+  let inQuote = false;
+  let inComment = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\n" || (char === ";" && !inQuote && !inComment)) {
+      statements.push(current);
+      current = "";
+      inQuote = false;
+      inComment = false;
+    } else if (inComment) {
+      continue;
+    } else if (char === "%" && source[i + 1] === "%" && !inQuote) {
+      inComment = true;
+    } else {
+      if (char === '"') inQuote = !inQuote;
+      current += char;
+    }
+  }
+  statements.push(current);
+  return statements.map((statement) => statement.trim()).filter(Boolean);
+};
+
+// 节点文字结束的括号位置：带引号的文字中可以出现括号；找不到时返回 -1
+const findLabelEnd = (text: string, start: number, close: string) => {
+  const quote = text.slice(start).match(/^\s*"/);
+  if (!quote) return text.indexOf(close, start);
+  const quoteEnd = text.indexOf('"', start + quote[0].length);
+  return quoteEnd < 0 ? -1 : text.indexOf(close, quoteEnd + 1);
+};
+
+// 解析 Mermaid 流程图；不是 flowchart/graph 时抛出错误
+export const parseMermaid = (source: string): MermaidGraph => {
+  const statements = splitStatements(source);
+
+  const header = statements
+    .shift()
+    ?.match(/^(?:flowchart|graph)(?:\s+(TB|TD|BT|LR|RL))?\s*$/i);
+  if (!header) {
+    throw new Error("Only Mermaid flowchart/graph diagrams are supported");
+  }
+  const rawDirection = (header[1] || "TB").toUpperCase();
+  const direction = (rawDirection === "TD" ? "TB" : rawDirection) as Direction;
+
+  const nodes = new Map<string, MermaidNode>();
+  const edges: MermaidEdge[] = [];
+
+  // 读取一个节点，返回节点 ID 和剩余文本
+  const readNode = (text: string): [string, string] | null => {
+    const idMatch = text.match(NODE_ID_PATTERN);
+    if (!idMatch) return null;
+    const id = idMatch[0];
+    let rest = text.slice(id.length);
+    let label: string | null = null;
+    let shape: MermaidNode["shape"] = "rectangle";
+
+    const bracket = NODE_SHAPES.find(([open]) => rest.startsWith(open));
+    if (bracket) {
+      const [open, close, bracketShape] = bracket;
+      const end = findLabelEnd(rest, open.length, close);
+      if (end < 0) throw new Error(`Unclosed node "${id}"`);
+      label = cleanLabel(rest.slice(open.length, end));
+      shape = bracketShape;
+      rest = rest.slice(end + close.length);
+    }
+    // 样式类 :::className
+    rest = rest.replace(/^:::[\w-]+/, "");
+
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, { id, label: label ?? id, shape });
+    } else if (label !== null) {
+      // 后面的定义补充文字和形状
+      existing.label = label;
+      existing.shape = shape;
+    }
+    return [id, rest];
+  };
+
+  // 读取用 & 连接的一组节点
+  const readNodeGroup = (text: string): [string[], string] | null => {
+    const ids: string[] = [];
+    let rest = text;
+    while (true) {
+      const result = readNode(rest.trimStart());
+      if (!result) return ids.length ? [ids, rest] : null;
+      ids.push(result[0]);
+      rest = result[1];
+      const ampersand = rest.match(/^\s*&\s*/);
+      if (!ampersand) return [ids, rest];
+      rest = rest.slice(ampersand[0].length);
+    }
+  };
+
+  statements.forEach((statement) => {
+    if (IGNORED_STATEMENTS.test(statement)) return;
+
+    const first = readNodeGroup(statement);
+    if (!first) throw new Error(`Cannot parse "${statement}"`);
+    let [previous, rest] = first;
+
+    // 依次读取 连线 + 节点组，支持 A --> B --> C 的链式写法
+    while (rest.trim()) {
+      const trimmed = rest.trimStart();
+      const link =
+        trimmed.match(LINK_PATTERN) || trimmed.match(LABELED_LINK_PATTERN);
+      if (!link) throw new Error(`Cannot parse "${statement}"`);
+      const isLabeled = !trimmed.match(LINK_PATTERN);
+      const label = cleanLabel(link[2] || "");
+      const hasArrow = (isLabeled ? link[3] : link[1]).endsWith(">");
+      // ~~~ 是不可见的连线，只用于调整布局
+      const isVisible = link[1] !== "~~~";
+
+      const next = readNodeGroup(trimmed.slice(link[0].length));
+      if (!next) throw new Error(`Missing target node in "${statement}"`);
+      if (isVisible) {
+        previous.forEach((from) =>
+          next[0].forEach((to) => edges.push({ from, to, label, hasArrow }))
+        );
+      }
+      [previous, rest] = next;
+    }
+  });
+
+  if (nodes.size === 0) throw new Error("Flowchart contains no nodes");
+  return { direction, nodes: [...nodes.values()], edges };
+};
+
+// 与画布一致的文本宽度测量
+let measureContext: CanvasRenderingContext2D | null = null;
+const measureTextWidth = (text: string) => {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return text.length * FONT_SIZE * 0.6;
+  measureContext.font = `normal normal ${FONT_SIZE}px Arial`;
+  return measureContext.measureText(text).width;
+};
+
+// 分层：去掉环中的回边后按最长路径分层，再按相邻层的重心排序以减少交叉
+const layoutRanks = (graph: MermaidGraph) => {
+  const ids = graph.nodes.map((node) => node.id);
+  const outgoing = new Map(ids.map((id) => [id, [] as string[]]));
+  graph.edges.forEach(({ from, to }) => {
+    if (from !== to) outgoing.get(from)?.push(to);
+  });
+
+  // 深度优先找出回边（指向正在访问的节点），分层时忽略
+  const state = new Map<string, "visiting" | "done">();
+  const forward = new Map(ids.map((id) => [id, [] as string[]]));
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    outgoing.get(id)?.forEach((to) => {
+      if (state.get(to) === "visiting") return;
+      forward.get(id)?.push(to);
+      if (!state.has(to)) visit(to);
+    });
+    state.set(id, "done");
+  };
+  ids.forEach((id) => !state.has(id) && visit(id));
+
+  // 最长路径分层（按拓扑顺序松弛）
+  const rank = new Map(ids.map((id) => [id, 0]));
+  const indegree = new Map(ids.map((id) => [id, 0]));
+  forward.forEach((targets) =>
+    targets.forEach((to) => indegree.set(to, (indegree.get(to) || 0) + 1))
+  );
+  const queue = ids.filter((id) => indegree.get(id) === 0);
+  while (queue.length) {
+    const id = queue.shift() as string;
+    forward.get(id)?.forEach((to) => {
+      rank.set(to, Math.max(rank.get(to) || 0, (rank.get(id) || 0) + 1));
+      indegree.set(to, (indegree.get(to) || 0) - 1);
+      if (indegree.get(to) === 0) queue.push(to);
+    });
+  }
+
+  const layers: string[][] = [];
+  ids.forEach((id) => {
+    const r = rank.get(id) || 0;
+    (layers[r] ||= []).push(id);
+  });
+
+  // 上下交替扫描，按相邻层中相连节点的平均位置排序
+  const neighbors = (id: string, downward: boolean) =>
+    graph.edges
+      .filter((edge) => (downward ? edge.to === id : edge.from === id))
+      .map((edge) => (downward ? edge.from : edge.to));
+  for (let pass = 0; pass < ORDERING_PASSES; pass++) {
+    const downward = pass % 2 === 0;
+    const order = downward
+      ? layers.map((_, i) => i).slice(1)
+      : layers
+          .map((_, i) => i)
+          .slice(0, -1)
+          .reverse();
+    order.forEach((i) => {
+      const reference = layers[downward ? i - 1 : i + 1];
+      const position = new Map(reference.map((id, index) => [id, index]));
+      const barycenter = (id: string) => {
+        const values = neighbors(id, downward)
+          .map((n) => position.get(n))
+          .filter((v): v is number => v !== undefined);
+        return values.length
+          ? values.reduce((a, b) => a + b, 0) / values.length
+          : layers[i].indexOf(id);
+      };
+      const scores = new Map(layers[i].map((id) => [id, barycenter(id)]));
+      layers[i] = [...layers[i]].sort(
+        (a, b) => (scores.get(a) || 0) - (scores.get(b) || 0)
+      );
+    });
+  }
+  return layers;
+};
+
+interface NodeBox {
+  node: MermaidNode;
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  textWidth: number;
+}
+
+// 从节点中心沿方向 (dx, dy) 到边框的距离
+const distanceToBorder = (box: NodeBox, dx: number, dy: number) => {
+  const length = Math.hypot(dx, dy) || 1;
+  if (box.node.shape === "circle") return box.width / 2;
+  const tx = dx ? box.width / 2 / Math.abs(dx / length) : Infinity;
+  const ty = dy ? box.height / 2 / Math.abs(dy / length) : Infinity;
+  return Math.min(tx, ty);
+};
+
+// 把流程图布局为画布元素
+export const layoutMermaid = (
+  graph: MermaidGraph,
+  {
+    center = { x: 0, y: 0 },
+    stroke = "#000000",
+    labelBackground,
+  }: MermaidImportOptions = {}
+): CanvasState => {
+  const horizontal = graph.direction === "LR" || graph.direction === "RL";
+  const reversed = graph.direction === "BT" || graph.direction === "RL";
+  const layers = layoutRanks(graph);
+
+  // 节点尺寸
+  const boxes = new Map<string, NodeBox>();
+  graph.nodes.forEach((node) => {
+    const textWidth = measureTextWidth(node.label);
+    const width = Math.max(textWidth + NODE_PADDING_X * 2, NODE_HEIGHT * 1.5);
+    const size =
+      node.shape === "circle"
+        ? Math.max(textWidth + NODE_PADDING_X, NODE_HEIGHT)
+        : 0;
+    boxes.set(node.id, {
+      node,
+      cx: 0,
+      cy: 0,
+      width: size || width,
+      height: size || NODE_HEIGHT,
+      textWidth,
+    });
+  });
+
+  // 层沿主方向排列，层内节点沿交叉方向排列并居中
+  let rankOffset = 0;
+  layers.forEach((layer) => {
+    const layerBoxes = layer.map((id) => boxes.get(id) as NodeBox);
+    const depth = Math.max(
+      ...layerBoxes.map((box) => (horizontal ? box.width : box.height))
+    );
+    const breadth =
+      layerBoxes.reduce(
+        (sum, box) => sum + (horizontal ? box.height : box.width),
+        0
+      ) +
+      NODE_GAP * (layerBoxes.length - 1);
+
+    let crossOffset = -breadth / 2;
+    layerBoxes.forEach((box) => {
+      const size = horizontal ? box.height : box.width;
+      const main = (reversed ? -1 : 1) * (rankOffset + depth / 2);
+      const cross = crossOffset + size / 2;
+      box.cx = horizontal ? main : cross;
+      box.cy = horizontal ? cross : main;
+      crossOffset += size + NODE_GAP;
+    });
+    rankOffset += depth + RANK_GAP;
+  });
+
+  // 平移到指定中心
+  const all = [...boxes.values()];
+  const minX = Math.min(...all.map((box) => box.cx - box.width / 2));
+  const maxX = Math.max(...all.map((box) => box.cx + box.width / 2));
+  const minY = Math.min(...all.map((box) => box.cy - box.height / 2));
+  const maxY = Math.max(...all.map((box) => box.cy + box.height / 2));
+  all.forEach((box) => {
+    box.cx += center.x - (minX + maxX) / 2;
+    box.cy += center.y - (minY + maxY) / 2;
+  });
+
+  const base = { stroke, strokeWidth: 2, opacity: 1, rotation: 0 };
+  const createText = (
+    text: string,
+    cx: number,
+    cy: number,
+    textWidth: number,
+    backgroundColor?: string
+  ): CanvasShape => ({
+    ...base,
+    id: createId(),
+    type: "text",
+    // 画布文本的基线在 y + fontSize 处，文本框高度为 1.2 倍字号
+    x: cx - textWidth / 2,
+    y: cy - FONT_SIZE * 0.6,
+    width: textWidth,
+    height: FONT_SIZE * 1.2,
+    text,
+    fontSize: FONT_SIZE,
+    fontFamily: "Arial",
+    fill: stroke,
+    strokeWidth: 0,
+    backgroundColor,
+  });
+
+  const shapes: CanvasShape[] = [];
+  all.forEach((box) => {
+    shapes.push({
+      ...base,
+      id: createId(),
+      type: box.node.shape,
+      x: box.cx - box.width / 2,
+      y: box.cy - box.height / 2,
+      width: box.width,
+      height: box.height,
+      fill: "transparent",
+    });
+    shapes.push(createText(box.node.label, box.cx, box.cy, box.textWidth));
+  });
+
+  // 连线从节点边框连到节点边框
+  graph.edges.forEach((edge) => {
+    const from = boxes.get(edge.from) as NodeBox;
+    const to = boxes.get(edge.to) as NodeBox;
+    if (from === to) return;
+    const dx = to.cx - from.cx;
+    const dy = to.cy - from.cy;
+    const length = Math.hypot(dx, dy) || 1;
+    const start = distanceToBorder(from, dx, dy);
+    const end = distanceToBorder(to, -dx, -dy);
+    if (start + end >= length) return;
+
+    const x1 = from.cx + (dx / length) * start;
+    const y1 = from.cy + (dy / length) * start;
+    const x2 = to.cx - (dx / length) * end;
+    const y2 = to.cy - (dy / length) * end;
+    shapes.push({
+      ...base,
+      id: createId(),
+      type: edge.hasArrow ? "arrow" : "line",
+      x: x1,
+      y: y1,
+      width: x2 - x1,
+      height: y2 - y1,
+      points: [x1, y1, x2, y2],
+    });
+    if (edge.label) {
+      shapes.push(
+        createText(
+          edge.label,
+          (x1 + x2) / 2,
+          (y1 + y2) / 2,
+          measureTextWidth(edge.label),
+          labelBackground
+        )
+      );
+    }
+  });
+
+  return { paths: [], shapes };
+};
+
+// 解析并布局 Mermaid 流程图
+export const importMermaid = (
+  source: string,
+  options?: MermaidImportOptions
+): CanvasState => layoutMermaid(parseMermaid(source), options);
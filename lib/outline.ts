@@ -0,0 +1,109 @@
+import type { CanvasLayer, CanvasPath, CanvasShape } from "@/types/canvas";
+import type { LayeredContent } from "@/lib/layers";
+import { getElementLayer } from "@/lib/layers";
+import { getGroupIds } from "@/lib/groups";
+import { getCanvasObjects } from "@/lib/z-order";
+
+// 大纲：图层 → 组 → 元素的树，每一级都按层叠顺序从上到下排列
+// - 组排在它最上面的成员所在的位置；成员在层叠顺序中不连续时也都列在组下面
+// - 成员分布在多个图层的组，在每个图层中分别列出该图层内的成员
+
+type CanvasElement = CanvasPath | CanvasShape;
+
+export type OutlineElementType = "path" | CanvasShape["type"];
+
+export interface OutlineNode {
+  id: string; // 元素 ID 或组 ID
+  kind: "element" | "group";
+  element?: CanvasElement; // kind 为 element 时的元素
+  parentGroupId: string | null; // 所在的组，不在组内时为 null
+  elementIds: string[]; // 节点包含的所有元素，从上到下
+  children: OutlineNode[];
+}
+
+export interface OutlineLayer {
+  layer: CanvasLayer;
+  elementIds: string[]; // 图层中的所有元素，从上到下
+  nodes: OutlineNode[];
+}
+
+const TYPE_NAMES: Record<OutlineElementType, string> = {
+  path: "画笔",
+  rectangle: "矩形",
+  circle: "圆形",
+  arrow: "箭头",
+  line: "直线",
+  text: "文本",
+  image: "图片",
+};
+
+// 名称中显示的文本最多保留的字数
+const NAME_MAX_LENGTH = 20;
+
+export const getElementType = (element: CanvasElement): OutlineElementType =>
+  "type" in element ? element.type : "path";
+
+// 元素在大纲中的名称：自定义名称 > 文本内容的第一行 > 类型
+export const getElementName = (element: CanvasElement) => {
+  if (element.name) return element.name;
+  const text = "type" in element ? element.text?.trim() : undefined;
+  if (text) {
+    const line = text.split("\n")[0];
+    return line.length > NAME_MAX_LENGTH
+      ? `${line.slice(0, NAME_MAX_LENGTH)}…`
+      : line;
+  }
+  return TYPE_NAMES[getElementType(element)];
+};
+
+// 生成大纲，图层从上到下排列
+export const buildOutline = (content: LayeredContent): OutlineLayer[] => {
+  const outline = content.layers.map((layer) => ({
+    layer,
+    elementIds: [] as string[],
+    nodes: [] as OutlineNode[],
+  }));
+  // 键为 图层 ID/组 ID，同一个组在不同图层中是不同的节点
+  const groups = new Map<string, OutlineNode>();
+
+  getCanvasObjects(content)
+    .reverse()
+    .forEach(({ data: element }) => {
+      const layer = getElementLayer(element, content.layers);
+      if (!layer) return;
+      const entry = outline[content.layers.indexOf(layer)];
+      entry.elementIds.push(element.id);
+
+      let siblings = entry.nodes;
+      let parentGroupId: string | null = null;
+      // groupIds 从内到外排列，建树时从最外层的组开始
+      [...getGroupIds(element)].reverse().forEach((groupId) => {
+        const key = `${layer.id}/${groupId}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = {
+            id: groupId,
+            kind: "group",
+            parentGroupId,
+            elementIds: [],
+            children: [],
+          };
+          groups.set(key, group);
+          siblings.push(group);
+        }
+        group.elementIds.push(element.id);
+        siblings = group.children;
+        parentGroupId = groupId;
+      });
+      siblings.push({
+        id: element.id,
+        kind: "element",
+        element,
+        parentGroupId,
+        elementIds: [element.id],
+        children: [],
+      });
+    });
+
+  return outline.reverse();
+};
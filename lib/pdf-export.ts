@@ -0,0 +1,652 @@
+import type { CanvasPath, CanvasShape } from "@/types/canvas";
+import type {
+  ImageResolver,
+  SceneBounds,
+  SceneContent,
+} from "@/lib/scene-renderer";
+import {
+  expandBounds,
+  getPathOutline,
+  getSceneBounds,
+  IMAGE_FILTERS,
+  loadSceneImages,
+} from "@/lib/scene-renderer";
+import { getCanvasObjects } from "@/lib/z-order";
+
+// PDF 导出：在浏览器中直接生成矢量 PDF，不依赖服务器或第三方库
+// - 图形、路径、文本输出为 PDF 矢量指令；文本使用 PDF 内置字体
+// - 内置字体只支持西文字符，包含中文等字符的文本会转为图片嵌入
+// - 图片按原始像素嵌入（带透明通道），滤镜在嵌入前应用
+
+export type PageSize = "a4" | "letter";
+export type PageOrientation = "portrait" | "landscape";
+
+// 用户标记的导出区域，每个区域导出为一页
+export interface ExportFrame {
+  id: string;
+  name: string;
+  bounds: SceneBounds;
+}
+
+export interface PDFExportOptions {
+  pageSize?: PageSize;
+  orientation?: PageOrientation;
+  frames?: ExportFrame[]; // 为空时把整个画板放到一页
+  padding?: number;
+  background?: string | null;
+}
+
+// 纸张尺寸（单位：pt，1pt = 1/72 英寸），均为纵向
+const PAGE_SIZES: Record<PageSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+
+// 页面四周留白（pt）
+const PAGE_MARGIN = 36;
+
+// 嵌入图片的最大边长，避免超大图片让文件过大
+const MAX_IMAGE_SIZE = 2048;
+
+// 文本转图片时的分辨率倍数
+const TEXT_RASTER_SCALE = 4;
+
+// 圆弧的贝塞尔近似系数
+const KAPPA = 0.5522847498;
+
+// PDF 内置字体（Helvetica/Times/Courier 及其粗体、斜体）
+const getFontName = (shape: CanvasShape) => {
+  const family = (shape.fontFamily || "Arial").toLowerCase();
+  const base =
+    /times|serif/.test(family) && !/sans/.test(family)
+      ? "Times"
+      : /courier|mono/.test(family)
+        ? "Courier"
+        : "Helvetica";
+  const bold = shape.isbold;
+  const italic = shape.isitalic;
+  if (base === "Times") {
+    if (bold && italic) return "Times-BoldItalic";
+    if (bold) return "Times-Bold";
+    if (italic) return "Times-Italic";
+    return "Times-Roman";
+  }
+  if (bold && italic) return `${base}-BoldOblique`;
+  if (bold) return `${base}-Bold`;
+  if (italic) return `${base}-Oblique`;
+  return base;
+};
+
+// 内置字体使用 WinAnsi 编码，只能直接输出这些字符
+const isWinAnsiText = (text: string) => /^[\x20-\x7e\xa0-\xff]*$/.test(text);
+
+const escapePDFString = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+
+const num = (value: number) => String(Number(value.toFixed(3)));
+
+// 用浏览器解析任意 CSS 颜色，返回 0-1 的 RGB 分量和透明度
+let colorContext: CanvasRenderingContext2D | null = null;
+const parseColor = (color: string) => {
+  if (!colorContext) {
+    colorContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!colorContext) return { rgb: [0, 0, 0], alpha: 1 };
+  colorContext.fillStyle = "#000000";
+  colorContext.fillStyle = color;
+  const value = String(colorContext.fillStyle);
+  if (value.startsWith("#")) {
+    const rgb = [1, 3, 5].map((i) => parseInt(value.slice(i, i + 2), 16) / 255);
+    return { rgb, alpha: 1 };
+  }
+  // 带透明度的颜色会被规范化为 rgba(r, g, b, a)
+  const parts = value.match(/[\d.]+/g)?.map(Number) || [0, 0, 0, 1];
+  return {
+    rgb: parts.slice(0, 3).map((v) => v / 255),
+    alpha: parts[3] ?? 1,
+  };
+};
+
+// 与画布一致的文本宽度测量
+let measureContext: CanvasRenderingContext2D | null = null;
+const measureTextWidth = (text: string, font: string) => {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return text.length * 8;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+const isVisibleFill = (fill?: string) => !!fill && fill !== "transparent";
+
+// 压缩数据（zlib 格式，对应 PDF 的 FlateDecode）；浏览器不支持时返回 null
+const deflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof CompressionStream === "undefined") return null;
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const latin1 = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+interface EmbeddedImage {
+  name: string;
+  width: number;
+  height: number;
+  rgb: Uint8Array;
+  alpha: Uint8Array | null; // 完全不透明时为 null
+}
+
+// 把图片（应用滤镜后）转为 RGB 和透明通道的原始像素
+const rasterizeImage = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  filter?: string
+): Omit<EmbeddedImage, "name"> | null => {
+  const ratio = Math.min(1, MAX_IMAGE_SIZE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * ratio));
+  const h = Math.max(1, Math.round(height * ratio));
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.filter = (filter && IMAGE_FILTERS[filter]) || "none";
+  ctx.drawImage(source, 0, 0, w, h);
+
+  const { data } = ctx.getImageData(0, 0, w, h);
+  const rgb = new Uint8Array(w * h * 3);
+  const alpha = new Uint8Array(w * h);
+  let opaque = true;
+  for (let i = 0; i < w * h; i++) {
+    rgb[i * 3] = data[i * 4];
+    rgb[i * 3 + 1] = data[i * 4 + 1];
+    rgb[i * 3 + 2] = data[i * 4 + 2];
+    alpha[i] = data[i * 4 + 3];
+    if (alpha[i] !== 255) opaque = false;
+  }
+  return { width: w, height: h, rgb, alpha: opaque ? null : alpha };
+};
+
+// 单页内容：绘制指令和用到的资源
+class PageBuilder {
+  private ops: string[] = [];
+  readonly fonts = new Set<string>();
+  readonly opacities = new Set<number>();
+  readonly images: EmbeddedImage[] = [];
+
+  constructor(
+    private getImage: ImageResolver,
+    private imageCache: Map<string, EmbeddedImage | null>,
+    private nextImageName: () => string
+  ) {}
+
+  get content() {
+    return this.ops.join("\n");
+  }
+
+  push(...ops: string[]) {
+    this.ops.push(...ops);
+  }
+
+  private setOpacity(opacity: number) {
+    if (opacity >= 1) return;
+    const value = Number(opacity.toFixed(3));
+    this.opacities.add(value);
+    this.push(`/GS${String(value).replace(".", "_")} gs`);
+  }
+
+  private setFillColor(color: string) {
+    const { rgb, alpha } = parseColor(color);
+    this.push(`${rgb.map(num).join(" ")} rg`);
+    return alpha;
+  }
+
+  private setStrokeColor(color: string) {
+    const { rgb, alpha } = parseColor(color);
+    this.push(`${rgb.map(num).join(" ")} RG`);
+    return alpha;
+  }
+
+  // 绕 (cx, cy) 旋转
+  private rotate(degrees: number, cx: number, cy: number) {
+    if (!degrees) return;
+    const angle = (degrees * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.push(
+      `1 0 0 1 ${num(cx)} ${num(cy)} cm`,
+      `${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} 0 0 cm`,
+      `1 0 0 1 ${num(-cx)} ${num(-cy)} cm`
+    );
+  }
+
+  private useImage(
+    key: string,
+    create: () => Omit<EmbeddedImage, "name"> | null
+  ) {
+    if (!this.imageCache.has(key)) {
+      const image = create();
+      this.imageCache.set(
+        key,
+        image ? { ...image, name: this.nextImageName() } : null
+      );
+    }
+    const image = this.imageCache.get(key);
+    if (image && !this.images.includes(image)) this.images.push(image);
+    return image;
+  }
+
+  // 在 (x, y, width, height) 处绘制图片（当前坐标系 y 轴向下）
+  private drawImage(
+    image: EmbeddedImage,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) {
+    this.push(
+      "q",
+      `${num(width)} 0 0 ${num(-height)} ${num(x)} ${num(y + height)} cm`,
+      `/${image.name} Do`,
+      "Q"
+    );
+  }
+
+  drawPath(path: CanvasPath) {
+    const outline = getPathOutline(path);
+    if (outline.length === 0) return;
+    this.push("q");
+    const alpha = this.setFillColor(path.stroke);
+    this.setOpacity((path.opacity || 1) * alpha);
+    this.push(
+      outline
+        .map(([x, y], i) => `${num(x)} ${num(y)} ${i === 0 ? "m" : "l"}`)
+        .join(" "),
+      "h f",
+      "Q"
+    );
+  }
+
+  drawShape(shape: CanvasShape) {
+    const width = shape.width || 0;
+    const height = shape.height || 0;
+    const hasStroke = shape.strokeWidth > 0;
+    const hasFill = isVisibleFill(shape.fill);
+
+    this.push("q");
+    this.setOpacity(shape.opacity || 1);
+
+    // 与画布一致：箭头和线条绕端点中点旋转，其他图形绕自身中心旋转
+    const [x1, y1, x2, y2] = shape.points || [];
+    if (shape.type === "arrow" || shape.type === "line") {
+      this.rotate(shape.rotation, (x1 + x2) / 2, (y1 + y2) / 2);
+    } else {
+      this.rotate(shape.rotation, shape.x + width / 2, shape.y + height / 2);
+    }
+
+    this.setStrokeColor(shape.stroke);
+    if (hasStroke) this.push(`${num(shape.strokeWidth)} w`);
+    if (hasFill) this.setFillColor(shape.fill as string);
+    const paintOp = hasFill ? (hasStroke ? "B" : "f") : hasStroke ? "S" : "n";
+
+    switch (shape.type) {
+      case "rectangle":
+        this.push(
+          `${num(shape.x)} ${num(shape.y)} ${num(width)} ${num(height)} re ${paintOp}`
+        );
+        break;
+      case "circle": {
+        const cx = shape.x + width / 2;
+        const cy = shape.y + height / 2;
+        const r = Math.abs(width + height) / 4;
+        const k = r * KAPPA;
+        this.push(
+          [
+            `${num(cx + r)} ${num(cy)} m`,
+            `${num(cx + r)} ${num(cy + k)} ${num(cx + k)} ${num(cy + r)} ${num(cx)} ${num(cy + r)} c`,
+            `${num(cx - k)} ${num(cy + r)} ${num(cx - r)} ${num(cy + k)} ${num(cx - r)} ${num(cy)} c`,
+            `${num(cx - r)} ${num(cy - k)} ${num(cx - k)} ${num(cy - r)} ${num(cx)} ${num(cy - r)} c`,
+            `${num(cx + k)} ${num(cy - r)} ${num(cx + r)} ${num(cy - k)} ${num(cx + r)} ${num(cy)} c`,
+          ].join(" "),
+          `h ${paintOp}`
+        );
+        break;
+      }
+      case "arrow": {
+        if (!shape.points || shape.points.length < 4 || !hasStroke) break;
+        const headLength = 10;
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        const head = [angle - Math.PI / 6, angle + Math.PI / 6].map(
+          (a) =>
+            `${num(x2)} ${num(y2)} m ${num(x2 - headLength * Math.cos(a))} ${num(y2 - headLength * Math.sin(a))} l`
+        );
+        this.push(
+          `${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l ${head.join(" ")} S`
+        );
+        break;
+      }
+      case "line":
+        if (!shape.points || shape.points.length < 4 || !hasStroke) break;
+        this.push(`${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+        break;
+      case "text":
+        this.drawText(shape);
+        break;
+      case "image": {
+        if (!shape.src) break;
+        const source = this.getImage(shape.src);
+        if (!source) break;
+        const image = this.useImage(`${shape.src}|${shape.filter || ""}`, () =>
+          rasterizeImage(
+            source,
+            source.naturalWidth || shape.width || 100,
+            source.naturalHeight || shape.height || 100,
+            shape.filter
+          )
+        );
+        if (image) {
+          this.drawImage(
+            image,
+            shape.x,
+            shape.y,
+            shape.width || 100,
+            shape.height || 100
+          );
+        }
+        break;
+      }
+    }
+
+    this.push("Q");
+  }
+
+  private drawText(shape: CanvasShape) {
+    const text = shape.text || "";
+    const fontSize = shape.fontSize || 16;
+    const fontWeight = shape.isbold ? "bold" : "normal";
+    const fontStyle = shape.isitalic ? "italic" : "normal";
+    const font = `${fontStyle} ${fontWeight} ${fontSize}px ${shape.fontFamily || "Arial"}`;
+    const color = shape.fill || shape.stroke;
+
+    const textWidth = measureTextWidth(text, font);
+
+    if (shape.backgroundColor && shape.backgroundColor !== "transparent") {
+      this.push("q");
+      this.setFillColor(shape.backgroundColor);
+      this.push(
+        `${num(shape.x)} ${num(shape.y)} ${num(textWidth)} ${num(fontSize * 1.2)} re f`,
+        "Q"
+      );
+    }
+
+    if (isWinAnsiText(text)) {
+      const fontName = getFontName(shape);
+      this.fonts.add(fontName);
+      this.push("q");
+      this.setFillColor(color);
+      // 当前坐标系 y 轴向下，文本需要再翻转一次
+      this.push(
+        `BT /${fontName.replace(/-/g, "")} ${num(fontSize)} Tf 1 0 0 -1 ${num(shape.x)} ${num(shape.y + fontSize)} Tm (${escapePDFString(text)}) Tj ET`,
+        "Q"
+      );
+    } else {
+      // 内置字体无法显示的字符：把文本绘制成透明背景的图片
+      const height = fontSize * 1.4;
+      const image = this.useImage(`text|${font}|${color}|${text}`, () => {
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.max(1, Math.ceil(textWidth * TEXT_RASTER_SCALE));
+        canvas.height = Math.ceil(height * TEXT_RASTER_SCALE);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return null;
+        ctx.scale(TEXT_RASTER_SCALE, TEXT_RASTER_SCALE);
+        ctx.font = font;
+        ctx.fillStyle = color;
+        ctx.fillText(text, 0, fontSize);
+        return rasterizeImage(canvas, canvas.width, canvas.height);
+      });
+      if (image) this.drawImage(image, shape.x, shape.y, textWidth, height);
+    }
+
+    // 下划线和删除线按画布上的位置绘制
+    if (shape.isunderline || shape.isstrikethrough) {
+      this.push("q");
+      this.setStrokeColor(color);
+      this.push(`${Math.max(1, Math.floor(fontSize / 10))} w 1 J`);
+      if (shape.isunderline) {
+        const y = shape.y + fontSize + fontSize / 6;
+        this.push(
+          `${num(shape.x)} ${num(y)} m ${num(shape.x + textWidth)} ${num(y)} l S`
+        );
+      }
+      if (shape.isstrikethrough) {
+        const y = shape.y + fontSize / 1.5;
+        this.push(
+          `${num(shape.x)} ${num(y)} m ${num(shape.x + textWidth)} ${num(y)} l S`
+        );
+      }
+      this.push("Q");
+    }
+  }
+}
+
+// 按对象编号组装 PDF 文件
+class PDFWriter {
+  private objects: (BlobPart[] | null)[] = [];
+
+  // 预留对象编号，之后再写入内容
+  reserve() {
+    this.objects.push(null);
+    return this.objects.length;
+  }
+
+  set(id: number, dictionary: string, stream?: Uint8Array) {
+    this.objects[id - 1] = stream
+      ? [
+          `${id} 0 obj\n${dictionary}\nstream\n`,
+          stream as BlobPart,
+          "\nendstream\nendobj\n",
+        ]
+      : [`${id} 0 obj\n${dictionary}\nendobj\n`];
+  }
+
+  add(dictionary: string, stream?: Uint8Array) {
+    const id = this.reserve();
+    this.set(id, dictionary, stream);
+    return id;
+  }
+
+  // 写入数据流，能压缩时使用 FlateDecode
+  async addStream(data: Uint8Array, dictionary: Record<string, string> = {}) {
+    const compressed = await deflate(data);
+    const entries = { ...dictionary };
+    if (compressed) entries.Filter = "/FlateDecode";
+    const body = compressed || data;
+    entries.Length = String(body.length);
+    const dict = `<< ${Object.entries(entries)
+      .map(([key, value]) => `/${key} ${value}`)
+      .join(" ")} >>`;
+    return this.add(dict, body);
+  }
+
+  toBlob(rootId: number) {
+    const header = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const parts: BlobPart[] = [latin1(header)];
+    const offsets: number[] = [];
+    let offset = header.length;
+
+    this.objects.forEach((object) => {
+      offsets.push(offset);
+      (object || []).forEach((part) => {
+        const bytes = typeof part === "string" ? latin1(part) : part;
+        parts.push(bytes);
+        offset += (bytes as Uint8Array).length;
+      });
+    });
+
+    const xref = [
+      "xref",
+      `0 ${this.objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${this.objects.length + 1} /Root ${rootId} 0 R >>`,
+      "startxref",
+      String(offset),
+      "%%EOF",
+      "",
+    ].join("\n");
+    parts.push(latin1(xref));
+    return new Blob(parts, { type: "application/pdf" });
+  }
+}
+
+// 生成 PDF；没有内容或区域时抛出错误
+export const createPDF = async (
+  content: SceneContent,
+  {
+    pageSize = "a4",
+    orientation = "portrait",
+    frames = [],
+    padding = 20,
+    background = null,
+  }: PDFExportOptions = {}
+): Promise<Blob> => {
+  // 每个区域一页；没有标记区域时整个画板一页
+  const areas = frames.length
+    ? frames.map((frame) => frame.bounds)
+    : [getSceneBounds(content)].filter((b): b is SceneBounds => b !== null);
+  if (areas.length === 0) throw new Error("Nothing to export");
+
+  const [portraitWidth, portraitHeight] = PAGE_SIZES[pageSize];
+  const [pageWidth, pageHeight] =
+    orientation === "portrait"
+      ? [portraitWidth, portraitHeight]
+      : [portraitHeight, portraitWidth];
+
+  const getImage = await loadSceneImages(content.shapes);
+  const imageCache = new Map<string, EmbeddedImage | null>();
+  let imageCount = 0;
+  const nextImageName = () => `Im${++imageCount}`;
+
+  const writer = new PDFWriter();
+  const catalogId = writer.reserve();
+  const pagesId = writer.reserve();
+  const pageIds: number[] = [];
+  const fontIds = new Map<string, number>();
+  const imageIds = new Map<EmbeddedImage, number>();
+
+  for (const bounds of areas) {
+    // 标记的区域按原样导出，整个画板时加上边距
+    const area = frames.length ? bounds : expandBounds(bounds, padding);
+
+    // 等比缩放到页面可用区域内并居中
+    const availableWidth = pageWidth - PAGE_MARGIN * 2;
+    const availableHeight = pageHeight - PAGE_MARGIN * 2;
+    const scale = Math.min(
+      availableWidth / area.width,
+      availableHeight / area.height
+    );
+    const offsetX = (pageWidth - area.width * scale) / 2;
+    const offsetY = (pageHeight - area.height * scale) / 2;
+
+    const page = new PageBuilder(getImage, imageCache, nextImageName);
+    // 画布坐标 → 页面坐标（PDF 的 y 轴向上，需要翻转）
+    page.push(
+      "q",
+      `${num(scale)} 0 0 ${num(-scale)} ${num(offsetX - area.x * scale)} ${num(pageHeight - offsetY + area.y * scale)} cm`
+    );
+    if (background) {
+      page.push("q");
+      const { rgb } = parseColor(background);
+      page.push(
+        `${rgb.map(num).join(" ")} rg`,
+        `${num(area.x)} ${num(area.y)} ${num(area.width)} ${num(area.height)} re f`,
+        "Q"
+      );
+    }
+    // 只显示区域内的内容
+    page.push(
+      `${num(area.x)} ${num(area.y)} ${num(area.width)} ${num(area.height)} re W n`
+    );
+    getCanvasObjects(content).forEach((object) =>
+      object.type === "path"
+        ? page.drawPath(object.data as CanvasPath)
+        : page.drawShape(object.data as CanvasShape)
+    );
+    page.push("Q");
+
+    // 资源：字体、透明度、图片
+    page.fonts.forEach((font) => {
+      if (!fontIds.has(font)) {
+        fontIds.set(
+          font,
+          writer.add(
+            `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`
+          )
+        );
+      }
+    });
+    for (const image of page.images) {
+      if (imageIds.has(image)) continue;
+      const smaskId = image.alpha
+        ? await writer.addStream(image.alpha, {
+            Type: "/XObject",
+            Subtype: "/Image",
+            Width: String(image.width),
+            Height: String(image.height),
+            ColorSpace: "/DeviceGray",
+            BitsPerComponent: "8",
+          })
+        : null;
+      imageIds.set(
+        image,
+        await writer.addStream(image.rgb, {
+          Type: "/XObject",
+          Subtype: "/Image",
+          Width: String(image.width),
+          Height: String(image.height),
+          ColorSpace: "/DeviceRGB",
+          BitsPerComponent: "8",
+          ...(smaskId ? { SMask: `${smaskId} 0 R` } : {}),
+        })
+      );
+    }
+
+    const fonts = [...page.fonts]
+      .map((font) => `/${font.replace(/-/g, "")} ${fontIds.get(font)} 0 R`)
+      .join(" ");
+    const states = [...page.opacities]
+      .map(
+        (value) =>
+          `/GS${String(value).replace(".", "_")} << /Type /ExtGState /ca ${value} /CA ${value} >>`
+      )
+      .join(" ");
+    const xObjects = page.images
+      .map((image) => `/${image.name} ${imageIds.get(image)} 0 R`)
+      .join(" ");
+
+    const contentId = await writer.addStream(latin1(page.content));
+    pageIds.push(
+      writer.add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] ` +
+          `/Resources << /Font << ${fonts} >> /ExtGState << ${states} >> /XObject << ${xObjects} >> >> ` +
+          `/Contents ${contentId} 0 R >>`
+      )
+    );
+  }
+
+  writer.set(
+    pagesId,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`
+  );
+  writer.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  return writer.toBlob(catalogId);
+};
@@ -0,0 +1,154 @@
+import type {
+  ImageResolver,
+  SceneBounds,
+  SceneContent,
+} from "@/lib/scene-renderer";
+import {
+  drawGridLines,
+  expandBounds,
+  getSceneBounds,
+  loadSceneImages,
+  pickContent,
+  renderScene,
+} from "@/lib/scene-renderer";
+
+// 位图导出：把场景绘制到离屏 canvas 上，再编码为 PNG/JPEG/WebP
+
+export type RasterFormat = "png" | "jpeg" | "webp";
+
+// 导出范围：全部内容、选中的元素、当前可见区域
+export type ExportRegion = "content" | "selection" | "viewport";
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  scale?: number; // 1x/2x/4x
+  region?: ExportRegion;
+  selectedIds?: string[]; // region 为 selection 时使用
+  viewport?: SceneBounds; // region 为 viewport 时使用（画布坐标）
+  padding?: number; // region 为 viewport 时忽略
+  background?: string | null; // 为空时透明（JPEG 不支持透明，使用白色）
+  showGrid?: boolean;
+  isDark?: boolean; // 网格颜色跟随主题
+  quality?: number; // JPEG/WebP 压缩质量 0-1
+}
+
+export const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+export interface RenderAreaOptions {
+  scale: number;
+  background?: string | null;
+  showGrid?: boolean;
+  isDark?: boolean;
+  getImage: ImageResolver;
+}
+
+// 把场景中指定区域绘制到 canvas 上（canvas 尺寸需要与区域 × 缩放一致）
+export const renderSceneArea = (
+  ctx: CanvasRenderingContext2D,
+  content: SceneContent,
+  area: SceneBounds,
+  { scale, background, showGrid, isDark = false, getImage }: RenderAreaOptions
+) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
+
+  ctx.setTransform(scale, 0, 0, scale, -area.x * scale, -area.y * scale);
+  if (showGrid) {
+    drawGridLines(ctx, area, isDark);
+  }
+  renderScene(ctx, content, getImage);
+};
+
+// 创建与区域 × 缩放同尺寸的离屏 canvas
+export const createAreaCanvas = (area: SceneBounds, scale: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.ceil(area.width * scale));
+  canvas.height = Math.max(1, Math.ceil(area.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  return { canvas, ctx };
+};
+
+// 根据导出范围计算要绘制的内容和区域
+const resolveExportArea = (
+  content: SceneContent,
+  {
+    region = "content",
+    selectedIds = [],
+    viewport,
+    padding = 20,
+  }: RasterExportOptions
+) => {
+  if (region === "viewport") {
+    if (!viewport) throw new Error("Viewport is required");
+    return { content, area: viewport };
+  }
+
+  const exported =
+    region === "selection" ? pickContent(content, selectedIds) : content;
+  const bounds = getSceneBounds(exported);
+  if (!bounds) throw new Error("Nothing to export");
+  return {
+    content: exported,
+    area: expandBounds(bounds, padding),
+  };
+};
+
+// 生成位图
+export const createRasterImage = async (
+  content: SceneContent,
+  options: RasterExportOptions
+): Promise<Blob> => {
+  const { format, scale = 1, showGrid, isDark, quality = 0.92 } = options;
+  const { content: exported, area } = resolveExportArea(content, options);
+  const background =
+    options.background || (format === "jpeg" ? "#ffffff" : null);
+
+  const getImage = await loadSceneImages(exported.shapes);
+  const { canvas, ctx } = createAreaCanvas(area, scale);
+  renderSceneArea(ctx, exported, area, {
+    scale,
+    background,
+    showGrid,
+    isDark,
+    getImage,
+  });
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, RASTER_MIME_TYPES[format], quality)
+  );
+  if (!blob) throw new Error("Failed to encode image");
+  // 浏览器不支持该格式时 toBlob 会退回 PNG
+  if (blob.type !== RASTER_MIME_TYPES[format]) {
+    throw new Error(`${format.toUpperCase()} is not supported by this browser`);
+  }
+  return blob;
+};
+
+// 预览图：把全部内容缩小到不超过 size 的 PNG（只缩小不放大）；画布为空时返回 null
+export const createThumbnail = async (
+  content: SceneContent,
+  size = 512
+): Promise<Blob | null> => {
+  const bounds = getSceneBounds(content);
+  if (!bounds) return null;
+  const padding = 20;
+  const scale = Math.min(
+    1,
+    size / (Math.max(bounds.width, bounds.height) + padding * 2)
+  );
+  return createRasterImage(content, {
+    format: "png",
+    scale,
+    padding,
+    background: "#ffffff",
+  });
+};
@@ -0,0 +1,545 @@
+import type { CanvasLayer, CanvasPath, CanvasShape } from "@/types/canvas";
+import { resolveAsset } from "@/lib/assets";
+import { getCanvasObjects } from "@/lib/z-order";
+
+// 场景渲染：只绘制画布内容（不含网格、选中框等交互元素），供画布和各种导出共用
+
+export interface SceneContent {
+  paths: CanvasPath[];
+  shapes: CanvasShape[];
+  layers?: CanvasLayer[]; // 图层（从下到上），用于确定层叠顺序；未提供时所有元素在同一图层
+}
+
+export interface SceneBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 根据图片地址取得已加载的图片，未加载时返回 undefined（绘制占位矩形）
+export type ImageResolver = (src: string) => HTMLImageElement | undefined;
+
+// 画笔压感模拟
+export function getStroke(points: number[][], options: any = {}) {
+  const { size = 8, thinning = 0.5, simulatePressure = true } = options;
+
+  const inputPoints = points.map((point, i) => {
+    const pressure = simulatePressure
+      ? Math.min(1, 1 - Math.abs(i - points.length / 2) / (points.length / 2))
+      : 0.5;
+    return [point[0], point[1], pressure];
+  });
+
+  const strokePoints: number[][] = [];
+
+  for (let i = 0; i < inputPoints.length; i++) {
+    const [x, y, pressure] = inputPoints[i];
+    const currentSize = size * (1 - thinning * (1 - pressure));
+
+    if (i === 0) {
+      strokePoints.push([x - currentSize / 2, y - currentSize / 2]);
+      strokePoints.push([x + currentSize / 2, y - currentSize / 2]);
+    } else {
+      const prevPoint = inputPoints[i - 1];
+      const angle = Math.atan2(y - prevPoint[1], x - prevPoint[0]);
+      const perpAngle = angle + Math.PI / 2;
+
+      strokePoints.push([
+        x + (Math.cos(perpAngle) * currentSize) / 2,
+        y + (Math.sin(perpAngle) * currentSize) / 2,
+      ]);
+    }
+  }
+
+  for (let i = inputPoints.length - 1; i >= 0; i--) {
+    const [x, y, pressure] = inputPoints[i];
+    const currentSize = size * (1 - thinning * (1 - pressure));
+    const angle =
+      i > 0
+        ? Math.atan2(y - inputPoints[i - 1][1], x - inputPoints[i - 1][0])
+        : 0;
+    const perpAngle = angle - Math.PI / 2;
+
+    strokePoints.push([
+      x + (Math.cos(perpAngle) * currentSize) / 2,
+      y + (Math.sin(perpAngle) * currentSize) / 2,
+    ]);
+  }
+
+  return strokePoints;
+}
+
+// 计算手绘路径的轮廓多边形，点数不足时返回空数组
+export const getPathOutline = (path: CanvasPath): number[][] => {
+  if (path.points.length < 4) return [];
+
+  const points: number[][] = [];
+  for (let i = 0; i < path.points.length; i += 2) {
+    points.push([path.points[i], path.points[i + 1]]);
+  }
+
+  return getStroke(points, {
+    size: path.strokeWidth * 2,
+    thinning: 0.6,
+    smoothing: 0.5,
+    streamline: 0.5,
+  });
+};
+
+// 绘制手绘路径
+export const drawPath = (ctx: CanvasRenderingContext2D, path: CanvasPath) => {
+  const strokeOutline = getPathOutline(path);
+  if (strokeOutline.length === 0) return;
+
+  ctx.fillStyle = path.stroke;
+  ctx.globalAlpha = path.opacity || 1;
+
+  ctx.beginPath();
+  ctx.moveTo(strokeOutline[0][0], strokeOutline[0][1]);
+
+  for (let i = 1; i < strokeOutline.length; i++) {
+    ctx.lineTo(strokeOutline[i][0], strokeOutline[i][1]);
+  }
+
+  ctx.closePath();
+  ctx.fill();
+  ctx.globalAlpha = 1;
+};
+
+// 绘制箭头
+export const drawArrow = (
+  ctx: CanvasRenderingContext2D,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+) => {
+  const headLength = 10;
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.lineTo(x2, y2);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(x2, y2);
+  ctx.lineTo(
+    x2 - headLength * Math.cos(angle - Math.PI / 6),
+    y2 - headLength * Math.sin(angle - Math.PI / 6)
+  );
+  ctx.moveTo(x2, y2);
+  ctx.lineTo(
+    x2 - headLength * Math.cos(angle + Math.PI / 6),
+    y2 - headLength * Math.sin(angle + Math.PI / 6)
+  );
+  ctx.stroke();
+};
+
+// 网格间距
+export const GRID_SIZE = 20;
+
+// 在给定区域（画布坐标）内绘制网格线
+export const drawGridLines = (
+  ctx: CanvasRenderingContext2D,
+  area: SceneBounds,
+  isDark: boolean
+) => {
+  // 网格线颜色
+  ctx.strokeStyle = isDark ? "#868686" : "#d1d5db";
+  ctx.lineWidth = 0.5;
+  ctx.globalAlpha = isDark ? 0.4 : 0.6;
+
+  const startX = Math.floor(area.x / GRID_SIZE) * GRID_SIZE;
+  const startY = Math.floor(area.y / GRID_SIZE) * GRID_SIZE;
+  const endX = startX + area.width + GRID_SIZE;
+  const endY = startY + area.height + GRID_SIZE;
+
+  ctx.beginPath();
+  for (let x = startX; x <= endX; x += GRID_SIZE) {
+    ctx.moveTo(x, startY);
+    ctx.lineTo(x, endY);
+  }
+  for (let y = startY; y <= endY; y += GRID_SIZE) {
+    ctx.moveTo(startX, y);
+    ctx.lineTo(endX, y);
+  }
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+};
+
+// 图片滤镜对应的 canvas filter
+export const IMAGE_FILTERS: Record<string, string> = {
+  grayscale: "grayscale(100%)",
+  sepia: "sepia(100%)",
+  invert: "invert(100%)",
+};
+
+// 绘制图形本体。调用前需要设置好样式并 save() 上下文（箭头旋转时会先 restore 再重新 save）
+export const drawShapeBody = (
+  ctx: CanvasRenderingContext2D,
+  shape: CanvasShape,
+  getImage: ImageResolver
+) => {
+  switch (shape.type) {
+    case "rectangle":
+      ctx.beginPath();
+      ctx.rect(shape.x, shape.y, shape.width || 0, shape.height || 0);
+      if (shape.fill && shape.fill !== "transparent") ctx.fill();
+      ctx.stroke();
+      break;
+    case "circle": {
+      const centerX = shape.x + (shape.width || 0) / 2;
+      const centerY = shape.y + (shape.height || 0) / 2;
+      const radius = Math.abs((shape.width || 0) + (shape.height || 0)) / 4;
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+      if (shape.fill && shape.fill !== "transparent") ctx.fill();
+      ctx.stroke();
+      break;
+    }
+    case "arrow":
+      if (shape.points && shape.points.length >= 4) {
+        const [x1, y1, x2, y2] = shape.points;
+        // 箭头需要单独处理旋转
+        if (shape.rotation !== 0) {
+          // 计算箭头的中心点
+          const arrowCenterX = (x1 + x2) / 2;
+          const arrowCenterY = (y1 + y2) / 2;
+
+          // 保存状态，应用旋转，绘制箭头，然后恢复
+          ctx.restore(); // 恢复之前的状态
+          ctx.save();
+          ctx.translate(arrowCenterX, arrowCenterY);
+          ctx.rotate((shape.rotation * Math.PI) / 180);
+          ctx.translate(-arrowCenterX, -arrowCenterY);
+        }
+        drawArrow(ctx, x1, y1, x2, y2);
+      }
+      break;
+    case "text": {
+      const fontWeight = shape.isbold ? "bold" : "normal";
+      const fontStyle = shape.isitalic ? "italic" : "normal";
+
+      ctx.font = `${fontStyle} ${fontWeight} ${shape.fontSize || 16}px ${
+        shape.fontFamily || "Arial"
+      }`;
+      ctx.fillStyle = shape.fill || shape.stroke;
+
+      // 绘制背景
+      if (shape.backgroundColor && shape.backgroundColor !== "transparent") {
+        const textMetrics = ctx.measureText(shape.text || "");
+        ctx.fillStyle = shape.backgroundColor;
+        ctx.fillRect(
+          shape.x,
+          shape.y,
+          textMetrics.width,
+          (shape.fontSize || 16) * 1.2
+        );
+        // 重置文本颜色
+        ctx.fillStyle = shape.fill || shape.stroke;
+      }
+
+      // 绘制文本
+      const text = shape.text || "";
+      const fontSize = shape.fontSize || 16;
+      ctx.fillText(text, shape.x, shape.y + fontSize);
+
+      // 测量文本宽度（用于线条长度）
+      const textWidth = ctx.measureText(text).width;
+
+      // 保存当前上下文状态（避免影响其他绘制）
+      ctx.save();
+
+      // 设置线条样式（与文本颜色一致，线宽为字体大小的1/10）
+      ctx.strokeStyle = shape.fill || shape.stroke;
+      ctx.lineWidth = Math.max(1, Math.floor(fontSize / 10));
+      ctx.lineCap = "round"; // 线条两端圆润
+
+      // 绘制下划线（文本基线下方）
+      if (shape.isunderline) {
+        const underlineY = shape.y + fontSize + fontSize / 6; // 位置：文本下方1/5字体高度
+        ctx.beginPath();
+        ctx.moveTo(shape.x, underlineY);
+        ctx.lineTo(shape.x + textWidth, underlineY);
+        ctx.stroke();
+      }
+
+      // 绘制删除线（文本中间）
+      if (shape.isstrikethrough) {
+        const strikethroughY = shape.y + fontSize / 1.5; // 位置：文本垂直居中
+        ctx.beginPath();
+        ctx.moveTo(shape.x, strikethroughY);
+        ctx.lineTo(shape.x + textWidth, strikethroughY);
+        ctx.stroke();
+      }
+
+      // 恢复上下文状态
+      ctx.restore();
+      break;
+    }
+    case "image":
+      ctx.save();
+      ctx.globalAlpha = shape.opacity || 1;
+      ctx.filter = (shape.filter && IMAGE_FILTERS[shape.filter]) || "none";
+      if (shape.src) {
+        const img = getImage(shape.src);
+        if (img) {
+          ctx.drawImage(
+            img,
+            shape.x,
+            shape.y,
+            shape.width || 100,
+            shape.height || 100
+          );
+        } else {
+          // 图片未加载完成时，绘制一个占位矩形
+          ctx.fillStyle = "#e0e0e052";
+          ctx.fillRect(
+            shape.x,
+            shape.y,
+            shape.width || 100,
+            shape.height || 100
+          );
+        }
+      }
+      ctx.restore(); // 恢复滤镜设置
+      break;
+    case "line":
+      // 线条处理类似箭头
+      if (shape.points && shape.points.length >= 4) {
+        const [x1, y1, x2, y2] = shape.points;
+        // 保存当前状态
+        ctx.save();
+
+        if (shape.rotation !== 0) {
+          const lineCenterX = (x1 + x2) / 2;
+          const lineCenterY = (y1 + y2) / 2;
+
+          // 应用旋转
+          ctx.translate(lineCenterX, lineCenterY);
+          ctx.rotate((shape.rotation * Math.PI) / 180);
+          ctx.translate(-lineCenterX, -lineCenterY);
+        }
+
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+
+        // 恢复状态
+        ctx.restore();
+      }
+      break;
+  }
+};
+
+// 设置图形的绘制样式，并在需要时应用绕中心的旋转；调用方负责之后 restore()
+export const beginShape = (
+  ctx: CanvasRenderingContext2D,
+  shape: CanvasShape
+) => {
+  ctx.strokeStyle = shape.stroke;
+  ctx.lineWidth = shape.strokeWidth;
+  ctx.fillStyle = shape.fill || "transparent";
+  ctx.globalAlpha = shape.opacity || 1;
+
+  // 计算旋转中心点（对于有宽高的形状）
+  const centerX = shape.x + (shape.width || 0) / 2;
+  const centerY = shape.y + (shape.height || 0) / 2;
+
+  // 应用旋转变换（箭头和线条需要特殊处理）
+  const needsRotation =
+    shape.rotation !== 0 && shape.type !== "arrow" && shape.type !== "line";
+
+  // 保存当前上下文状态，准备应用旋转
+  ctx.save();
+
+  if (needsRotation) {
+    ctx.translate(centerX, centerY);
+    ctx.rotate((shape.rotation * Math.PI) / 180); // 将角度转换为弧度
+    ctx.translate(-centerX, -centerY);
+  }
+
+  return { centerX, centerY, needsRotation };
+};
+
+// 绘制单个图形
+export const drawShape = (
+  ctx: CanvasRenderingContext2D,
+  shape: CanvasShape,
+  getImage: ImageResolver
+) => {
+  beginShape(ctx, shape);
+  drawShapeBody(ctx, shape, getImage);
+  ctx.restore();
+  ctx.globalAlpha = 1;
+};
+
+// 按层叠顺序从下到上绘制整个场景
+export const renderScene = (
+  ctx: CanvasRenderingContext2D,
+  content: SceneContent,
+  getImage: ImageResolver
+) => {
+  getCanvasObjects(content).forEach((object) =>
+    object.type === "path"
+      ? drawPath(ctx, object.data as CanvasPath)
+      : drawShape(ctx, object.data as CanvasShape, getImage)
+  );
+};
+
+// 预先加载场景中的所有图片，导出时需要等图片加载完成后再绘制
+export const loadSceneImages = async (
+  shapes: CanvasShape[]
+): Promise<ImageResolver> => {
+  const sources = [
+    ...new Set(
+      shapes
+        .filter((shape) => shape.type === "image" && shape.src)
+        .map((shape) => shape.src as string)
+    ),
+  ];
+
+  const entries = await Promise.all(
+    sources.map(
+      (src) =>
+        new Promise<[string, HTMLImageElement | undefined]>((resolve) => {
+          const img = new Image();
+          img.crossOrigin = "anonymous";
+          img.onload = () => resolve([src, img]);
+          img.onerror = () => {
+            console.error(`Failed to load image: ${src}`);
+            resolve([src, undefined]);
+          };
+          img.src = resolveAsset(src);
+        })
+    )
+  );
+
+  const images = new Map(entries);
+  return (src) => images.get(src);
+};
+
+// 单个图形未旋转时的包围框
+const getUnrotatedShapeBounds = (shape: CanvasShape): SceneBounds => {
+  if ((shape.type === "arrow" || shape.type === "line") && shape.points) {
+    const [x1, y1, x2, y2] = shape.points;
+    // 箭头头部和线宽会超出端点
+    const margin = shape.type === "arrow" ? 10 : shape.strokeWidth / 2;
+    return {
+      x: Math.min(x1, x2) - margin,
+      y: Math.min(y1, y2) - margin,
+      width: Math.abs(x2 - x1) + margin * 2,
+      height: Math.abs(y2 - y1) + margin * 2,
+    };
+  }
+
+  const width =
+    shape.type === "image" ? shape.width || 100 : (shape.width ?? 0);
+  const height =
+    shape.type === "image"
+      ? shape.height || 100
+      : shape.type === "text"
+        ? (shape.fontSize || 16) * 1.2
+        : (shape.height ?? 0);
+  const margin = shape.type === "text" ? 0 : shape.strokeWidth / 2;
+  return {
+    x: Math.min(shape.x, shape.x + width) - margin,
+    y: Math.min(shape.y, shape.y + height) - margin,
+    width: Math.abs(width) + margin * 2,
+    height: Math.abs(height) + margin * 2,
+  };
+};
+
+// 单个图形的包围框（旋转后的外接矩形）
+export const getShapeBounds = (shape: CanvasShape): SceneBounds => {
+  const bounds = getUnrotatedShapeBounds(shape);
+  if (!shape.rotation) return bounds;
+
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+  const angle = (shape.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const width = bounds.width * cos + bounds.height * sin;
+  const height = bounds.width * sin + bounds.height * cos;
+  return { x: cx - width / 2, y: cy - height / 2, width, height };
+};
+
+// 单条路径的包围框（包含笔迹粗细）
+export const getPathBounds = (path: CanvasPath): SceneBounds => {
+  const xs = path.points.filter((_, i) => i % 2 === 0);
+  const ys = path.points.filter((_, i) => i % 2 === 1);
+  const margin = path.strokeWidth;
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX - margin,
+    y: minY - margin,
+    width: Math.max(...xs) - minX + margin * 2,
+    height: Math.max(...ys) - minY + margin * 2,
+  };
+};
+
+// 平移图形：直线和箭头的端点是绝对坐标，需要一起移动
+export const translateShape = (
+  shape: CanvasShape,
+  dx: number,
+  dy: number
+): Partial<CanvasShape> => ({
+  x: shape.x + dx,
+  y: shape.y + dy,
+  ...(shape.points && {
+    points: shape.points.map((value, i) => value + (i % 2 === 0 ? dx : dy)),
+  }),
+});
+
+// 平移路径
+export const translatePath = (
+  path: CanvasPath,
+  dx: number,
+  dy: number
+): Partial<CanvasPath> => ({
+  points: path.points.map((value, i) => value + (i % 2 === 0 ? dx : dy)),
+});
+
+// 合并多个包围框
+export const unionBounds = (bounds: SceneBounds[]): SceneBounds | null => {
+  if (bounds.length === 0) return null;
+  const minX = Math.min(...bounds.map((b) => b.x));
+  const minY = Math.min(...bounds.map((b) => b.y));
+  const maxX = Math.max(...bounds.map((b) => b.x + b.width));
+  const maxY = Math.max(...bounds.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// 向四周扩展包围框（导出时的边距）
+export const expandBounds = (
+  bounds: SceneBounds,
+  padding: number
+): SceneBounds => ({
+  x: bounds.x - padding,
+  y: bounds.y - padding,
+  width: bounds.width + padding * 2,
+  height: bounds.height + padding * 2,
+});
+
+// 整个场景内容的包围框，空场景返回 null
+export const getSceneBounds = (content: SceneContent): SceneBounds | null =>
+  unionBounds([
+    ...content.paths
+      .filter((path) => path.points.length >= 2)
+      .map(getPathBounds),
+    ...content.shapes.map(getShapeBounds),
+  ]);
+
+// 只保留指定 ID 的元素（用于“仅导出选中内容”）
+export const pickContent = (
+  content: SceneContent,
+  ids: string[]
+): SceneContent => ({
+  paths: content.paths.filter((path) => ids.includes(path.id)),
+  shapes: content.shapes.filter((shape) => ids.includes(shape.id)),
+});
@@ -0,0 +1,85 @@
+const fs = require("fs");
+const path = require("path");
+const ShareDB = require("sharedb");
+
+const MemoryDB = ShareDB.MemoryDB;
+
+// 基于 JSON 文件的 ShareDB 存储：在内存数据库基础上，把快照和操作日志写入磁盘，
+// 使 canvases 集合在服务器重启后依然存在
+class JsonFileDB extends MemoryDB {
+  constructor(file, options = {}) {
+    super(options);
+    this.file = file;
+    this.saveDelay = options.saveDelay ?? 500; // 写盘防抖时间（毫秒）
+    this.saveTimer = null;
+    this.load();
+  }
+
+  // 启动时从文件恢复数据
+  load() {
+    if (!fs.existsSync(this.file)) return;
+
+    try {
+      const content = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      this.docs = Object.assign(Object.create(null), content.docs);
+      this.ops = Object.assign(Object.create(null), content.ops);
+    } catch (err) {
+      console.error(`读取存储文件失败 (${this.file}):`, err);
+    }
+  }
+
+  // 立即写盘（先写临时文件再重命名，避免写入中断导致文件损坏）
+  flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmpFile = `${this.file}.tmp`;
+      fs.writeFileSync(
+        tmpFile,
+        JSON.stringify({ docs: this.docs, ops: this.ops })
+      );
+      fs.renameSync(tmpFile, this.file);
+    } catch (err) {
+      console.error(`写入存储文件失败 (${this.file}):`, err);
+    }
+  }
+
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), this.saveDelay);
+  }
+
+  commit(collection, id, op, snapshot, options, callback) {
+    super.commit(collection, id, op, snapshot, options, (err, succeeded) => {
+      if (!err && succeeded) this.scheduleSave();
+      callback(err, succeeded);
+    });
+  }
+
+  close(callback) {
+    this.flush();
+    super.close(callback);
+  }
+}
+
+// 根据配置创建存储适配器
+// - memory：纯内存存储，用于测试，重启后数据丢失
+// - json：JSON 文件存储，用于实际使用
+function createStorage({ type = "json", file } = {}) {
+  switch (type) {
+    case "memory":
+      return new MemoryDB();
+    case "json":
+      return new JsonFileDB(
+        file || path.join(process.cwd(), "data", "collab-db.json")
+      );
+    default:
+      throw new Error(`未知的存储类型: ${type}`);
+  }
+}
+
+module.exports = { createStorage, JsonFileDB };
@@ -3,126 +3,188 @@ const ShareDB = require("sharedb");
 const WebSocketJSONStream = require("@teamwork/websocket-json-stream");
 const WebSocket = require("ws");
 const express = require("express");
+const { createStorage } = require("./server-storage");
+
+// 默认允许读取操作日志的网页来源（Next.js 开发服务器）
+const DEFAULT_ALLOWED_ORIGINS = ["http://localhost:3000"];
+
+// 解析逗号分隔的来源列表，例如 COLLAB_ALLOWED_ORIGINS="https://a.com,https://b.com"
+function parseOrigins(value) {
+  if (!value) return DEFAULT_ALLOWED_ORIGINS;
+  return value
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+}
 
-const app = express();
-const server = http.createServer(app);
-
-// 配置WebSocket服务器选项以提高性能
-const wss = new WebSocket.Server({
-  server,
-  perMessageDeflate: {
-    zlibDeflateOptions: {
-      // 设置较低的压缩级别以减少CPU使用
-      level: 1,
+// 创建协作服务器（不会自动监听端口，便于在测试中配合内存存储使用）
+// allowedOrigins：可以跨域读取操作日志的网页来源
+function createCollabServer({
+  db = createStorage({ type: "memory" }),
+  allowedOrigins = DEFAULT_ALLOWED_ORIGINS,
+} = {}) {
+  const app = express();
+  const server = http.createServer(app);
+
+  // 配置WebSocket服务器选项以提高性能
+  const wss = new WebSocket.Server({
+    server,
+    perMessageDeflate: {
+      zlibDeflateOptions: {
+        // 设置较低的压缩级别以减少CPU使用
+        level: 1,
+      },
+      // 禁用服务器端上下文接管
+      serverNoContextTakeover: true,
+      // 禁用客户端上下文接管
+      clientNoContextTakeover: true,
+    },
+    // 设置心跳检测
+    heartbeat: {
+      interval: 30000, // 30秒
+      timeout: 60000, // 60秒
     },
-    // 禁用服务器端上下文接管
-    serverNoContextTakeover: true,
-    // 禁用客户端上下文接管
-    clientNoContextTakeover: true,
-  },
-  // 设置心跳检测
-  heartbeat: {
-    interval: 30000, // 30秒
-    timeout: 60000, // 60秒
-  },
-});
-
-// 创建接口，返回当前连接数
-app.get("/api/connection-count", (req, res) => {
-  res.json({ count: wss.clients.size });
-});
-
-// 初始化ShareDB实例
-const share = new ShareDB({
-  // 添加垃圾回收配置
-  gc: { interval: 3600000 }, // 每小时运行一次垃圾回收
-});
-
-// 启用JSON0类型
-share.use("json0");
-
-// 处理WebSocket连接
-wss.on("connection", (ws) => {
-  // 为每个连接创建一个流
-  const stream = new WebSocketJSONStream(ws);
-
-  // 添加错误处理
-  stream.on("error", (err) => {
-    console.error("Stream error:", err);
   });
 
-  // 让ShareDB监听这个流
-  share.listen(stream);
-});
-
-// 添加WebSocket错误处理
-wss.on("error", (err) => {
-  console.error("WebSocket Server error:", err);
-});
-
-// 记录连接数
-wss.on("connection", () => {
-  console.log(`连接数: ${wss.clients.size}`);
-  // 连接建立时清除任何等待关闭的定时器
-  if (closeTimer) {
-    clearTimeout(closeTimer);
-    closeTimer = null;
-  }
+  // 创建接口，返回当前连接数
+  app.get("/api/connection-count", (req, res) => {
+    res.json({ count: wss.clients.size });
+  });
 
-  // if (isCollaborating === false) {
-  //   console.log("只有一个客户端开启协作模式，正在关闭服务器...");
-  //   gracefulShutdown();
-  // }
-});
-
-let closeTimer = null;
-
-wss.on("close", () => {
-  const clientCount = wss.clients.size;
-  console.log(`连接数: ${clientCount}`);
-
-  // 当所有客户端断开连接时，启动关闭定时器
-  if (clientCount === 1) {
-    console.log("客户端已断开连接，将在15秒后自动关闭服务器...");
-    closeTimer = setTimeout(() => {
-      console.log("只有一个客户端已关闭协作模式，正在关闭服务器...");
-      gracefulShutdown();
-    }, 15000); // 15秒延迟，确保临时断开的连接有时间重连
-  }
-});
+  // 初始化ShareDB实例
+  const share = new ShareDB({
+    db,
+    // 启用在线状态（光标、用户名等）广播
+    presence: true,
+    doNotForwardSendPresenceErrorsToClient: true,
+    // 添加垃圾回收配置
+    gc: { interval: 3600000 }, // 每小时运行一次垃圾回收
+  });
 
-// 添加HTTP服务器错误处理
-server.on("error", (err) => {
-  console.error("Server error:", err);
+  // 启用JSON0类型
+  share.use("json0");
+
+  // 创建接口，返回画布的完整操作日志（用于延时回放）
+  // 只允许应用所在的来源跨域读取，其他网页无法获取画布的操作记录
+  app.get("/api/canvases/:id/ops", (req, res) => {
+    const origin = req.get("Origin");
+    res.set("Vary", "Origin");
+    if (origin && !allowedOrigins.includes(origin)) {
+      res.status(403).json({ error: "Origin not allowed" });
+      return;
+    }
+    if (origin) res.set("Access-Control-Allow-Origin", origin);
+    const options = { metadata: true }; // 保留操作时间戳
+    share.db.getOps("canvases", req.params.id, 0, null, options, (err, ops) => {
+      if (err) {
+        console.error("Failed to fetch ops:", err);
+        res.status(500).json({ error: "Failed to fetch ops" });
+        return;
+      }
+      res.json(ops);
+    });
+  });
 
-  // 区分不同类型的错误
-  if (err.code === "EADDRINUSE") {
-    console.error("端口8080已被占用，请关闭其他占用该端口的程序");
-  }
-});
+  // 处理WebSocket连接
+  wss.on("connection", (ws) => {
+    // 为每个连接创建一个流
+    const stream = new WebSocketJSONStream(ws);
 
-// 优雅关闭服务器
-function gracefulShutdown() {
-  console.log("正在关闭服务器...");
+    // 添加错误处理
+    stream.on("error", (err) => {
+      console.error("Stream error:", err);
+    });
 
-  // 关闭所有WebSocket连接
-  wss.clients.forEach((client) => {
-    client.close();
+    // 让ShareDB监听这个流
+    share.listen(stream);
   });
 
-  // 关闭HTTP服务器
-  server.close(() => {
-    console.log("服务器已关闭");
-    process.exit(0);
+  // 添加WebSocket错误处理
+  wss.on("error", (err) => {
+    console.error("WebSocket Server error:", err);
   });
+
+  // 关闭服务器并释放存储
+  const close = (callback) => {
+    // 关闭所有WebSocket连接
+    wss.clients.forEach((client) => {
+      client.close();
+    });
+
+    // 关闭HTTP服务器，随后关闭ShareDB（会触发存储写盘）
+    server.close(() => {
+      share.close(callback);
+    });
+  };
+
+  return { app, server, wss, share, close };
 }
 
-// 处理SIGTERM信号
-process.on("SIGTERM", () => {
-  gracefulShutdown();
-});
+module.exports = { createCollabServer };
+
+// 直接通过 node 运行时启动服务器
+if (require.main === module) {
+  const port = Number(process.env.COLLAB_PORT) || 8080;
+  const db = createStorage({
+    type: process.env.COLLAB_STORAGE || "json",
+    file: process.env.COLLAB_DB_FILE,
+  });
+  const { server, wss, close } = createCollabServer({
+    db,
+    allowedOrigins: parseOrigins(process.env.COLLAB_ALLOWED_ORIGINS),
+  });
+
+  let closeTimer = null;
+
+  // 记录连接数
+  wss.on("connection", () => {
+    console.log(`连接数: ${wss.clients.size}`);
+    // 连接建立时清除任何等待关闭的定时器
+    if (closeTimer) {
+      clearTimeout(closeTimer);
+      closeTimer = null;
+    }
+  });
+
+  wss.on("close", () => {
+    const clientCount = wss.clients.size;
+    console.log(`连接数: ${clientCount}`);
+
+    // 当所有客户端断开连接时，启动关闭定时器
+    if (clientCount === 1) {
+      console.log("客户端已断开连接，将在15秒后自动关闭服务器...");
+      closeTimer = setTimeout(() => {
+        console.log("只有一个客户端已关闭协作模式，正在关闭服务器...");
+        gracefulShutdown();
+      }, 15000); // 15秒延迟，确保临时断开的连接有时间重连
+    }
+  });
+
+  // 添加HTTP服务器错误处理
+  server.on("error", (err) => {
+    console.error("Server error:", err);
 
-// 启动服务器
-server.listen(8080, () => {
-  console.log("ShareDB服务器运行在 ws://localhost:8080");
-});
+    // 区分不同类型的错误
+    if (err.code === "EADDRINUSE") {
+      console.error(`端口${port}已被占用，请关闭其他占用该端口的程序`);
+    }
+  });
+
+  // 优雅关闭服务器
+  function gracefulShutdown() {
+    console.log("正在关闭服务器...");
+    close(() => {
+      console.log("服务器已关闭");
+      process.exit(0);
+    });
+  }
+
+  // 处理SIGTERM/SIGINT信号
+  process.on("SIGTERM", gracefulShutdown);
+  process.on("SIGINT", gracefulShutdown);
+
+  // 启动服务器
+  server.listen(port, () => {
+    console.log(`ShareDB服务器运行在 ws://localhost:${port}`);
+  });
+}
@@ -0,0 +1,488 @@
+import type { CanvasLayer, CanvasPath, CanvasShape } from "@/types/canvas";
+import type { AssetTable } from "@/lib/assets";
+import type { CanvasDocument, ValidationIssue } from "@/lib/document-schema";
+import { DOCUMENT_VERSION, parseDocument } from "@/lib/document-schema";
+
+// 画板存储：每个画板一条记录，元素和资源分开保存
+// - drawings：画板信息（名称、时间）、元素顺序和图层列表
+// - elements：每个元素一条记录，键为 [画板 ID, 元素 ID]
+// - assets：图片资源，键为内容哈希，多个画板共用
+// 保存时只写入发生变化的元素（画布状态不可变，按引用比较即可）
+
+// 自动保存的当前画板
+export const AUTOSAVE_ID = "autosave";
+
+export interface DrawingMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  thumbnail?: Blob; // 预览图，自动保存的画板没有
+}
+
+export interface DrawingContent {
+  paths: CanvasPath[];
+  shapes: CanvasShape[];
+  assets: AssetTable;
+  layers: CanvasLayer[];
+}
+
+// 存储空间使用情况（字节）
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export interface DrawingStorage {
+  list(): Promise<DrawingMeta[]>; // 按修改时间倒序
+  load(id: string): Promise<{
+    meta: DrawingMeta;
+    document: CanvasDocument;
+    issues: ValidationIssue[];
+  } | null>;
+  // thumbnail 未提供时保留原有的预览图；savedAt 缺省为当前时间（迁移旧数据时保留原来的时间）
+  save(
+    id: string,
+    name: string,
+    content: DrawingContent,
+    thumbnail?: Blob,
+    savedAt?: string
+  ): Promise<void>;
+  rename(id: string, name: string): Promise<void>;
+  remove(id: string): Promise<void>;
+  estimate(): Promise<StorageUsage | null>;
+}
+
+// 存储空间不足时抛出，便于界面单独提示
+export class StorageQuotaError extends Error {
+  constructor() {
+    super("Storage quota exceeded");
+    this.name = "StorageQuotaError";
+  }
+}
+
+interface DrawingRecord extends DrawingMeta {
+  version: number;
+  paths: string[]; // 元素顺序
+  shapes: string[];
+  assets: string[]; // 引用的资源 ID，用于清理不再使用的资源
+  layers?: CanvasLayer[]; // v5 之前保存的画板没有
+}
+
+interface ElementRecord {
+  drawingId: string;
+  id: string;
+  data: CanvasPath | CanvasShape;
+}
+
+interface AssetRecord {
+  id: string;
+  dataURL: string;
+}
+
+const DB_NAME = "CanvasCraft";
+const DB_VERSION = 1;
+
+const sortByUpdated = (list: DrawingMeta[]) =>
+  list.sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+
+const toMeta = ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+  thumbnail,
+}: DrawingMeta): DrawingMeta => ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+  thumbnail,
+});
+
+// 组装并校验保存的内容（保存的版本较旧时同样会迁移）
+const toDocument = (
+  record: DrawingRecord,
+  elements: Map<string, CanvasPath | CanvasShape>,
+  assets: AssetTable
+) =>
+  parseDocument({
+    version: record.version,
+    timestamp: record.updatedAt,
+    paths: record.paths.map((id) => elements.get(id)).filter(Boolean),
+    shapes: record.shapes.map((id) => elements.get(id)).filter(Boolean),
+    assets,
+    layers: record.layers,
+  });
+
+const estimateUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const complete = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    const fail = () =>
+      reject(
+        isQuotaError(transaction.error)
+          ? new StorageQuotaError()
+          : transaction.error || new Error("Transaction aborted")
+      );
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+  });
+
+// 某个画板的所有元素记录
+const elementRange = (drawingId: string) =>
+  IDBKeyRange.bound([drawingId], [drawingId, []]);
+
+class IndexedDBStorage implements DrawingStorage {
+  private db: Promise<IDBDatabase>;
+  // 每个画板上次写入的元素，用于增量保存；首次保存时整体重写
+  private snapshots = new Map<string, Map<string, CanvasPath | CanvasShape>>();
+  private savedAssets = new Set<string>();
+
+  constructor() {
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore("drawings", { keyPath: "id" });
+        db.createObjectStore("elements", { keyPath: ["drawingId", "id"] });
+        db.createObjectStore("assets", { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () =>
+        reject(new Error("Database is blocked by another tab"));
+    });
+  }
+
+  async list() {
+    const db = await this.db;
+    const records = await promisify<DrawingRecord[]>(
+      db.transaction("drawings").objectStore("drawings").getAll()
+    );
+    return sortByUpdated(records.map(toMeta));
+  }
+
+  async load(id: string) {
+    const db = await this.db;
+    const transaction = db.transaction(["drawings", "elements", "assets"]);
+    const record = await promisify<DrawingRecord | undefined>(
+      transaction.objectStore("drawings").get(id)
+    );
+    if (!record) return null;
+
+    const [elementRecords, assetRecords] = await Promise.all([
+      promisify<ElementRecord[]>(
+        transaction.objectStore("elements").getAll(elementRange(id))
+      ),
+      Promise.all(
+        record.assets.map((assetId) =>
+          promisify<AssetRecord | undefined>(
+            transaction.objectStore("assets").get(assetId)
+          )
+        )
+      ),
+    ]);
+
+    const elements = new Map(
+      elementRecords.map((element) => [element.id, element.data])
+    );
+    const assets: AssetTable = {};
+    assetRecords.forEach((asset) => {
+      if (!asset) return;
+      assets[asset.id] = asset.dataURL;
+      this.savedAssets.add(asset.id);
+    });
+    const { document, issues } = toDocument(record, elements, assets);
+    // 读取的内容与存储一致时，后续保存可以只写入变化；
+    // 迁移或校验修改过内容时下次整体重写
+    if (issues.length === 0 && record.version === DOCUMENT_VERSION) {
+      this.snapshots.set(
+        id,
+        new Map(
+          [...document.paths, ...document.shapes].map((element) => [
+            element.id,
+            element,
+          ])
+        )
+      );
+    } else {
+      this.snapshots.delete(id);
+    }
+    return { meta: toMeta(record), document, issues };
+  }
+
+  async save(
+    id: string,
+    name: string,
+    content: DrawingContent,
+    thumbnail?: Blob,
+    savedAt?: string
+  ) {
+    const db = await this.db;
+    const transaction = db.transaction(
+      ["drawings", "elements", "assets"],
+      "readwrite"
+    );
+    const drawings = transaction.objectStore("drawings");
+    const elementStore = transaction.objectStore("elements");
+    const assetStore = transaction.objectStore("assets");
+    const existing = await promisify<DrawingRecord | undefined>(
+      drawings.get(id)
+    );
+    const done = complete(transaction);
+
+    const previous = this.snapshots.get(id);
+    const current = new Map<string, CanvasPath | CanvasShape>();
+    [...content.paths, ...content.shapes].forEach((element) =>
+      current.set(element.id, element)
+    );
+    const newAssets = Object.keys(content.assets).filter(
+      (assetId) => !this.savedAssets.has(assetId)
+    );
+    const now = savedAt || new Date().toISOString();
+    const record: DrawingRecord = {
+      id,
+      name,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      thumbnail: thumbnail || existing?.thumbnail,
+      version: DOCUMENT_VERSION,
+      paths: content.paths.map((path) => path.id),
+      shapes: content.shapes.map((shape) => shape.id),
+      assets: Object.keys(content.assets),
+      layers: content.layers,
+    };
+
+    try {
+      if (!previous) {
+        elementStore.delete(elementRange(id));
+      } else {
+        previous.forEach((_, elementId) => {
+          if (!current.has(elementId)) elementStore.delete([id, elementId]);
+        });
+      }
+      current.forEach((element, elementId) => {
+        if (previous?.get(elementId) !== element) {
+          elementStore.put({ drawingId: id, id: elementId, data: element });
+        }
+      });
+      newAssets.forEach((assetId) =>
+        assetStore.put({ id: assetId, dataURL: content.assets[assetId] })
+      );
+      drawings.put(record);
+    } catch (error) {
+      // 同步抛出的错误（例如无法克隆的数据）不会中止事务，需要手动回滚
+      transaction.abort();
+      await done.catch(() => undefined);
+      throw error;
+    }
+
+    try {
+      await done;
+    } catch (error) {
+      // 写入失败时不知道存储中的实际内容，下次整体重写
+      this.snapshots.delete(id);
+      throw error;
+    }
+    this.snapshots.set(id, current);
+    newAssets.forEach((assetId) => this.savedAssets.add(assetId));
+  }
+
+  async rename(id: string, name: string) {
+    const db = await this.db;
+    const transaction = db.transaction("drawings", "readwrite");
+    const drawings = transaction.objectStore("drawings");
+    const record = await promisify<DrawingRecord | undefined>(drawings.get(id));
+    if (!record) throw new Error(`Drawing ${id} does not exist`);
+    const done = complete(transaction);
+    drawings.put({ ...record, name });
+    await done;
+  }
+
+  async remove(id: string) {
+    const db = await this.db;
+    const transaction = db.transaction(["drawings", "elements"], "readwrite");
+    const done = complete(transaction);
+    transaction.objectStore("drawings").delete(id);
+    transaction.objectStore("elements").delete(elementRange(id));
+    await done;
+    this.snapshots.delete(id);
+    await this.removeUnusedAssets();
+  }
+
+  // 删除没有任何画板引用的资源
+  async removeUnusedAssets() {
+    const db = await this.db;
+    const transaction = db.transaction(["drawings", "assets"], "readwrite");
+    const [records, assetIds] = await Promise.all([
+      promisify<DrawingRecord[]>(transaction.objectStore("drawings").getAll()),
+      promisify<IDBValidKey[]>(transaction.objectStore("assets").getAllKeys()),
+    ]);
+    const done = complete(transaction);
+    const used = new Set(records.flatMap((record) => record.assets));
+    assetIds.forEach((assetId) => {
+      if (!used.has(assetId as string)) {
+        transaction.objectStore("assets").delete(assetId);
+        this.savedAssets.delete(assetId as string);
+      }
+    });
+    await done;
+  }
+
+  estimate() {
+    return estimateUsage();
+  }
+}
+
+// 内存存储：浏览器不支持 IndexedDB（例如部分隐私模式）时使用，刷新后数据丢失
+class MemoryStorage implements DrawingStorage {
+  private records = new Map<
+    string,
+    { meta: DrawingMeta; content: DrawingContent }
+  >();
+
+  async list() {
+    return sortByUpdated(
+      Array.from(this.records.values(), (record) => record.meta)
+    );
+  }
+
+  async load(id: string) {
+    const record = this.records.get(id);
+    if (!record) return null;
+    const { document, issues } = parseDocument({
+      version: DOCUMENT_VERSION,
+      ...record.content,
+    });
+    return { meta: record.meta, document, issues };
+  }
+
+  async save(
+    id: string,
+    name: string,
+    content: DrawingContent,
+    thumbnail?: Blob,
+    savedAt?: string
+  ) {
+    const now = savedAt || new Date().toISOString();
+    const existing = this.records.get(id)?.meta;
+    this.records.set(id, {
+      meta: {
+        id,
+        name,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        thumbnail: thumbnail || existing?.thumbnail,
+      },
+      content,
+    });
+  }
+
+  async rename(id: string, name: string) {
+    const record = this.records.get(id);
+    if (!record) throw new Error(`Drawing ${id} does not exist`);
+    record.meta = { ...record.meta, name };
+  }
+
+  async remove(id: string) {
+    this.records.delete(id);
+  }
+
+  estimate() {
+    return estimateUsage();
+  }
+}
+
+// 从旧版 localStorage 迁移：单画板 CanvasCraft-canvas-data 和命名画板 excalidraw-drawings
+// 迁移成功后删除旧数据，释放 localStorage 空间
+const LEGACY_AUTOSAVE_KEY = "CanvasCraft-canvas-data";
+const LEGACY_DRAWINGS_KEY = "excalidraw-drawings";
+
+const migrateLocalStorage = async (storage: DrawingStorage) => {
+  const autosave = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
+  if (autosave) {
+    try {
+      const { document } = parseDocument(autosave);
+      await storage.save(AUTOSAVE_ID, "", document);
+      localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+    } catch (error) {
+      console.error("Failed to migrate saved canvas from localStorage:", error);
+    }
+  }
+
+  const drawings = localStorage.getItem(LEGACY_DRAWINGS_KEY);
+  if (drawings) {
+    let entries: [string, { data: string; timestamp?: string }][] = [];
+    try {
+      entries = Object.entries(JSON.parse(drawings));
+    } catch (error) {
+      console.error("Failed to read drawings from localStorage:", error);
+    }
+    // 逐个迁移：无法读取的画板跳过，不影响其余画板；
+    // 结束后总是删除旧数据，避免下次启动时以新 ID 重复迁移已保存的画板
+    for (const [name, drawing] of entries) {
+      try {
+        const { document } = parseDocument(drawing.data);
+        const savedAt = [drawing.timestamp, document.timestamp].find(
+          (value) => value && !Number.isNaN(Date.parse(value))
+        );
+        await storage.save(
+          createDrawingId(),
+          name,
+          document,
+          undefined,
+          savedAt && new Date(savedAt).toISOString()
+        );
+      } catch (error) {
+        console.error(`Failed to migrate drawing "${name}":`, error);
+      }
+    }
+    localStorage.removeItem(LEGACY_DRAWINGS_KEY);
+  }
+};
+
+export const createDrawingId = () =>
+  `drawing-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+/**
+ * 打开画板存储：优先使用 IndexedDB，并迁移旧版 localStorage 数据
+ * 不支持 IndexedDB 时退回内存存储（persistent 为 false）
+ */
+export const openStorage = async (): Promise<{
+  storage: DrawingStorage;
+  persistent: boolean;
+}> => {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      const storage = new IndexedDBStorage();
+      await storage.list();
+      await migrateLocalStorage(storage);
+      await storage.removeUnusedAssets();
+      return { storage, persistent: true };
+    } catch (error) {
+      console.error("Failed to open IndexedDB storage:", error);
+    }
+  }
+  return { storage: new MemoryStorage(), persistent: false };
+};
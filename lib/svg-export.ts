@@ -0,0 +1,259 @@
+import type { CanvasPath, CanvasShape } from "@/types/canvas";
+import type { SceneContent } from "@/lib/scene-renderer";
+import {
+  expandBounds,
+  getPathOutline,
+  getSceneBounds,
+  pickContent,
+} from "@/lib/scene-renderer";
+import { resolveAsset } from "@/lib/assets";
+import { getCanvasObjects } from "@/lib/z-order";
+
+// SVG 导出：把画布内容转换为与画布绘制效果一致的 SVG 元素
+
+export interface SVGExportOptions {
+  ids?: string[]; // 只导出这些元素（例如当前选中的元素）
+  padding?: number;
+  background?: string | null; // 为空时使用透明背景
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// 图片滤镜对应的 SVG filter 定义（与 CSS 滤镜效果一致）
+const FILTER_DEFS: Record<string, string> = {
+  grayscale: `<feColorMatrix type="saturate" values="0"/>`,
+  sepia: `<feColorMatrix type="matrix" values="0.393 0.769 0.189 0 0 0.349 0.686 0.168 0 0 0.272 0.534 0.131 0 0 0 0 0 1 0"/>`,
+  invert: `<feComponentTransfer><feFuncR type="table" tableValues="1 0"/><feFuncG type="table" tableValues="1 0"/><feFuncB type="table" tableValues="1 0"/></feComponentTransfer>`,
+};
+
+const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// 保留两位小数，减小文件体积
+const num = (value: number) => Number(value.toFixed(2));
+
+// 把属性对象拼接为属性字符串，跳过值为 undefined 的属性
+const attrs = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([key, value]) =>
+        `${key}="${escapeXML(typeof value === "number" ? String(num(value)) : String(value))}"`
+    )
+    .join(" ");
+
+const getFill = (fill?: string) =>
+  fill && fill !== "transparent" ? fill : "none";
+
+const getOpacity = (opacity?: number) => {
+  const value = opacity ?? 1;
+  return value === 1 ? undefined : value;
+};
+
+const rotate = (degrees: number, cx: number, cy: number) =>
+  degrees ? `rotate(${num(degrees)} ${num(cx)} ${num(cy)})` : undefined;
+
+// 与画布一致的文本宽度测量
+let measureContext: CanvasRenderingContext2D | null = null;
+const measureTextWidth = (text: string, font: string) => {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return text.length * 8;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+const pathToSVG = (path: CanvasPath) => {
+  const outline = getPathOutline(path);
+  if (outline.length === 0) return "";
+  const d =
+    outline
+      .map(([x, y], i) => `${i === 0 ? "M" : "L"}${num(x)} ${num(y)}`)
+      .join(" ") + " Z";
+  return `<path ${attrs({ d, fill: path.stroke, opacity: getOpacity(path.opacity) })}/>`;
+};
+
+const textToSVG = (shape: CanvasShape) => {
+  const text = shape.text || "";
+  const fontSize = shape.fontSize || 16;
+  const fontFamily = shape.fontFamily || "Arial";
+  const fontWeight = shape.isbold ? "bold" : "normal";
+  const fontStyle = shape.isitalic ? "italic" : "normal";
+  const color = shape.fill || shape.stroke;
+  const textWidth = measureTextWidth(
+    text,
+    `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`
+  );
+
+  const parts: string[] = [];
+  if (shape.backgroundColor && shape.backgroundColor !== "transparent") {
+    parts.push(
+      `<rect ${attrs({ x: shape.x, y: shape.y, width: textWidth, height: fontSize * 1.2, fill: shape.backgroundColor })}/>`
+    );
+  }
+  parts.push(
+    `<text ${attrs({
+      x: shape.x,
+      y: shape.y + fontSize,
+      fill: color,
+      "font-family": fontFamily,
+      "font-size": fontSize,
+      "font-weight": shape.isbold ? "bold" : undefined,
+      "font-style": shape.isitalic ? "italic" : undefined,
+      "xml:space": "preserve",
+    })}>${escapeXML(text)}</text>`
+  );
+
+  // 下划线和删除线按画布上的位置绘制，保证效果一致
+  const decoration = {
+    stroke: color,
+    "stroke-width": Math.max(1, Math.floor(fontSize / 10)),
+    "stroke-linecap": "round",
+  };
+  if (shape.isunderline) {
+    const y = shape.y + fontSize + fontSize / 6;
+    parts.push(
+      `<line ${attrs({ x1: shape.x, y1: y, x2: shape.x + textWidth, y2: y, ...decoration })}/>`
+    );
+  }
+  if (shape.isstrikethrough) {
+    const y = shape.y + fontSize / 1.5;
+    parts.push(
+      `<line ${attrs({ x1: shape.x, y1: y, x2: shape.x + textWidth, y2: y, ...decoration })}/>`
+    );
+  }
+  return parts.join("");
+};
+
+const shapeToSVG = (shape: CanvasShape) => {
+  const width = shape.width || 0;
+  const height = shape.height || 0;
+  const stroke = {
+    stroke: shape.stroke,
+    "stroke-width": shape.strokeWidth,
+  };
+  // 与画布一致：箭头和线条绕端点中点旋转，其他图形绕自身中心旋转
+  const [x1, y1, x2, y2] = shape.points || [];
+  const transform =
+    shape.type === "arrow" || shape.type === "line"
+      ? rotate(shape.rotation, (x1 + x2) / 2, (y1 + y2) / 2)
+      : rotate(shape.rotation, shape.x + width / 2, shape.y + height / 2);
+
+  let body = "";
+  switch (shape.type) {
+    case "rectangle":
+      body = `<rect ${attrs({
+        x: Math.min(shape.x, shape.x + width),
+        y: Math.min(shape.y, shape.y + height),
+        width: Math.abs(width),
+        height: Math.abs(height),
+        fill: getFill(shape.fill),
+        ...stroke,
+      })}/>`;
+      break;
+    case "circle":
+      body = `<circle ${attrs({
+        cx: shape.x + width / 2,
+        cy: shape.y + height / 2,
+        r: Math.abs(width + height) / 4,
+        fill: getFill(shape.fill),
+        ...stroke,
+      })}/>`;
+      break;
+    case "arrow": {
+      if (!shape.points || shape.points.length < 4) return "";
+      const headLength = 10;
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = [angle - Math.PI / 6, angle + Math.PI / 6].map(
+        (a) =>
+          `M${num(x2)} ${num(y2)} L${num(x2 - headLength * Math.cos(a))} ${num(y2 - headLength * Math.sin(a))}`
+      );
+      body = `<path ${attrs({
+        d: `M${num(x1)} ${num(y1)} L${num(x2)} ${num(y2)} ${head.join(" ")}`,
+        fill: "none",
+        ...stroke,
+      })}/>`;
+      break;
+    }
+    case "line":
+      if (!shape.points || shape.points.length < 4) return "";
+      body = `<line ${attrs({ x1, y1, x2, y2, ...stroke })}/>`;
+      break;
+    case "text":
+      body = textToSVG(shape);
+      break;
+    case "image":
+      if (!shape.src) return "";
+      body = `<image ${attrs({
+        href: resolveAsset(shape.src),
+        x: shape.x,
+        y: shape.y,
+        width: shape.width || 100,
+        height: shape.height || 100,
+        preserveAspectRatio: "none",
+        filter:
+          shape.filter && FILTER_DEFS[shape.filter]
+            ? `url(#filter-${shape.filter})`
+            : undefined,
+      })}/>`;
+      break;
+  }
+
+  // 没有旋转和透明度时不需要额外的分组
+  const group = attrs({ transform, opacity: getOpacity(shape.opacity) });
+  return group ? `<g ${group}>${body}</g>` : body;
+};
+
+// 生成 SVG 文本；没有可导出的内容时抛出错误
+export const createSVG = (
+  content: SceneContent,
+  { ids, padding = 20, background = null }: SVGExportOptions = {}
+): string => {
+  const exported = ids ? pickContent(content, ids) : content;
+  const bounds = getSceneBounds(exported);
+  if (!bounds) throw new Error("Nothing to export");
+
+  const { x, y, width, height } = expandBounds(bounds, padding);
+
+  // 只定义用到的滤镜
+  const filters = [
+    ...new Set(
+      exported.shapes
+        .filter((shape) => shape.type === "image" && shape.filter)
+        .map((shape) => shape.filter as string)
+    ),
+  ].filter((filter) => FILTER_DEFS[filter]);
+  const defs = filters.length
+    ? `<defs>${filters
+        .map(
+          (filter) =>
+            `<filter id="filter-${filter}" color-interpolation-filters="sRGB">${FILTER_DEFS[filter]}</filter>`
+        )
+        .join("")}</defs>`
+    : "";
+
+  const backgroundRect = background
+    ? `<rect ${attrs({ x, y, width, height, fill: background })}/>`
+    : "";
+
+  // 与画布的层叠顺序一致
+  const elements = getCanvasObjects(exported)
+    .map((object) =>
+      object.type === "path"
+        ? pathToSVG(object.data as CanvasPath)
+        : shapeToSVG(object.data as CanvasShape)
+    )
+    .join("\n");
+
+  return `<svg ${attrs({
+    xmlns: SVG_NS,
+    width: Math.ceil(width),
+    height: Math.ceil(height),
+    viewBox: `${num(x)} ${num(y)} ${num(width)} ${num(height)}`,
+  })}>\n${defs}${backgroundRect}\n${elements}\n</svg>\n`;
+};
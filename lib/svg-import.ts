@@ -0,0 +1,779 @@
+import type { CanvasPath, CanvasShape } from "@/types/canvas";
+import type { CanvasState } from "@/lib/collaboration-service";
+
+// SVG 导入：把 SVG 元素转换为画布原生的图形和路径
+// - rect/circle/ellipse/line/text 转为对应图形，保留变换、描边、填充和透明度
+// - 只有描边的 polyline/polygon/path 转为画笔路径（曲线按折线采样）
+// - 无法对应的元素（带填充的路径、渐变、斜切变换、<image> 等）转为图片元素
+
+// 2D 仿射矩阵 [a, b, c, d, e, f]，与 SVG matrix() 的含义一致
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// 作为容器递归处理的元素
+const CONTAINER_TAGS = new Set(["svg", "g", "a", "switch"]);
+
+// 不产生画面的元素
+const SKIPPED_TAGS = new Set([
+  "defs",
+  "style",
+  "title",
+  "desc",
+  "metadata",
+  "symbol",
+  "clipPath",
+  "mask",
+  "marker",
+  "pattern",
+  "linearGradient",
+  "radialGradient",
+  "filter",
+  "script",
+]);
+
+// 可以从父元素继承的样式
+const INHERITED_STYLES = new Set([
+  "fill",
+  "stroke",
+  "stroke-width",
+  "fill-opacity",
+  "stroke-opacity",
+  "font-size",
+  "font-family",
+  "font-weight",
+  "font-style",
+  "text-anchor",
+  "color",
+  "visibility",
+]);
+
+// 曲线采样的分段数
+const CURVE_SEGMENTS = 12;
+
+const EPSILON = 1e-6;
+
+const createId = () => Math.random().toString(36).substring(7);
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const applyMatrix = (m: Matrix, x: number, y: number): [number, number] => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5],
+];
+
+// 分解为 旋转 × 缩放；有斜切时返回 null
+const decompose = (m: Matrix) => {
+  const [a, b, c, d] = m;
+  const scaleX = Math.hypot(a, b);
+  if (scaleX < EPSILON) return null;
+  if (Math.abs(a * c + b * d) > EPSILON * Math.max(1, scaleX ** 2)) {
+    return null;
+  }
+  return {
+    rotation: (Math.atan2(b, a) * 180) / Math.PI,
+    scaleX,
+    scaleY: (a * d - b * c) / scaleX,
+  };
+};
+
+const parseNumbers = (value: string | null) =>
+  (value?.match(/-?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || []).map(Number);
+
+// 解析 transform 属性
+export const parseTransform = (value: string | null): Matrix => {
+  let matrix = IDENTITY;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value || ""))) {
+    const args = parseNumbers(match[2]);
+    let next: Matrix = IDENTITY;
+    switch (match[1]) {
+      case "matrix":
+        if (args.length === 6) next = args as Matrix;
+        break;
+      case "translate":
+        next = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        break;
+      case "scale":
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case "rotate": {
+        const angle = ((args[0] || 0) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const [cx = 0, cy = 0] = args.slice(1);
+        next = [
+          cos,
+          sin,
+          -sin,
+          cos,
+          cx - cos * cx + sin * cy,
+          cy - sin * cx - cos * cy,
+        ];
+        break;
+      }
+      case "skewX":
+        next = [1, 0, Math.tan(((args[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case "skewY":
+        next = [1, Math.tan(((args[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+};
+
+// 读取样式：style 属性优先于同名属性，可继承的样式向上查找
+const getStyle = (element: Element, name: string): string | null => {
+  let current: Element | null = element;
+  while (current) {
+    const inline = (current.getAttribute("style") || "")
+      .split(";")
+      .map((rule) => rule.split(":"))
+      .find(([key]) => key?.trim() === name);
+    const value = inline ? inline[1]?.trim() : current.getAttribute(name);
+    if (value && value !== "inherit") return value;
+    if (!INHERITED_STYLES.has(name)) return null;
+    current = current.parentElement;
+  }
+  return null;
+};
+
+// 元素及所有父元素的 opacity 相乘
+const getOpacity = (element: Element) => {
+  let opacity = 1;
+  let current: Element | null = element;
+  while (current) {
+    const value = getStyle(current, "opacity");
+    if (value) opacity *= Number(value) || 0;
+    current = current.parentElement;
+  }
+  return opacity;
+};
+
+const parseLength = (value: string | null, fallback = 0) => {
+  const number = parseFloat(value || "");
+  return Number.isFinite(number) ? number : fallback;
+};
+
+// 颜色：none 返回 null，currentColor 取 color 样式，渐变等引用返回 undefined（无法转换）
+const resolvePaint = (element: Element, name: "fill" | "stroke") => {
+  const value = getStyle(element, name) ?? (name === "fill" ? "black" : "none");
+  if (value === "none" || value === "transparent") return null;
+  if (value.startsWith("url(")) return undefined;
+  if (value === "currentColor") return getStyle(element, "color") || "black";
+  return value;
+};
+
+interface ElementStyle {
+  fill: string | null;
+  stroke: string | null;
+  strokeWidth: number;
+  opacity: number;
+}
+
+// 读取元素的描边、填充和透明度；使用无法转换的颜色时返回 null
+const getElementStyle = (
+  element: Element,
+  scale: number
+): ElementStyle | null => {
+  const fill = resolvePaint(element, "fill");
+  const stroke = resolvePaint(element, "stroke");
+  if (fill === undefined || stroke === undefined) return null;
+
+  // 画布的透明度作用于整个元素，填充和描边透明度只在单独使用时生效
+  let opacity = getOpacity(element);
+  if (fill && !stroke) {
+    opacity *= parseLength(getStyle(element, "fill-opacity"), 1);
+  } else if (stroke && !fill) {
+    opacity *= parseLength(getStyle(element, "stroke-opacity"), 1);
+  }
+
+  return {
+    fill,
+    stroke,
+    strokeWidth: stroke
+      ? parseLength(getStyle(element, "stroke-width"), 1) * scale
+      : 0,
+    opacity,
+  };
+};
+
+const baseShape = (style: ElementStyle) => ({
+  id: createId(),
+  stroke: style.stroke || "transparent",
+  strokeWidth: style.strokeWidth,
+  fill: style.fill || "transparent",
+  opacity: style.opacity,
+});
+
+// 按旋转中心换算图形左上角：保证图形中心落在 center
+const placeRotated = (
+  center: [number, number],
+  width: number,
+  height: number
+) => ({
+  x: center[0] - width / 2,
+  y: center[1] - height / 2,
+});
+
+// 路径数据 → 折线点（局部坐标），每个子路径一组
+export const flattenPathData = (d: string): number[][][] => {
+  const tokens =
+    d.match(/[MmLlHhVvCcSsQqTtAaZz]|-?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ||
+    [];
+  const subpaths: number[][][] = [];
+  let current: number[][] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // 上一段曲线的控制点，用于 S/T 的反射
+  let lastControl: [number, number] | null = null;
+  let lastCommand = "";
+  let command = "";
+  let i = 0;
+
+  const next = () => Number(tokens[i++]);
+  const hasNumber = () => i < tokens.length && !/^[A-Za-z]$/.test(tokens[i]);
+  const lineTo = (nx: number, ny: number) => {
+    current.push([nx, ny]);
+    x = nx;
+    y = ny;
+  };
+  const cubicTo = (
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    nx: number,
+    ny: number
+  ) => {
+    for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+      const t = s / CURVE_SEGMENTS;
+      const mt = 1 - t;
+      current.push([
+        mt ** 3 * x + 3 * mt ** 2 * t * x1 + 3 * mt * t ** 2 * x2 + t ** 3 * nx,
+        mt ** 3 * y + 3 * mt ** 2 * t * y1 + 3 * mt * t ** 2 * y2 + t ** 3 * ny,
+      ]);
+    }
+    lastControl = [x2, y2];
+    x = nx;
+    y = ny;
+  };
+  const quadTo = (x1: number, y1: number, nx: number, ny: number) => {
+    for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+      const t = s / CURVE_SEGMENTS;
+      const mt = 1 - t;
+      current.push([
+        mt ** 2 * x + 2 * mt * t * x1 + t ** 2 * nx,
+        mt ** 2 * y + 2 * mt * t * y1 + t ** 2 * ny,
+      ]);
+    }
+    lastControl = [x1, y1];
+    x = nx;
+    y = ny;
+  };
+  // 椭圆弧：端点参数转换为中心参数后采样（SVG 规范 F.6.5）
+  const arcTo = (
+    rx: number,
+    ry: number,
+    angle: number,
+    largeArc: boolean,
+    sweep: boolean,
+    nx: number,
+    ny: number
+  ) => {
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx < EPSILON || ry < EPSILON) {
+      lineTo(nx, ny);
+      return;
+    }
+    const phi = (angle * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (x - nx) / 2;
+    const dy = (y - ny) / 2;
+    const x1p = cos * dx + sin * dy;
+    const y1p = -sin * dx + cos * dy;
+    const lambda = (x1p / rx) ** 2 + (y1p / ry) ** 2;
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+    const numerator =
+      rx ** 2 * ry ** 2 - rx ** 2 * y1p ** 2 - ry ** 2 * x1p ** 2;
+    const denominator = rx ** 2 * y1p ** 2 + ry ** 2 * x1p ** 2;
+    const factor =
+      (largeArc === sweep ? -1 : 1) *
+      Math.sqrt(Math.max(0, numerator / denominator));
+    const cxp = (factor * rx * y1p) / ry;
+    const cyp = (-factor * ry * x1p) / rx;
+    const cx = cos * cxp - sin * cyp + (x + nx) / 2;
+    const cy = sin * cxp + cos * cyp + (y + ny) / 2;
+    const theta1 = Math.atan2((y1p - cyp) / ry, (x1p - cxp) / rx);
+    let delta = Math.atan2((-y1p - cyp) / ry, (-x1p - cxp) / rx) - theta1;
+    if (sweep && delta < 0) delta += Math.PI * 2;
+    if (!sweep && delta > 0) delta -= Math.PI * 2;
+
+    const segments = Math.max(
+      2,
+      Math.ceil((Math.abs(delta) / (Math.PI / 2)) * CURVE_SEGMENTS)
+    );
+    for (let s = 1; s <= segments; s++) {
+      const theta = theta1 + (delta * s) / segments;
+      current.push([
+        cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+        cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+      ]);
+    }
+    x = nx;
+    y = ny;
+  };
+
+  while (i < tokens.length) {
+    if (/^[A-Za-z]$/.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (!command) {
+      break;
+    }
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    const upper = command.toUpperCase();
+    // 没有 S/T 之前的曲线时，控制点为当前点
+    const reflect = (types: string): [number, number] =>
+      lastControl && types.includes(lastCommand)
+        ? [2 * x - lastControl[0], 2 * y - lastControl[1]]
+        : [x, y];
+
+    switch (upper) {
+      case "M": {
+        if (current.length > 1) subpaths.push(current);
+        const nx = next() + ox;
+        const ny = next() + oy;
+        current = [[nx, ny]];
+        x = startX = nx;
+        y = startY = ny;
+        // M 后面的多组坐标按 L 处理
+        command = relative ? "l" : "L";
+        break;
+      }
+      case "L":
+        lineTo(next() + ox, next() + oy);
+        break;
+      case "H":
+        lineTo(next() + ox, y);
+        break;
+      case "V":
+        lineTo(x, next() + oy);
+        break;
+      case "C":
+        cubicTo(
+          next() + ox,
+          next() + oy,
+          next() + ox,
+          next() + oy,
+          next() + ox,
+          next() + oy
+        );
+        break;
+      case "S": {
+        const [x1, y1] = reflect("CS");
+        cubicTo(x1, y1, next() + ox, next() + oy, next() + ox, next() + oy);
+        break;
+      }
+      case "Q":
+        quadTo(next() + ox, next() + oy, next() + ox, next() + oy);
+        break;
+      case "T": {
+        const [x1, y1] = reflect("QT");
+        quadTo(x1, y1, next() + ox, next() + oy);
+        break;
+      }
+      case "A":
+        arcTo(
+          next(),
+          next(),
+          next(),
+          next() !== 0,
+          next() !== 0,
+          next() + ox,
+          next() + oy
+        );
+        break;
+      case "Z":
+        lineTo(startX, startY);
+        if (current.length > 1) subpaths.push(current);
+        current = [[startX, startY]];
+        // Z 不带参数，后面必须是新的命令
+        command = "";
+        break;
+      default:
+        // 无法识别的命令：跳过其参数
+        while (hasNumber()) i++;
+    }
+    if (!["C", "S", "Q", "T"].includes(upper)) lastControl = null;
+    lastCommand = upper;
+
+    // 参数不完整时停止解析
+    if (!Number.isFinite(x) || !Number.isFinite(y)) break;
+  }
+  if (current.length > 1) subpaths.push(current);
+  return subpaths.filter((points) =>
+    points.every(([px, py]) => Number.isFinite(px) && Number.isFinite(py))
+  );
+};
+
+// 获取元素的折线点（局部坐标），不是折线类元素时返回 null
+const getPolylinePoints = (element: Element): number[][][] | null => {
+  switch (element.tagName) {
+    case "polyline":
+    case "polygon": {
+      const numbers = parseNumbers(element.getAttribute("points"));
+      const points: number[][] = [];
+      for (let i = 0; i + 1 < numbers.length; i += 2) {
+        points.push([numbers[i], numbers[i + 1]]);
+      }
+      if (element.tagName === "polygon" && points.length > 0) {
+        points.push(points[0]);
+      }
+      return points.length > 1 ? [points] : [];
+    }
+    case "path":
+      return flattenPathData(element.getAttribute("d") || "");
+    default:
+      return null;
+  }
+};
+
+// 文本宽度测量，用于处理 text-anchor
+let measureContext: CanvasRenderingContext2D | null = null;
+const measureTextWidth = (text: string, font: string) => {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return text.length * 8;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+interface ConvertContext {
+  paths: CanvasPath[];
+  shapes: CanvasShape[];
+  fallback: (element: Element, matrix: Matrix) => void;
+}
+
+// 把单个元素转换为画布元素；返回 false 表示无法转换
+const convertElement = (
+  element: Element,
+  matrix: Matrix,
+  context: ConvertContext
+): boolean => {
+  const transform = decompose(matrix);
+  if (!transform) return false;
+  const { rotation, scaleX, scaleY } = transform;
+  // 描边宽度、字号等按平均缩放换算
+  const scale = Math.sqrt(Math.abs(scaleX * scaleY));
+  const style = getElementStyle(element, scale);
+  if (!style) return false;
+  const attr = (name: string, fallback = 0) =>
+    parseLength(element.getAttribute(name), fallback);
+
+  switch (element.tagName) {
+    case "rect": {
+      // 圆角矩形无法保持圆角，按图片导入
+      if (attr("rx") || attr("ry")) return false;
+      const width = attr("width") * Math.abs(scaleX);
+      const height = attr("height") * Math.abs(scaleY);
+      const center = applyMatrix(
+        matrix,
+        attr("x") + attr("width") / 2,
+        attr("y") + attr("height") / 2
+      );
+      context.shapes.push({
+        ...baseShape(style),
+        type: "rectangle",
+        ...placeRotated(center, width, height),
+        width,
+        height,
+        rotation,
+      });
+      return true;
+    }
+    case "circle":
+    case "ellipse": {
+      const rx =
+        (element.tagName === "circle" ? attr("r") : attr("rx")) *
+        Math.abs(scaleX);
+      const ry =
+        (element.tagName === "circle" ? attr("r") : attr("ry")) *
+        Math.abs(scaleY);
+      // 画布只有正圆，椭圆按图片导入
+      if (Math.abs(rx - ry) > Math.max(rx, ry) * 0.01) return false;
+      const center = applyMatrix(matrix, attr("cx"), attr("cy"));
+      context.shapes.push({
+        ...baseShape(style),
+        type: "circle",
+        x: center[0] - rx,
+        y: center[1] - rx,
+        width: rx * 2,
+        height: rx * 2,
+        rotation: 0,
+      });
+      return true;
+    }
+    case "line": {
+      if (!style.stroke) return true;
+      const [x1, y1] = applyMatrix(matrix, attr("x1"), attr("y1"));
+      const [x2, y2] = applyMatrix(matrix, attr("x2"), attr("y2"));
+      context.shapes.push({
+        ...baseShape(style),
+        type: "line",
+        x: x1,
+        y: y1,
+        width: x2 - x1,
+        height: y2 - y1,
+        points: [x1, y1, x2, y2],
+        fill: undefined,
+        rotation: 0,
+      });
+      return true;
+    }
+    case "polyline":
+    case "polygon":
+    case "path": {
+      // 画笔路径只有描边，带填充的形状按图片导入
+      if (style.fill) return false;
+      if (!style.stroke) return true;
+      (getPolylinePoints(element) || []).forEach((points) => {
+        context.paths.push({
+          id: createId(),
+          points: points.flatMap(([px, py]) => applyMatrix(matrix, px, py)),
+          stroke: style.stroke as string,
+          // 画笔路径的绘制宽度约为 strokeWidth 的两倍
+          strokeWidth: Math.max(1, style.strokeWidth / 2),
+          opacity: style.opacity,
+        });
+      });
+      return true;
+    }
+    case "text": {
+      const text = (element.textContent || "").replace(/\s+/g, " ").trim();
+      if (!text) return true;
+      const fontSize = parseLength(getStyle(element, "font-size"), 16);
+      const fontFamily = (getStyle(element, "font-family") || "Arial")
+        .split(",")[0]
+        .replace(/['"]/g, "")
+        .trim();
+      const fontWeight = getStyle(element, "font-weight") || "normal";
+      const isbold = fontWeight === "bold" || parseInt(fontWeight) >= 600;
+      const isitalic = /italic|oblique/.test(
+        getStyle(element, "font-style") || ""
+      );
+      const decoration = getStyle(element, "text-decoration") || "";
+      const scaledSize = fontSize * scale;
+
+      // 根据 text-anchor 计算文本起点（局部坐标）
+      const width = measureTextWidth(
+        text,
+        `${isitalic ? "italic" : "normal"} ${isbold ? "bold" : "normal"} ${fontSize}px ${fontFamily}`
+      );
+      const anchor = getStyle(element, "text-anchor");
+      const startX =
+        parseNumbers(element.getAttribute("x"))[0] -
+        (anchor === "middle" ? width / 2 : anchor === "end" ? width : 0);
+      const baselineY = parseNumbers(element.getAttribute("y"))[0] || 0;
+      const [bx, by] = applyMatrix(matrix, startX || 0, baselineY);
+
+      // 画布中文本绕自身中心旋转，反推出未旋转时的左上角
+      const shapeWidth = width * scale;
+      const shapeHeight = scaledSize * 1.2;
+      const angle = (rotation * Math.PI) / 180;
+      const vx = -shapeWidth / 2;
+      const vy = scaledSize - shapeHeight / 2;
+      const center: [number, number] = [
+        bx - (Math.cos(angle) * vx - Math.sin(angle) * vy),
+        by - (Math.sin(angle) * vx + Math.cos(angle) * vy),
+      ];
+      context.shapes.push({
+        id: createId(),
+        type: "text",
+        ...placeRotated(center, shapeWidth, shapeHeight),
+        width: shapeWidth,
+        height: shapeHeight,
+        text,
+        fontSize: scaledSize,
+        fontFamily,
+        isbold,
+        isitalic,
+        isunderline: decoration.includes("underline"),
+        isstrikethrough: decoration.includes("line-through"),
+        stroke: style.fill || style.stroke || "#000000",
+        strokeWidth: 0,
+        fill: style.fill || style.stroke || "#000000",
+        opacity: style.opacity,
+        rotation,
+      });
+      return true;
+    }
+    default:
+      return false;
+  }
+};
+
+const walk = (element: Element, parent: Matrix, context: ConvertContext) => {
+  const tag = element.tagName;
+  if (SKIPPED_TAGS.has(tag)) return;
+  if (
+    getStyle(element, "display") === "none" ||
+    getStyle(element, "visibility") === "hidden"
+  ) {
+    return;
+  }
+
+  let matrix = multiply(
+    parent,
+    parseTransform(element.getAttribute("transform"))
+  );
+  if (CONTAINER_TAGS.has(tag)) {
+    // 嵌套的 <svg> 使用 x/y 定位
+    if (tag === "svg" && element.parentElement) {
+      matrix = multiply(matrix, [
+        1,
+        0,
+        0,
+        1,
+        parseLength(element.getAttribute("x")),
+        parseLength(element.getAttribute("y")),
+      ]);
+    }
+    Array.from(element.children).forEach((child) =>
+      walk(child, matrix, context)
+    );
+    return;
+  }
+
+  if (!convertElement(element, matrix, context)) {
+    context.fallback(element, matrix);
+  }
+};
+
+// 把无法转换的元素渲染成独立的 SVG 图片，放在它在画布上的位置
+const createFallbackImage = (
+  root: SVGSVGElement,
+  element: Element,
+  matrix: Matrix
+): CanvasShape | null => {
+  if (!(element instanceof SVGGraphicsElement)) return null;
+  let box: DOMRect;
+  try {
+    box = element.getBBox();
+  } catch {
+    return null;
+  }
+  if (box.width === 0 && box.height === 0) return null;
+
+  // 变换后的包围盒，四周留出描边宽度
+  const corners = [
+    applyMatrix(matrix, box.x, box.y),
+    applyMatrix(matrix, box.x + box.width, box.y),
+    applyMatrix(matrix, box.x, box.y + box.height),
+    applyMatrix(matrix, box.x + box.width, box.y + box.height),
+  ];
+  const stroke = resolvePaint(element, "stroke")
+    ? parseLength(getStyle(element, "stroke-width"), 1) *
+      Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]))
+    : 0;
+  const minX = Math.min(...corners.map(([cx]) => cx)) - stroke;
+  const minY = Math.min(...corners.map(([, cy]) => cy)) - stroke;
+  const maxX = Math.max(...corners.map(([cx]) => cx)) + stroke;
+  const maxY = Math.max(...corners.map(([, cy]) => cy)) + stroke;
+  const width = maxX - minX;
+  const height = maxY - minY;
+
+  // 复制元素及其继承的样式，带上原文件中的 defs/style（渐变、滤镜等）
+  const clone = element.cloneNode(true) as Element;
+  clone.removeAttribute("transform");
+  INHERITED_STYLES.forEach((name) => {
+    const value = getStyle(element, name);
+    if (value && !clone.getAttribute(name)) clone.setAttribute(name, value);
+  });
+  const defs = Array.from(root.querySelectorAll("defs, style"))
+    .map((node) => new XMLSerializer().serializeToString(node))
+    .join("");
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}">` +
+    `${defs}<g opacity="${getOpacity(element.parentElement || element)}" transform="matrix(${matrix.join(" ")})">` +
+    `${new XMLSerializer().serializeToString(clone)}</g></svg>`;
+
+  return {
+    id: createId(),
+    type: "image",
+    x: minX,
+    y: minY,
+    width,
+    height,
+    src: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+    stroke: "#000000",
+    strokeWidth: 2,
+    opacity: 1,
+    rotation: 0,
+  };
+};
+
+// 解析 SVG 文本；文件无效时抛出错误
+export const parseSVG = (source: string): CanvasState => {
+  const doc = new DOMParser().parseFromString(source, "image/svg+xml");
+  const parsed = doc.documentElement;
+  if (doc.querySelector("parsererror") || parsed.tagName !== "svg") {
+    throw new Error("Invalid SVG file");
+  }
+
+  // 临时挂载到页面上，用于计算无法转换元素的包围盒
+  const root = document.importNode(parsed, true) as unknown as SVGSVGElement;
+  const container = document.createElement("div");
+  container.style.cssText = "position:absolute;left:-100000px;top:0";
+  container.appendChild(root);
+  document.body.appendChild(container);
+
+  try {
+    // viewBox 起点不为 0 时平移到原点
+    const [viewX = 0, viewY = 0] = parseNumbers(root.getAttribute("viewBox"));
+    const context: ConvertContext = {
+      paths: [],
+      shapes: [],
+      fallback: (element, matrix) => {
+        const image = createFallbackImage(root, element, matrix);
+        if (image) context.shapes.push(image);
+      },
+    };
+    // 按 SVG 的用户坐标导入，不处理 viewBox 与 width/height 之间的缩放
+    const origin: Matrix = [1, 0, 0, 1, -viewX, -viewY];
+    Array.from(root.children).forEach((child) =>
+      walk(
+        child,
+        multiply(origin, parseTransform(root.getAttribute("transform"))),
+        context
+      )
+    );
+
+    if (context.paths.length === 0 && context.shapes.length === 0) {
+      throw new Error("SVG contains no drawable elements");
+    }
+    return { paths: context.paths, shapes: context.shapes };
+  } finally {
+    container.remove();
+  }
+};
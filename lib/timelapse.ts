@@ -0,0 +1,164 @@
+import ShareDB from "sharedb/lib/client";
+import type { CanvasState } from "@/lib/collaboration-service";
+import { COLLAB_SERVER_URL } from "@/lib/collaboration-service";
+import { encodeAPNG } from "@/lib/apng";
+import type { HistoryEntry } from "@/lib/history";
+import { applyPatch, describePatch, diffCanvas } from "@/lib/history";
+import {
+  expandBounds,
+  getSceneBounds,
+  loadSceneImages,
+  unionBounds,
+} from "@/lib/scene-renderer";
+import { createAreaCanvas, renderSceneArea } from "@/lib/raster-export";
+import { flattenLayers } from "@/lib/layers";
+
+// 延时回放：把画板从空白到当前状态的构建过程拆成一帧帧画面
+
+export interface TimelapseFrame {
+  content: CanvasState;
+  label: string;
+  timestamp: number;
+}
+
+const json0 = ShareDB.types.defaultType;
+
+// 用本地历史记录生成回放帧：先撤销到最早的状态，再逐步重做
+export const buildHistoryTimelapse = (
+  history: HistoryEntry[],
+  historyIndex: number,
+  content: CanvasState
+): TimelapseFrame[] => {
+  let initial = content;
+  for (let i = historyIndex; i >= 0; i--) {
+    initial = applyPatch(initial, history[i].patch, "undo");
+  }
+
+  const frames: TimelapseFrame[] = [
+    {
+      content: initial,
+      label: "初始状态",
+      timestamp: history[0]?.timestamp ?? Date.now(),
+    },
+  ];
+  let current = initial;
+  for (let i = 0; i <= historyIndex; i++) {
+    current = applyPatch(current, history[i].patch, "redo");
+    frames.push({
+      content: current,
+      label: history[i].label,
+      timestamp: history[i].timestamp,
+    });
+  }
+  return frames;
+};
+
+// 协作服务器返回的原始操作记录
+interface StoredOp {
+  v: number;
+  create?: { type: string; data: CanvasState };
+  op?: any[];
+  del?: boolean;
+  m?: { ts?: number };
+}
+
+// 拷贝一层元素，保证每一帧互不影响（json0 会原地修改快照）
+const cloneContent = (content: CanvasState): CanvasState => ({
+  paths: content.paths.map((path) => ({ ...path })),
+  shapes: content.shapes.map((shape) => ({ ...shape })),
+  ...(Array.isArray(content.layers) && {
+    layers: content.layers.map((layer) => ({ ...layer })),
+  }),
+});
+
+// 帧中实际绘制的内容：按帧自己的图层隐藏元素、叠加透明度（旧文档没有图层时原样绘制）
+const getFrameScene = ({ paths, shapes, layers }: CanvasState) =>
+  layers && layers.length > 0
+    ? flattenLayers({ paths, shapes, layers })
+    : { paths, shapes };
+
+// 协作时使用服务器上的操作日志生成回放帧，包含所有成员的操作
+export const fetchCollabTimelapse = async (
+  canvasId: string,
+  serverUrl: string = COLLAB_SERVER_URL
+): Promise<TimelapseFrame[]> => {
+  const httpUrl = serverUrl.replace(/^ws/, "http");
+  const response = await fetch(
+    `${httpUrl}/api/canvases/${encodeURIComponent(canvasId)}/ops`
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ops: ${response.status}`);
+  }
+  const ops: StoredOp[] = await response.json();
+
+  const frames: TimelapseFrame[] = [];
+  let snapshot: CanvasState = { paths: [], shapes: [] };
+  ops.forEach((op) => {
+    const previous = cloneContent(snapshot);
+    if (op.create) {
+      snapshot = {
+        paths: [],
+        shapes: [],
+        ...JSON.parse(JSON.stringify(op.create.data)),
+      };
+    } else if (op.op) {
+      snapshot = json0.apply(snapshot, op.op);
+    } else if (op.del) {
+      snapshot = { paths: [], shapes: [] };
+    }
+
+    const content = cloneContent(snapshot);
+    const timestamp = op.m?.ts ?? Date.now();
+    if (frames.length === 0) {
+      frames.push({ content, label: "初始状态", timestamp });
+      return;
+    }
+    frames.push({
+      content,
+      label: describePatch(diffCanvas(previous, content), content),
+      timestamp,
+    });
+  });
+  return frames;
+};
+
+export interface TimelapseExportOptions {
+  fps: number;
+  scale?: number;
+  padding?: number;
+  background?: string; // 为空时使用透明背景
+}
+
+// 把回放帧导出为 APNG 动画；所有帧使用同一画面范围，保证画面不跳动
+export const exportTimelapseAPNG = async (
+  frames: TimelapseFrame[],
+  { fps, scale = 1, padding = 20, background }: TimelapseExportOptions
+): Promise<Blob> => {
+  const scenes = frames.map((frame) => getFrameScene(frame.content));
+  const bounds = unionBounds(
+    scenes
+      .map((scene) => getSceneBounds(scene))
+      .filter((b): b is NonNullable<typeof b> => b !== null)
+  );
+  if (!bounds) throw new Error("Nothing to export");
+
+  const getImage = await loadSceneImages(
+    scenes.flatMap((scene) => scene.shapes)
+  );
+
+  const area = expandBounds(bounds, padding);
+  const { canvas, ctx } = createAreaCanvas(area, scale);
+
+  const pngs: Uint8Array[] = [];
+  for (const scene of scenes) {
+    renderSceneArea(ctx, scene, area, { scale, background, getImage });
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png")
+    );
+    if (!blob) throw new Error("Failed to encode frame");
+    pngs.push(new Uint8Array(await blob.arrayBuffer()));
+  }
+
+  return encodeAPNG(pngs, 1000 / fps);
+};
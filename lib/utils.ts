@@ -41,17 +41,23 @@ export const pointToLineDistance = (
 };
 
 //导入辅助函数
-export const importJSON = async (importFn: (json: string) => void) => {
+export const importJSON = async (importFn: (json: string) => void) =>
+  importFile(".json", async (file) => importFn(await file.text()));
+
+// 选择文件并导入，导入函数可以是异步的
+export const importFile = async (
+  accept: string,
+  importFn: (file: File) => void | Promise<void>
+) => {
   const input = document.createElement("input");
   input.type = "file";
-  input.accept = ".json";
+  input.accept = accept;
 
   input.onchange = async (e) => {
     const file = (e.target as HTMLInputElement).files?.[0];
     if (file) {
-      const content = await file.text();
       try {
-        importFn(content);
+        await importFn(file);
         setTimeout(() => {
           toast.success("导入成功", { closeButton: true });
         }, 10);
@@ -64,3 +70,83 @@ export const importJSON = async (importFn: (json: string) => void) => {
   };
   input.click();
 };
+
+// 提示导入导出时丢失、修复或移除了信息的元素，按原因汇总
+export const notifyConversionIssues = (issues: { reasons: string[] }[]) => {
+  if (issues.length === 0) return;
+  const counts = new Map<string, number>();
+  issues.forEach((issue) =>
+    issue.reasons.forEach((reason) =>
+      counts.set(reason, (counts.get(reason) || 0) + 1)
+    )
+  );
+  toast.warning(`${issues.length} 个元素未能完整转换`, {
+    description: [...counts]
+      .map(([reason, count]) => `${reason} (${count})`)
+      .join("、"),
+    closeButton: true,
+  });
+};
+
+// 生成新的协作房间 ID
+export const generateRoomId = () =>
+  Math.random().toString(36).substring(2, 10) +
+  Date.now().toString(36).slice(-4);
+
+// 根据房间 ID 生成分享链接
+export const getShareLink = (roomId: string) =>
+  `${window.location.origin}/board/${encodeURIComponent(roomId)}`;
+
+// 触发浏览器下载
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  // 清理
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 0);
+};
+
+// CRC32 校验（PNG 分块和 ZIP 文件都使用）
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array, crc = 0) => {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC32_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+};
+
+// 当前主题下画布的背景色（导出时用作不透明背景）
+export const getThemeBackground = () =>
+  getComputedStyle(document.body).backgroundColor || "#ffffff";
+
+// 以 KB/MB/GB 显示字节数
+export const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
@@ -0,0 +1,223 @@
+import type { CanvasObject } from "@/types/canvas";
+import type { SceneContent } from "@/lib/scene-renderer";
+
+// 层叠顺序：路径和图形共用一个 zIndex 序列，数值越大越靠上
+// - 没有 zIndex 的元素（旧数据、协作文档中的旧元素）按 0 处理
+// - zIndex 相同时保持旧的顺序：先路径后图形，各自按数组顺序
+// - 有图层时先按图层排列，zIndex 只在同一图层内比较
+
+export type ZOrderDirection = "forward" | "backward" | "front" | "back";
+
+// 元素所在图层的下标：没有 layerId 或图层不存在时属于最下面的图层
+const createLayerIndex = (content: SceneContent) => {
+  const indexes = new Map(
+    (content.layers ?? []).map((layer, i) => [layer.id, i])
+  );
+  return (object: CanvasObject) => indexes.get(object.data.layerId ?? "") ?? 0;
+};
+
+// 按层叠顺序（从下到上）排列所有元素
+export const getCanvasObjects = (content: SceneContent): CanvasObject[] => {
+  const objects: CanvasObject[] = [
+    ...content.paths.map((path) => ({
+      id: path.id,
+      type: "path" as const,
+      data: path,
+      zIndex: path.zIndex ?? 0,
+    })),
+    ...content.shapes.map((shape) => ({
+      id: shape.id,
+      type: "shape" as const,
+      data: shape,
+      zIndex: shape.zIndex ?? 0,
+    })),
+  ];
+  // Array.prototype.sort 是稳定排序，相同 zIndex 保持原来的先后
+  const getLayerIndex = createLayerIndex(content);
+  return objects.sort(
+    (a, b) => getLayerIndex(a) - getLayerIndex(b) || a.zIndex - b.zIndex
+  );
+};
+
+// 最上层的 zIndex，画布为空时返回 -1（新元素从 0 开始）
+export const getTopZIndex = (content: SceneContent) =>
+  [...content.paths, ...content.shapes].reduce(
+    (top, element) => Math.max(top, element.zIndex ?? 0),
+    -1
+  );
+
+// 把导入的内容整体放到现有内容之上，保持导入内容内部的先后顺序
+export const stackOnTop = <T extends SceneContent>(
+  content: T,
+  base: SceneContent
+): T => {
+  const top = getTopZIndex(base);
+  const zIndexes = new Map(
+    getCanvasObjects(content).map((object, i) => [object.id, top + 1 + i])
+  );
+  return {
+    ...content,
+    paths: content.paths.map((path) => ({
+      ...path,
+      zIndex: zIndexes.get(path.id),
+    })),
+    shapes: content.shapes.map((shape) => ({
+      ...shape,
+      zIndex: zIndexes.get(shape.id),
+    })),
+  };
+};
+
+// 调整同一图层内元素的层叠顺序，objects 已按层叠顺序排列
+const reorderLayer = (
+  objects: CanvasObject[],
+  selected: Set<string>,
+  direction: ZOrderDirection
+): Map<string, number> => {
+  const isSelected = (object: CanvasObject) => selected.has(object.id);
+  const count = objects.filter(isSelected).length;
+  const updates = new Map<string, number>();
+  if (count === 0) return updates;
+
+  if (direction === "front" || direction === "back") {
+    const edge =
+      direction === "front"
+        ? objects.slice(objects.length - count)
+        : objects.slice(0, count);
+    if (edge.every(isSelected)) return updates;
+
+    const start =
+      direction === "front"
+        ? objects[objects.length - 1].zIndex + 1
+        : objects[0].zIndex - count;
+    objects
+      .filter(isSelected)
+      .forEach((object, i) => updates.set(object.id, start + i));
+    return updates;
+  }
+
+  // 元素交换位置，zIndex 留在原来的位置上
+  const order = [...objects];
+  if (direction === "forward") {
+    for (let i = order.length - 2; i >= 0; i--) {
+      if (isSelected(order[i]) && !isSelected(order[i + 1])) {
+        [order[i], order[i + 1]] = [order[i + 1], order[i]];
+      }
+    }
+  } else {
+    for (let i = 1; i < order.length; i++) {
+      if (isSelected(order[i]) && !isSelected(order[i - 1])) {
+        [order[i], order[i - 1]] = [order[i - 1], order[i]];
+      }
+    }
+  }
+  if (order.every((object, i) => object === objects[i])) return updates;
+
+  // 有相同的 zIndex 时无法只交换数值，整体重新编号
+  const isStrict = objects.every(
+    (object, i) => i === 0 || object.zIndex > objects[i - 1].zIndex
+  );
+  order.forEach((object, i) => {
+    const zIndex = isStrict ? objects[i].zIndex : i;
+    if (object.zIndex !== zIndex || object.data.zIndex === undefined) {
+      updates.set(object.id, zIndex);
+    }
+  });
+  return updates;
+};
+
+/**
+ * 计算调整层叠顺序后需要修改的 zIndex
+ * - forward/backward：选中的元素越过相邻的一个未选中元素
+ * - front/back：选中的元素移到最上层/最下层，选中元素之间的先后不变
+ * - 元素只在自己的图层内调整，不会移到其他图层
+ * @returns 元素 ID → 新的 zIndex，只包含需要修改的元素；顺序不变时为空
+ */
+export const getZOrderUpdates = (
+  content: SceneContent,
+  ids: string[],
+  direction: ZOrderDirection
+): Map<string, number> => {
+  const selected = new Set(ids);
+  const getLayerIndex = createLayerIndex(content);
+  const layers = new Map<number, CanvasObject[]>();
+  getCanvasObjects(content).forEach((object) => {
+    const index = getLayerIndex(object);
+    const list = layers.get(index);
+    if (list) {
+      list.push(object);
+    } else {
+      layers.set(index, [object]);
+    }
+  });
+
+  const updates = new Map<string, number>();
+  layers.forEach((objects) =>
+    reorderLayer(objects, selected, direction).forEach((zIndex, id) =>
+      updates.set(id, zIndex)
+    )
+  );
+  return updates;
+};
+
+type MoveUpdate = { zIndex?: number; layerId?: string };
+
+/**
+ * 把元素移到指定位置（大纲面板中拖拽排序）
+ * - 移到 targetId 元素的上方或下方，目标元素在其他图层时一起移到该图层
+ * - 没有 targetId 时移到 layerId 图层的最上面
+ * - 移动的元素之间保持原来的先后
+ * @returns 元素 ID → 新的 zIndex 和图层，只包含需要修改的字段；位置不变时为空
+ */
+export const getMoveUpdates = (
+  content: SceneContent,
+  ids: string[],
+  target: { layerId: string; targetId?: string; position?: "above" | "below" }
+): Map<string, MoveUpdate> => {
+  const selected = new Set(ids);
+  const updates = new Map<string, MoveUpdate>();
+  if (target.targetId && selected.has(target.targetId)) return updates;
+
+  const getLayerIndex = createLayerIndex(content);
+  // 找不到图层时按最下面的图层处理，与没有 layerId 的元素一致
+  const layerIndex = Math.max(
+    (content.layers ?? []).findIndex((layer) => layer.id === target.layerId),
+    0
+  );
+  const objects = getCanvasObjects(content);
+  const moved = objects.filter((object) => selected.has(object.id));
+  if (moved.length === 0) return updates;
+  const rest = objects.filter(
+    (object) => !selected.has(object.id) && getLayerIndex(object) === layerIndex
+  );
+
+  let index = rest.length;
+  if (target.targetId) {
+    const targetIndex = rest.findIndex(
+      (object) => object.id === target.targetId
+    );
+    if (targetIndex === -1) return updates;
+    index = target.position === "below" ? targetIndex : targetIndex + 1;
+  }
+  const order = [...rest.slice(0, index), ...moved, ...rest.slice(index)];
+
+  // 沿用这些元素原有的 zIndex（排序后依次分配），有相同的值时整体重新编号
+  const zIndexes = order.map((object) => object.zIndex).sort((a, b) => a - b);
+  const isStrict = zIndexes.every(
+    (zIndex, i) => i === 0 || zIndex > zIndexes[i - 1]
+  );
+  order.forEach((object, i) => {
+    const update: MoveUpdate = {};
+    const zIndex = isStrict ? zIndexes[i] : i;
+    if (object.zIndex !== zIndex || object.data.zIndex === undefined) {
+      update.zIndex = zIndex;
+    }
+    if (selected.has(object.id) && getLayerIndex(object) !== layerIndex) {
+      update.layerId = target.layerId;
+    }
+    if (update.zIndex !== undefined || update.layerId !== undefined) {
+      updates.set(object.id, update);
+    }
+  });
+  return updates;
+};
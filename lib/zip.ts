@@ -0,0 +1,181 @@
+import { crc32 } from "@/lib/utils";
+
+// 最小的 ZIP 读写实现（不依赖第三方库）
+// - 写入时文本类文件用 deflate 压缩（浏览器不支持时直接存储），图片等已压缩的内容直接存储
+// - 读取时支持存储（0）和 deflate（8）两种方式，不支持 ZIP64、加密和分卷
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  compress?: boolean;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+const transform = async (
+  data: Uint8Array,
+  stream: GenericTransformStream
+): Promise<Uint8Array> =>
+  new Uint8Array(
+    await new Response(
+      new Blob([data as BlobPart]).stream().pipeThrough(stream)
+    ).arrayBuffer()
+  );
+
+// MS-DOS 格式的修改时间和日期
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+/**
+ * 生成 ZIP 文件
+ * @param entries 文件列表，name 使用 "/" 分隔目录
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const canDeflate =
+      entry.compress && typeof CompressionStream !== "undefined";
+    const data = canDeflate
+      ? await transform(entry.data, new CompressionStream("deflate-raw"))
+      : entry.data;
+    const method = canDeflate ? DEFLATED : STORED;
+
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER, true);
+    view.setUint16(4, 20, true); // 解压所需版本 2.0
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, method, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, data.length, true);
+    view.setUint32(22, entry.data.length, true);
+    view.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, CENTRAL_HEADER, true);
+    recordView.setUint16(4, 20, true);
+    recordView.setUint16(6, 20, true);
+    recordView.setUint16(8, UTF8_FLAG, true);
+    recordView.setUint16(10, method, true);
+    recordView.setUint16(12, time, true);
+    recordView.setUint16(14, date, true);
+    recordView.setUint32(16, crc, true);
+    recordView.setUint32(20, data.length, true);
+    recordView.setUint32(24, entry.data.length, true);
+    recordView.setUint16(28, name.length, true);
+    recordView.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    parts.push(header, data);
+    central.push(record);
+    offset += header.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, record) => sum + record.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end] as BlobPart[], {
+    type: "application/zip",
+  });
+};
+
+// 从文件末尾向前查找中央目录结束记录（后面可能跟着注释）
+const findEndOfCentralDirectory = (view: DataView) => {
+  for (let i = view.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) return i;
+  }
+  throw new Error("Not a zip file");
+};
+
+/**
+ * 读取 ZIP 文件
+ * @returns 文件名 → 解压后的内容（不含目录项）
+ */
+export const readZip = async (
+  buffer: ArrayBuffer
+): Promise<Map<string, Uint8Array>> => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER) {
+      throw new Error("Invalid zip central directory");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    // 数据位置以本地文件头为准，其扩展字段长度可能与中央目录不同
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+      throw new Error(`Invalid zip entry ${name}`);
+    }
+    const dataOffset =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataOffset, dataOffset + compressedSize);
+
+    let data: Uint8Array;
+    if (method === STORED) {
+      data = raw.slice();
+    } else if (method === DEFLATED) {
+      if (typeof DecompressionStream === "undefined") {
+        throw new Error("Deflate is not supported by this browser");
+      }
+      data = await transform(raw, new DecompressionStream("deflate-raw"));
+    } else {
+      throw new Error(`Unsupported compression method ${method} in ${name}`);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`Checksum mismatch in ${name}`);
+    }
+    files.set(name, data);
+  }
+  return files;
+};
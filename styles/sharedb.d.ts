@@ -3,16 +3,51 @@ declare module "sharedb/lib/client" {
   // 定义ShareDB作为一个值，同时包含命名空间
   interface ShareDB {
     Connection: new (socket: any) => ShareDB.Connection;
-    types: { register: (name: string, type: any) => void };
+    types: {
+      register: (name: string, type: any) => void;
+      defaultType: ShareDB.OTType;
+    };
   }
 
   // 保持命名空间定义，以便在类型注解中使用
   namespace ShareDB {
+    interface OTType {
+      name: string;
+      apply<T = any>(snapshot: T, op: any[]): T;
+      invert(op: any[]): any[];
+      transform(op: any[], otherOp: any[], side: "left" | "right"): any[];
+    }
+
     interface Connection {
       get<D = any>(collection: string, id: string): Doc<D>;
+      getPresence<P = any>(channel: string): Presence<P>;
+      state: string;
+      on(
+        event: "state",
+        callback: (state: string, reason?: string) => void
+      ): void;
       close(): void;
     }
 
+    interface Presence<P = any> {
+      subscribe(callback?: (err?: Error) => void): void;
+      unsubscribe(callback?: (err?: Error) => void): void;
+      create(id?: string): LocalPresence<P>;
+      destroy(callback?: (err?: Error) => void): void;
+      on(
+        event: "receive",
+        callback: (id: string, value: P | null) => void
+      ): void;
+      on(event: string, callback: (...args: any[]) => void): void;
+    }
+
+    interface LocalPresence<P = any> {
+      presenceId: string;
+      value: P | null;
+      submit(value: P | null, callback?: (err?: Error) => void): void;
+      destroy(callback?: (err?: Error) => void): void;
+    }
+
     interface Doc<D = any> {
       data: D | null;
       subscribed: boolean;
@@ -21,6 +56,8 @@ declare module "sharedb/lib/client" {
       on(event: string, callback: (...args: any[]) => void): void;
       create(data: D): void;
       submitOp(ops: any[]): void;
+      hasPending(): boolean;
+      whenNothingPending(callback: () => void): void;
     }
   }
 
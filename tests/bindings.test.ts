@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  bindConnector,
+  getConnectorUpdates,
+  getDetachUpdates,
+  getReleaseUpdate,
+} from "@/lib/bindings";
+import type { CanvasShape } from "@/types/canvas";
+
+const rectangle = (id: string, x: number): CanvasShape => ({
+  id,
+  type: "rectangle",
+  x,
+  y: 0,
+  width: 100,
+  height: 100,
+  stroke: "#000000",
+  strokeWidth: 2,
+  rotation: 0,
+});
+
+const arrow = (points: number[]): CanvasShape => ({
+  id: "arrow",
+  type: "arrow",
+  x: points[0],
+  y: points[1],
+  points,
+  stroke: "#000000",
+  strokeWidth: 2,
+  rotation: 0,
+});
+
+const a = rectangle("a", 0);
+const b = rectangle("b", 300);
+
+test("connectors drawn from inside a shape bind to its center", () => {
+  const bound = bindConnector(arrow([50, 50, 350, 50]), [a, b], 10);
+  assert.deepEqual(bound.startBinding, { shapeId: "a", anchor: null });
+  assert.deepEqual(bound.endBinding, { shapeId: "b", anchor: null });
+  // 端点对齐到两个图形相对的边上
+  assert.deepEqual(bound.points, [100, 50, 300, 50]);
+  assert.deepEqual([bound.x, bound.y], [100, 50]);
+
+  // 目标移动后端点跟随
+  const moved = { ...b, x: 400 };
+  const updates = getConnectorUpdates([a, moved, bound], ["b"]);
+  assert.deepEqual(updates.get("arrow")?.points, [100, 50, 400, 50]);
+});
+
+test("connectors ending near an outline keep a fixed anchor", () => {
+  const bound = bindConnector(arrow([100, 30, 305, 80]), [a, b], 10);
+  assert.deepEqual(bound.startBinding, { shapeId: "a", anchor: [1, 0.3] });
+  assert.deepEqual(bound.endBinding, { shapeId: "b", anchor: [0, 0.8] });
+  assert.deepEqual(bound.points, [100, 30, 300, 80]);
+
+  const moved = { ...b, y: 100 };
+  const updates = getConnectorUpdates([a, moved, bound], ["b"]);
+  assert.deepEqual(updates.get("arrow")?.points, [100, 30, 300, 180]);
+  // 没有绑定到修改过的图形时不需要更新
+  assert.equal(getConnectorUpdates([a, b, bound], ["other"]).size, 0);
+});
+
+test("dragging an end away releases it unless its target moves along", () => {
+  const bound = bindConnector(arrow([50, 50, 350, 50]), [a, b], 10);
+  const dragged = { ...bound, points: [100, 50, 250, 250] };
+  assert.deepEqual(getReleaseUpdate(bound, [a, b, dragged], new Set()), {
+    endBinding: undefined,
+  });
+  assert.equal(getReleaseUpdate(bound, [a, b, dragged], new Set(["b"])), null);
+  // 端点没有移动时保留绑定
+  assert.equal(getReleaseUpdate(bound, [a, b, bound], new Set()), null);
+});
+
+test("deleting a target detaches the connectors bound to it", () => {
+  const bound = bindConnector(arrow([50, 50, 350, 50]), [a, b], 10);
+  assert.deepEqual(
+    [...getDetachUpdates([a, b, bound], ["b"])],
+    [["arrow", { endBinding: undefined }]]
+  );
+  assert.equal(getDetachUpdates([a, b, bound], ["arrow"]).size, 0);
+});
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createBundle, readBundle } from "@/lib/bundle";
+import { createZip, readZip } from "@/lib/zip";
+import { createAssetRef, getDataURLAssetId } from "@/lib/assets";
+import { createDefaultLayers } from "@/lib/layers";
+
+const PIXEL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+const encode = (value: unknown) =>
+  new TextEncoder().encode(JSON.stringify(value));
+
+test("zip entries are read back byte for byte", async () => {
+  const text = new TextEncoder().encode("画布".repeat(500));
+  const binary = new Uint8Array([0, 1, 2, 253, 254, 255]);
+  const zip = await createZip([
+    { name: "docs/说明.txt", data: text, compress: true },
+    { name: "data.bin", data: binary },
+  ]);
+  const files = await readZip(await zip.arrayBuffer());
+  assert.deepEqual([...files.keys()], ["docs/说明.txt", "data.bin"]);
+  assert.deepEqual(files.get("docs/说明.txt"), text);
+  assert.deepEqual(files.get("data.bin"), binary);
+});
+
+test("bundled assets are restored as data URLs", async () => {
+  // 画布为空时不生成预览图
+  const layers = createDefaultLayers();
+  const bundle = await createBundle({
+    paths: [],
+    shapes: [],
+    assets: { pixel: PIXEL },
+    layers,
+  });
+  const files = await readZip(await bundle.arrayBuffer());
+  assert.deepEqual([...files.keys()], ["document.json", "assets/pixel.png"]);
+
+  const { document, issues } = await readBundle(await bundle.arrayBuffer());
+  assert.deepEqual(document.assets, { pixel: PIXEL });
+  assert.deepEqual(document.layers, layers);
+  assert.deepEqual(issues, []);
+});
+
+test("older bundled documents are migrated and missing assets reported", async () => {
+  const id = getDataURLAssetId(PIXEL);
+  const image = (imageId: string) => ({
+    id: imageId,
+    type: "image",
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+    stroke: "#000000",
+    strokeWidth: 0,
+    rotation: 0,
+    src: createAssetRef(imageId === "kept" ? id : "missing"),
+  });
+  const zip = await createZip([
+    {
+      name: "document.json",
+      data: encode({
+        version: 3,
+        paths: [],
+        shapes: [image("kept"), image("lost")],
+        assets: { [id]: `assets/${id}.png`, missing: "assets/missing.png" },
+      }),
+    },
+    {
+      name: `assets/${id}.png`,
+      data: Uint8Array.from(atob(PIXEL.split(",")[1]), (c) => c.charCodeAt(0)),
+    },
+  ]);
+
+  const { document, issues } = await readBundle(await zip.arrayBuffer());
+  assert.equal(document.assets[id], PIXEL);
+  assert.deepEqual(
+    document.shapes.map((shape) => [shape.id, shape.zIndex]),
+    [["kept", 0]]
+  );
+  assert.ok(issues.some((issue) => issue.action === "removed"));
+  await assert.rejects(
+    readBundle(await (await createZip([])).arrayBuffer()),
+    /document\.json is missing/
+  );
+});
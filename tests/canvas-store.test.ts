@@ -0,0 +1,123 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+import type { CanvasPath, CanvasShape } from "@/types/canvas";
+
+// 画布状态在浏览器中运行：用 happy-dom 提供 window/document，fake-indexeddb 提供 IndexedDB
+GlobalRegistrator.register();
+require("fake-indexeddb/auto");
+
+type Store = typeof import("@/lib/canvas-store").useCanvasStore;
+
+let useCanvasStore: Store;
+
+const savedPath: CanvasPath = {
+  id: "saved-path",
+  points: [0, 0, 10, 10],
+  stroke: "#000000",
+  strokeWidth: 2,
+};
+
+// 等待条件满足
+const waitFor = async (check: () => boolean, timeout = 5000) => {
+  const deadline = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > deadline) assert.fail("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+before(async () => {
+  // 上一次打开页面时自动保存的画板
+  const { AUTOSAVE_ID, openStorage } = await import("@/lib/storage");
+  const { createDefaultLayers } = await import("@/lib/layers");
+  const { storage } = await openStorage();
+  await storage.save(AUTOSAVE_ID, "", {
+    paths: [savedPath],
+    shapes: [],
+    assets: {},
+    layers: createDefaultLayers(),
+  });
+
+  // 重新加载页面：导入画布状态时开始恢复，首页挂载时创建未连接的协作服务
+  ({ useCanvasStore } = await import("@/lib/canvas-store"));
+  useCanvasStore.getState().initializeCollaboration("home");
+  await waitFor(() => useCanvasStore.getState().storageReady);
+});
+
+after(async () => {
+  useCanvasStore.getState().disconnectCollaboration();
+  await useCanvasStore.getState().flushStorage();
+  await GlobalRegistrator.unregister();
+});
+
+test("autosaved board is restored after a reload", () => {
+  assert.deepEqual(
+    useCanvasStore.getState().paths.map((path) => path.id),
+    ["saved-path"]
+  );
+});
+
+test("appending the same content twice keeps the copies in separate groups", () => {
+  const rectangle = (id: string): CanvasShape => ({
+    id,
+    type: "rectangle",
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+    stroke: "#000000",
+    strokeWidth: 2,
+    rotation: 0,
+    groupIds: ["inner", "outer"],
+  });
+  const content = { paths: [], shapes: [rectangle("a"), rectangle("b")] };
+  const { importContent } = useCanvasStore.getState();
+  importContent(content, "append");
+  const first = useCanvasStore.getState().selectedIds;
+  importContent(content, "append");
+  const second = useCanvasStore.getState().selectedIds;
+
+  const { shapes } = useCanvasStore.getState();
+  const groupsOf = (ids: string[]) =>
+    ids.map((id) => shapes.find((shape) => shape.id === id)?.groupIds);
+  const [a1, b1] = groupsOf(first);
+  const [a2, b2] = groupsOf(second);
+  // 同一次导入中的元素仍在同一组中，两次导入的组互不相同
+  assert.deepEqual(a1, b1);
+  assert.deepEqual(a2, b2);
+  assert.equal(a1?.length, 2);
+  assert.ok(a1?.every((groupId) => !a2?.includes(groupId)));
+  assert.ok(a1?.every((groupId) => groupId !== "inner" && groupId !== "outer"));
+});
+
+test("a transaction becomes one undo step", () => {
+  const store = useCanvasStore.getState();
+  store.addShape({
+    id: "dragged",
+    type: "rectangle",
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+    stroke: "#000000",
+    strokeWidth: 2,
+    rotation: 0,
+  });
+  const steps = useCanvasStore.getState().history.length;
+  const getX = () =>
+    useCanvasStore.getState().shapes.find((shape) => shape.id === "dragged")?.x;
+
+  // 拖拽过程中的每次移动合并为一步；多余的提交不产生记录
+  store.beginTransaction();
+  [10, 20, 30].forEach((x) => store.updateShape("dragged", { x }));
+  store.commitTransaction();
+  store.commitTransaction();
+  assert.equal(useCanvasStore.getState().history.length, steps + 1);
+  assert.equal(useCanvasStore.getState().history.at(-1)?.label, "移动矩形");
+
+  store.undo();
+  assert.equal(getX(), 0);
+  store.redo();
+  assert.equal(getX(), 30);
+});
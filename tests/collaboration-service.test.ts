@@ -0,0 +1,211 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { createCollabServer } from "@/lib/server";
+import { createStorage } from "@/lib/server-storage";
+import { CollaborationService } from "@/lib/collaboration-service";
+import type { CanvasState } from "@/lib/collaboration-service";
+import type { CanvasLayer, CanvasPath, CanvasShape } from "@/types/canvas";
+
+// 两个客户端连接同一个使用内存存储的协作服务器，并发修改后两边的文档应当一致且不丢元素
+
+// ReconnectingWebSocket 使用全局的 WebSocket，Node 20 中没有
+(globalThis as any).WebSocket = require("ws");
+
+const CANVAS_ID = "test-canvas";
+
+let server: ReturnType<typeof createCollabServer>;
+let serverUrl: string;
+
+const createPath = (id: string): CanvasPath => ({
+  id,
+  points: [0, 0, 10, 10],
+  stroke: "#000000",
+  strokeWidth: 2,
+});
+
+const createShape = (id: string): CanvasShape => ({
+  id,
+  type: "rectangle",
+  x: 0,
+  y: 0,
+  width: 10,
+  height: 10,
+  stroke: "#000000",
+  strokeWidth: 2,
+  rotation: 0,
+});
+
+const getIds = (state: CanvasState) => ({
+  paths: state.paths.map((path) => path.id).sort(),
+  shapes: state.shapes.map((shape) => shape.id).sort(),
+});
+
+// 等待两个客户端的文档都收敛到预期的元素
+const waitForState = async (
+  clients: CollaborationService[],
+  expected: { paths: string[]; shapes: string[] },
+  timeout = 5000
+) => {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const states = clients.map((client) => client.getCurrentState());
+    const converged = states.every(
+      (state) =>
+        JSON.stringify(getIds(state)) === JSON.stringify(expected) &&
+        JSON.stringify(state) === JSON.stringify(states[0])
+    );
+    if (converged) return states;
+    if (Date.now() > deadline) {
+      assert.deepEqual(states.map(getIds), [expected, expected]);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+const createLayer = (id: string, name: string): CanvasLayer => ({
+  id,
+  name,
+  visible: true,
+  locked: false,
+  opacity: 1,
+});
+
+// 等待条件满足，超时后报告最后一次的结果
+const waitFor = async <T>(read: () => T, check: (value: T) => boolean) => {
+  const deadline = Date.now() + 5000;
+  for (;;) {
+    const value = read();
+    if (check(value)) return value;
+    if (Date.now() > deadline) assert.fail(JSON.stringify(value));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+const connect = async (canvasId = CANVAS_ID) => {
+  const client = new CollaborationService(canvasId, serverUrl);
+  await client.subscribe();
+  return client;
+};
+
+before(async () => {
+  server = createCollabServer({ db: createStorage({ type: "memory" }) });
+  await new Promise<void>((resolve) => server.server.listen(0, resolve));
+  const { port } = server.server.address() as AddressInfo;
+  serverUrl = `ws://localhost:${port}`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+test("concurrent adds and deletes from two clients converge", async () => {
+  // 依次连接，避免两个客户端同时创建文档
+  const alice = await connect();
+  const bob = await connect();
+
+  try {
+    // 同时添加：双方的插入都应保留
+    alice.addShape(createShape("alice-shape"));
+    alice.addPath(createPath("alice-path"));
+    bob.addShape(createShape("bob-shape"));
+    bob.addPath(createPath("bob-path"));
+
+    await waitForState([alice, bob], {
+      paths: ["alice-path", "bob-path"],
+      shapes: ["alice-shape", "bob-shape"],
+    });
+
+    // 一边删除，另一边同时添加和删除其他元素
+    alice.deleteSelected(["bob-shape", "alice-path"]);
+    bob.addShape(createShape("bob-shape-2"));
+    bob.deleteSelected(["bob-path"]);
+    bob.addPath(createPath("bob-path-2"));
+
+    await waitForState([alice, bob], {
+      paths: ["bob-path-2"],
+      shapes: ["alice-shape", "bob-shape-2"],
+    });
+
+    // 双方同时删除同一个元素
+    alice.deleteSelected(["alice-shape"]);
+    bob.deleteSelected(["alice-shape"]);
+
+    await waitForState([alice, bob], {
+      paths: ["bob-path-2"],
+      shapes: ["bob-shape-2"],
+    });
+  } finally {
+    alice.disconnect();
+    bob.disconnect();
+  }
+});
+
+test("concurrent layer edits merge and can be undone", async () => {
+  const alice = await connect("layer-canvas");
+  const bob = await connect("layer-canvas");
+  const getLayers = () =>
+    [alice, bob].map((client) =>
+      JSON.stringify(client.getCurrentState().layers)
+    );
+  const converged = (expected: CanvasLayer[]) => (layers: string[]) =>
+    layers.every((value) => value === JSON.stringify(expected));
+
+  try {
+    const base = [createLayer("a", "A"), createLayer("b", "B")];
+    alice.updateLayers(base);
+    await waitFor(getLayers, converged(base));
+    // 间隔足够长，之后的修改不与这一步合并撤销
+    await new Promise((resolve) => setTimeout(resolve, 600));
+
+    // 一边重命名图层，另一边同时添加图层并隐藏另一个图层
+    alice.updateLayers([{ ...base[0], name: "A2" }, base[1]]);
+    bob.updateLayers([
+      base[0],
+      { ...base[1], visible: false },
+      createLayer("c", "C"),
+    ]);
+    const merged = [
+      { ...base[0], name: "A2" },
+      { ...base[1], visible: false },
+      createLayer("c", "C"),
+    ];
+    await waitFor(getLayers, converged(merged));
+
+    // 撤销只还原自己的修改
+    assert.ok(alice.undo());
+    await waitFor(getLayers, converged([base[0], ...merged.slice(1)]));
+
+    // 调整顺序并删除图层
+    bob.updateLayers([merged[2], base[0]]);
+    await waitFor(getLayers, converged([merged[2], base[0]]));
+  } finally {
+    alice.disconnect();
+    bob.disconnect();
+  }
+});
+
+test("a new room starts with the seeded content and layers", async () => {
+  const layers = [createLayer("seed-layer", "Seed")];
+  const owner = new CollaborationService("seeded-canvas", serverUrl);
+  await owner.subscribe({
+    paths: [createPath("seed-path")],
+    shapes: [createShape("seed-shape")],
+    layers,
+  });
+  await owner.flush();
+  owner.disconnect();
+
+  const guest = await connect("seeded-canvas");
+  try {
+    const state = guest.getCurrentState();
+    assert.deepEqual(getIds(state), {
+      paths: ["seed-path"],
+      shapes: ["seed-shape"],
+    });
+    assert.deepEqual(state.layers, layers);
+    assert.deepEqual(state.assets, {});
+  } finally {
+    guest.disconnect();
+  }
+});
@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DOCUMENT_VERSION,
+  DocumentValidationError,
+  createDocument,
+  parseDocument,
+} from "@/lib/document-schema";
+import { createAssetRef, getDataURLAssetId } from "@/lib/assets";
+import type { CanvasShape } from "@/types/canvas";
+
+const PIXEL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+const rectangle = (id: string, fields: Partial<CanvasShape> = {}) => ({
+  id,
+  type: "rectangle",
+  x: 0,
+  y: 0,
+  width: 10,
+  height: 10,
+  stroke: "#000000",
+  strokeWidth: 2,
+  rotation: 0,
+  ...fields,
+});
+
+test("early local storage documents are migrated to the current version", () => {
+  const { document } = parseDocument({
+    paths: [
+      { id: "p", points: [0, 0, 10, 10], stroke: "#000000", strokeWidth: 2 },
+    ],
+    shapes: [
+      {
+        id: "c",
+        type: "circle",
+        x: 5,
+        y: 5,
+        radius: 4,
+        stroke: "#000000",
+        strokeWidth: 2,
+      },
+      { ...rectangle("i"), type: "image", src: PIXEL },
+      { ...rectangle("j"), type: "image", src: PIXEL },
+    ],
+  });
+
+  assert.equal(document.version, DOCUMENT_VERSION);
+  const [circle, first, second] = document.shapes;
+  // v1 → v2：圆形换算为外接正方形
+  assert.deepEqual([circle.width, circle.height], [8, 8]);
+  // v2 → v3：相同的图片只保存一份资源
+  const ref = createAssetRef(getDataURLAssetId(PIXEL));
+  assert.deepEqual([first.src, second.src], [ref, ref]);
+  assert.deepEqual(Object.values(document.assets), [PIXEL]);
+  // v3 → v4：按旧的绘制顺序（先路径后图形）编号
+  assert.deepEqual(
+    [document.paths[0].zIndex, ...document.shapes.map((s) => s.zIndex)],
+    [0, 1, 2, 3]
+  );
+  // v4 → v5：增加默认图层
+  assert.equal(document.layers.length, 1);
+});
+
+test("current documents survive a save and load round-trip", () => {
+  const saved = createDocument({
+    paths: [],
+    shapes: [rectangle("a", { zIndex: 0 }) as CanvasShape],
+  });
+  const { document, issues } = parseDocument(JSON.stringify(saved));
+  assert.deepEqual(document, saved);
+  assert.deepEqual(issues, []);
+});
+
+test("pasted duplicates get their own ids, groups and bindings", () => {
+  const content = [
+    rectangle("box", { groupIds: ["g"] }),
+    {
+      ...rectangle("arrow", { groupIds: ["g"] }),
+      type: "arrow",
+      points: [0, 0, 20, 0],
+      endBinding: { shapeId: "box", anchor: null },
+    },
+  ];
+  const { document, issues } = parseDocument({
+    version: DOCUMENT_VERSION,
+    paths: [],
+    shapes: [...content, ...content],
+  });
+
+  const [box, arrow, boxCopy, arrowCopy] = document.shapes;
+  assert.deepEqual(
+    [box.id, arrow.id],
+    ["box", "arrow"],
+    "originals keep their ids"
+  );
+  assert.notEqual(boxCopy.id, "box");
+  assert.notEqual(arrowCopy.id, "arrow");
+  assert.equal(arrowCopy.endBinding?.shapeId, boxCopy.id);
+  assert.deepEqual(boxCopy.groupIds, arrowCopy.groupIds);
+  assert.notDeepEqual(boxCopy.groupIds, ["g"]);
+  assert.ok(issues.every((issue) => issue.action === "repaired"));
+  assert.ok(issues.some((issue) => issue.path === "shapes[3].endBinding"));
+});
+
+test("unreadable documents report where they failed", () => {
+  assert.throws(
+    () =>
+      parseDocument({ version: DOCUMENT_VERSION + 1, paths: [], shapes: [] }),
+    (error: unknown) =>
+      error instanceof DocumentValidationError && error.path === "version"
+  );
+  assert.throws(
+    () => parseDocument({ paths: {}, shapes: [] }),
+    (error: unknown) =>
+      error instanceof DocumentValidationError && error.path === "paths"
+  );
+});
@@ -0,0 +1,121 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fromExcalidraw, toExcalidraw } from "@/lib/excalidraw";
+import { bindConnector } from "@/lib/bindings";
+import type { CanvasPath, CanvasShape } from "@/types/canvas";
+
+const rectangle = (id: string, x: number, zIndex: number): CanvasShape => ({
+  id,
+  type: "rectangle",
+  x,
+  y: 0,
+  width: 100,
+  height: 100,
+  stroke: "#1e1e1e",
+  strokeWidth: 2,
+  opacity: 1,
+  fill: "transparent",
+  rotation: 0,
+  zIndex,
+});
+
+test("groups, locks and bindings survive an Excalidraw round-trip", () => {
+  const a = { ...rectangle("a", 0, 0), groupIds: ["g"], locked: true };
+  const b = { ...rectangle("b", 300, 1), fill: "#ffc9c9" };
+  const arrow = bindConnector(
+    {
+      id: "arrow",
+      type: "arrow",
+      x: 100,
+      y: 30,
+      points: [100, 30, 305, 80],
+      stroke: "#1e1e1e",
+      strokeWidth: 2,
+      opacity: 1,
+      rotation: 0,
+      zIndex: 2,
+      groupIds: ["g"],
+    },
+    [a, b],
+    10
+  );
+  const path: CanvasPath = {
+    id: "p",
+    points: [0, 0, 10, 20, 30, 5],
+    stroke: "#1e1e1e",
+    strokeWidth: 2,
+    opacity: 1,
+    zIndex: 3,
+  };
+
+  const exported = toExcalidraw({ paths: [path], shapes: [a, b, arrow] });
+  const { data, issues } = fromExcalidraw(JSON.stringify(exported.data));
+  assert.deepEqual(issues, []);
+
+  // 导入时生成新的 ID，按位置对应原来的元素
+  const ids = new Map(
+    [...data.paths, ...data.shapes].map((element, i) => [
+      element.id,
+      [path, a, b, arrow][i].id,
+    ])
+  );
+  const restoreIds = <T extends CanvasPath | CanvasShape>(element: T): T => {
+    const restored = { ...element, id: ids.get(element.id) as string };
+    if ("type" in restored) {
+      (["startBinding", "endBinding"] as const).forEach((key) => {
+        const binding = restored[key];
+        if (binding) {
+          restored[key] = {
+            ...binding,
+            shapeId: ids.get(binding.shapeId) as string,
+          };
+        }
+      });
+    }
+    return restored;
+  };
+  assert.deepEqual(data.paths.map(restoreIds), [path]);
+  assert.deepEqual(data.shapes.map(restoreIds), [
+    a,
+    b,
+    // 导入的箭头带有包围框尺寸
+    { ...arrow, width: 200, height: 50 },
+  ]);
+});
+
+test("deleted elements are skipped and unsupported styles are reported", () => {
+  const { data, issues } = fromExcalidraw(
+    JSON.stringify({
+      type: "excalidraw",
+      version: 2,
+      source: "test",
+      elements: [
+        {
+          id: "dashed",
+          type: "rectangle",
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+          strokeStyle: "dashed",
+        },
+        {
+          id: "gone",
+          type: "rectangle",
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+          isDeleted: true,
+        },
+      ],
+      appState: {},
+      files: {},
+    })
+  );
+  assert.equal(data.shapes.length, 1);
+  assert.deepEqual(issues, [
+    { id: "dashed", type: "rectangle", reasons: ["虚线/点线描边"] },
+  ]);
+  assert.throws(() => fromExcalidraw("{}"), /Invalid Excalidraw file/);
+});
@@ -0,0 +1,125 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyPatch,
+  describePatch,
+  diffCanvas,
+  isPatchEmpty,
+  limitBranches,
+} from "@/lib/history";
+import type { HistoryBranch, HistoryEntry } from "@/lib/history";
+import { createDefaultLayers } from "@/lib/layers";
+import type { CanvasPath, CanvasShape } from "@/types/canvas";
+
+const createEntry = (id: string): HistoryEntry => ({
+  id,
+  patch: diffCanvas({ paths: [], shapes: [] }, { paths: [], shapes: [] }),
+  label: id,
+  timestamp: 0,
+});
+
+const createBranch = (
+  id: string,
+  size: number,
+  timestamp: number
+): HistoryBranch => ({
+  id,
+  forkEntryId: null,
+  entries: Array.from({ length: size }, (_, i) => createEntry(`${id}-${i}`)),
+  timestamp,
+});
+
+test("redo branches are limited to the history limit, newest first", () => {
+  const old = createBranch("old", 3, 1);
+  const middle = createBranch("middle", 3, 2);
+  const recent = createBranch("recent", 2, 3);
+
+  const limited = limitBranches([old, middle, recent], 4);
+  // 最近的分支完整保留，较早的分支只保留开头的记录，再早的分支被丢弃
+  assert.deepEqual(
+    limited.map((branch) => [branch.id, branch.entries.map((e) => e.id)]),
+    [
+      ["middle", ["middle-0", "middle-1"]],
+      ["recent", ["recent-0", "recent-1"]],
+    ]
+  );
+  // 没有超出上限时原样返回
+  assert.deepEqual(limitBranches([old, recent], 10), [old, recent]);
+});
+
+const path = (id: string): CanvasPath => ({
+  id,
+  points: [0, 0, 10, 10],
+  stroke: "#000000",
+  strokeWidth: 2,
+});
+
+const rectangle = (id: string, fields: Partial<CanvasShape> = {}) =>
+  ({
+    id,
+    type: "rectangle",
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+    stroke: "#000000",
+    strokeWidth: 2,
+    rotation: 0,
+    ...fields,
+  }) as CanvasShape;
+
+test("patches undo and redo additions, removals, updates and reordering", () => {
+  const layers = createDefaultLayers();
+  const before = {
+    paths: [path("p1"), path("p2")],
+    shapes: [
+      rectangle("a"),
+      rectangle("b", { fill: "#ff0000" }),
+      rectangle("c"),
+    ],
+    layers,
+  };
+  const after = {
+    paths: [path("p2"), path("p3")],
+    // b 移到最上面，去掉填充；a 移动位置；c 被删除；d 新增
+    shapes: [rectangle("a", { x: 5 }), rectangle("d"), rectangle("b")],
+    layers: [{ ...layers[0], visible: false }],
+  };
+
+  const patch = diffCanvas(before, after);
+  assert.equal(isPatchEmpty(patch), false);
+  assert.deepEqual(patch.shapes.updated, [
+    { id: "a", before: { x: 0 }, after: { x: 5 } },
+    { id: "b", before: { fill: "#ff0000" }, after: { fill: undefined } },
+  ]);
+  assert.deepEqual(applyPatch(after, patch, "undo"), before);
+  assert.deepEqual(applyPatch(before, patch, "redo"), after);
+  assert.equal(isPatchEmpty(diffCanvas(after, { ...after })), true);
+});
+
+test("patches are described by what they change", () => {
+  const content = { paths: [], shapes: [rectangle("a")] };
+  const describe = (after: typeof content, before = content) =>
+    describePatch(diffCanvas(before, after), after);
+
+  assert.equal(describe(content, { paths: [], shapes: [] }), "添加矩形");
+  assert.equal(
+    describe({ paths: [], shapes: [rectangle("a", { stroke: "#ff0000" })] }),
+    "修改矩形的描边颜色"
+  );
+  assert.equal(
+    describe({ paths: [], shapes: [rectangle("a", { x: 1 }), rectangle("b")] }),
+    "修改画布"
+  );
+  const layers = createDefaultLayers();
+  assert.equal(
+    describePatch(
+      diffCanvas(
+        { ...content, layers },
+        { ...content, layers: [{ ...layers[0], locked: true }] }
+      ),
+      content
+    ),
+    "锁定图层"
+  );
+});
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseMermaid } from "@/lib/mermaid-import";
+
+const getLabels = (source: string) =>
+  Object.fromEntries(
+    parseMermaid(source).nodes.map((node) => [node.id, node.label])
+  );
+
+test("quoted labels may contain semicolons, brackets and %%", () => {
+  const graph = parseMermaid(
+    'flowchart LR; A["a; b"] --> B["quoted [x]"]; B --> C("50%% done") %% note'
+  );
+  assert.deepEqual(
+    graph.nodes.map(({ id, label }) => [id, label]),
+    [
+      ["A", "a; b"],
+      ["B", "quoted [x]"],
+      ["C", "50%% done"],
+    ]
+  );
+  assert.deepEqual(
+    graph.edges.map(({ from, to }) => [from, to]),
+    [
+      ["A", "B"],
+      ["B", "C"],
+    ]
+  );
+});
+
+test("statements are split on newlines and semicolons", () => {
+  assert.deepEqual(getLabels("graph TD\nA[Start];B{Check}\nA --> B"), {
+    A: "Start",
+    B: "Check",
+  });
+});
+
+test("unclosed quoted labels are reported", () => {
+  assert.throws(() => parseMermaid('graph TD\nA["open] --> B'), /Unclosed/);
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import "fake-indexeddb/auto";
+import { openStorage } from "@/lib/storage";
+
+// 旧版保存在 localStorage 中的数据
+const legacy = new Map<string, string>();
+(globalThis as any).localStorage = {
+  getItem: (key: string) => legacy.get(key) ?? null,
+  setItem: (key: string, value: string) => legacy.set(key, value),
+  removeItem: (key: string) => legacy.delete(key),
+};
+
+const legacyDrawing = (timestamp: string) => ({
+  data: JSON.stringify({
+    version: "1.0",
+    timestamp,
+    paths: [
+      { id: "p", points: [0, 0, 10, 10], stroke: "#000000", strokeWidth: 2 },
+    ],
+    shapes: [],
+  }),
+  timestamp,
+});
+
+test("legacy drawings are migrated once, skipping unreadable ones", async () => {
+  legacy.set(
+    "excalidraw-drawings",
+    JSON.stringify({
+      first: legacyDrawing("2024-01-02T03:04:05.000Z"),
+      broken: { data: "{not json" },
+      second: legacyDrawing("2024-02-03T04:05:06.000Z"),
+    })
+  );
+
+  const { storage } = await openStorage();
+  const drawings = await storage.list();
+  assert.deepEqual(
+    drawings.map(({ name, updatedAt }) => [name, updatedAt]),
+    [
+      ["second", "2024-02-03T04:05:06.000Z"],
+      ["first", "2024-01-02T03:04:05.000Z"],
+    ]
+  );
+  assert.equal(legacy.has("excalidraw-drawings"), false);
+
+  // 再次启动时不会重复迁移
+  const reopened = await openStorage();
+  assert.equal((await reopened.storage.list()).length, 2);
+});
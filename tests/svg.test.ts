@@ -0,0 +1,125 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+import type { CanvasShape } from "@/types/canvas";
+
+// 解析 SVG 需要 DOMParser 和 document，由 happy-dom 提供
+let svgExport: typeof import("@/lib/svg-export");
+let svgImport: typeof import("@/lib/svg-import");
+
+before(async () => {
+  GlobalRegistrator.register();
+  svgExport = await import("@/lib/svg-export");
+  svgImport = await import("@/lib/svg-import");
+});
+
+after(async () => {
+  await GlobalRegistrator.unregister();
+});
+
+const shapes: CanvasShape[] = [
+  {
+    id: "rectangle",
+    type: "rectangle",
+    x: 10,
+    y: 20,
+    width: 100,
+    height: 50,
+    stroke: "#ff0000",
+    strokeWidth: 3,
+    fill: "#00ff00",
+    opacity: 0.5,
+    rotation: 30,
+  },
+  {
+    id: "circle",
+    type: "circle",
+    x: 200,
+    y: 20,
+    width: 60,
+    height: 60,
+    stroke: "#000000",
+    strokeWidth: 2,
+    fill: "transparent",
+    opacity: 0,
+    rotation: 0,
+  },
+  {
+    id: "line",
+    type: "line",
+    x: 0,
+    y: 100,
+    points: [0, 100, 50, 150],
+    stroke: "#000000",
+    strokeWidth: 2,
+    rotation: 0,
+  },
+  {
+    id: "text",
+    type: "text",
+    x: 0,
+    y: 200,
+    text: "hello",
+    fontSize: 20,
+    fontFamily: "Arial",
+    stroke: "#000000",
+    strokeWidth: 1,
+    rotation: 0,
+  },
+];
+
+test("shapes survive an SVG export and import round-trip", () => {
+  const svg = svgExport.createSVG({ paths: [], shapes }, { padding: 0 });
+  const imported = svgImport.parseSVG(svg).shapes;
+
+  // 导入时 viewBox 的起点平移到原点
+  const dx = imported[0].x - shapes[0].x;
+  const dy = imported[0].y - shapes[0].y;
+  // 旋转后的尺寸有浮点误差
+  const round = (value?: number) =>
+    value === undefined ? value : Number(value.toFixed(2));
+  const summarize = (shape: CanvasShape, offsetX = 0, offsetY = 0) => ({
+    type: shape.type,
+    x: round(shape.x + offsetX),
+    y: round(shape.y + offsetY),
+    width: round(shape.width),
+    height: round(shape.height),
+    opacity: shape.opacity ?? 1,
+    rotation: Math.round(shape.rotation),
+    text: shape.text,
+  });
+  assert.deepEqual(
+    imported.map((shape) => summarize(shape)),
+    shapes.map((shape) => ({
+      ...summarize(shape, dx, dy),
+      // 直线和文本导入后带有包围框尺寸
+      ...(shape.type === "line" && { width: 50, height: 50 }),
+      ...(shape.type === "text" && { width: 40, height: 24 }),
+    }))
+  );
+  assert.deepEqual(imported[2].points, [dx, 100 + dy, 50 + dx, 150 + dy]);
+  assert.deepEqual(
+    imported.map((shape) => shape.fill),
+    ["#00ff00", "transparent", undefined, "#000000"]
+  );
+});
+
+test("transforms and path data are converted to absolute coordinates", () => {
+  const [a, b, c, d, e, f] = svgImport.parseTransform(
+    "translate(10 20) scale(2)"
+  );
+  assert.deepEqual([a, b, c, d, e, f], [2, 0, 0, 2, 10, 20]);
+  assert.deepEqual(svgImport.flattenPathData("M0 0 l10 0 v10 Z m5 5 h1"), [
+    [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 0],
+    ],
+    [
+      [5, 5],
+      [6, 5],
+    ],
+  ]);
+  assert.throws(() => svgImport.parseSVG("<div></div>"), /Invalid SVG file/);
+});
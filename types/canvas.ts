@@ -18,6 +18,12 @@ export interface CanvasPath {
   strokeWidth: number;
   fill?: string;
   opacity?: number;
+  zIndex?: number; // 层叠顺序，与图形共用，越大越靠上
+  groupIds?: string[]; // 所属的组，从内到外排列
+  layerId?: string; // 所属的图层，缺省或图层不存在时属于最下面的图层
+  name?: string; // 在大纲中显示的名称，缺省时按类型或文字生成
+  hidden?: boolean; // 单独隐藏（不绘制、不导出）
+  locked?: boolean; // 单独锁定（不能选中和编辑）
 }
 
 export interface CanvasShape {
@@ -47,6 +53,30 @@ export interface CanvasShape {
   //image types
   src?: string;
   filter?: string;
+  zIndex?: number; // 层叠顺序，与路径共用，越大越靠上
+  groupIds?: string[]; // 所属的组，从内到外排列
+  layerId?: string; // 所属的图层，缺省或图层不存在时属于最下面的图层
+  name?: string; // 在大纲中显示的名称，缺省时按类型或文字生成
+  hidden?: boolean; // 单独隐藏（不绘制、不导出）
+  locked?: boolean; // 单独锁定（不能选中和编辑）
+  startBinding?: ShapeBinding; // 箭头和直线的起点绑定的图形
+  endBinding?: ShapeBinding; // 箭头和直线的终点绑定的图形
+}
+
+// 连接线端点的绑定：anchor 是目标轮廓上的固定位置，
+// 取目标未旋转时包围框中的相对坐标（0~1）；为 null 时绑定到目标的中心
+export interface ShapeBinding {
+  shapeId: string;
+  anchor: [number, number] | null;
+}
+
+// 图层：隐藏的图层不绘制也不导出，锁定的图层不能选中和编辑
+export interface CanvasLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number; // 与元素自身的透明度相乘
 }
 
 export interface CanvasObject {
@@ -63,3 +93,12 @@ export interface GuideLine {
   position: number;
   isTemp?: boolean; // 临时辅助线，用于吸附提示
 }
+
+// 协作参与者（远程用户）
+export interface Participant {
+  id: string;
+  name: string;
+  color: string;
+  cursor: { x: number; y: number } | null; // 画布坐标系下的光标位置
+  selectedIds: string[]; // 该用户当前选中的元素
+}